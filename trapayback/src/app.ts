@@ -7,6 +7,14 @@ import routes from './routes';
 import { errorHandler, notFound } from './middleware/errorHandler';
 import { config } from './config/config';
 
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: string; // ✅ ДОБАВЛЕНО: Сырое тело для проверки подписи входящих webhook
+    }
+  }
+}
+
 const app = express();
 
 // Security middleware
@@ -17,7 +25,7 @@ app.use(cors({
     : true,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'], // ✅ ДОБАВЛЕНО: Явно разрешаем OPTIONS
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin'], // ✅ ДОБАВЛЕНО: Разрешенные заголовки
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin', 'Idempotency-Key'], // ✅ ДОБАВЛЕНО: Разрешенные заголовки
   optionsSuccessStatus: 200,
 }));
 
@@ -44,8 +52,12 @@ const authLimiter = rateLimit({
 app.use('/api/auth/login', authLimiter);
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
+// ✅ ОБНОВЛЕНО: Сохраняем сырое тело запроса - подпись webhook считается от него, а не от распарсенного JSON
+const saveRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => {
+  req.rawBody = buf.toString('utf8');
+};
+app.use(express.json({ limit: '10mb', verify: saveRawBody }));
+app.use(express.urlencoded({ extended: true, verify: saveRawBody }));
 
 // Logging
 if (config.nodeEnv !== 'test') {
@@ -2,16 +2,34 @@ import { Request, Response, NextFunction } from 'express';
 import { AdminService } from '../services/adminService';
 import { PaymentLinkService } from '../services/paymentLinkService'; // ✅ ДОБАВЛЕНО
 import { telegramBotService } from '../services/telegramBotService';
+import { gatewayCatalogService } from '../services/gatewayCatalogService'; // ✅ ДОБАВЛЕНО
+import { WebhookService } from '../services/webhookService';
+import { inboundWebhookService } from '../services/inboundWebhookService';
+import { jobService } from '../services/jobService'; // ✅ ДОБАВЛЕНО
+import { leaseService } from '../services/leaseService'; // ✅ ДОБАВЛЕНО
+import { refundService } from '../services/refundService'; // ✅ ДОБАВЛЕНО
+import { disputeService } from '../services/disputeService'; // ✅ ДОБАВЛЕНО
+import { paymentAmountService } from '../services/paymentAmountService'; // ✅ ДОБАВЛЕНО
+import { ledgerService } from '../services/ledgerService'; // ✅ ДОБАВЛЕНО
 import { UpdateUserRequest } from '../types/user';
-import { MerchantsAwaitingPayoutFilters, CreatePayoutRequest, PayoutFilters, MerchantStatisticsFilters } from '../types/admin';
+import { CreateGatewayRequest, UpdateGatewayRequest } from '../types/gateway';
+import { InboundWebhookFilters } from '../types/webhook';
+import { ScheduledJobFilters } from '../types/job'; // ✅ ДОБАВЛЕНО
+import { RefundFilters, CompleteRefundRequest, RejectRefundRequest } from '../types/refund'; // ✅ ДОБАВЛЕНО
+import { ResolveAmountMismatchRequest } from '../types/payment'; // ✅ ДОБАВЛЕНО
+import { CreateLedgerAdjustmentRequest } from '../types/ledger'; // ✅ ДОБАВЛЕНО
+import { DisputeFilters, CreateDisputeRequest, UpdateDisputeRequest, ResolveDisputeRequest, DisputeEvidenceFile } from '../types/dispute'; // ✅ ДОБАВЛЕНО
+import { MerchantsAwaitingPayoutFilters, CreatePayoutRequest, ApprovePayoutRequest, RejectPayoutRequest, PayoutFilters, MerchantStatisticsFilters } from '../types/admin';
 
 export class AdminController {
   private adminService: AdminService;
   private paymentLinkService: PaymentLinkService; // ✅ ДОБАВЛЕНО
+  private webhookService: WebhookService; // ✅ ДОБАВЛЕНО
 
   constructor() {
     this.adminService = new AdminService();
     this.paymentLinkService = new PaymentLinkService(); // ✅ ДОБАВЛЕНО
+    this.webhookService = new WebhookService(); // ✅ ДОБАВЛЕНО
   }
 
   // GET /api/admin/auth - Check if user is admin
@@ -147,6 +165,7 @@ export class AdminController {
         page = 1, 
         limit = 20, 
         shopId,
+        status,
         network,
         dateFrom,
         dateTo,
@@ -157,6 +176,7 @@ export class AdminController {
         page: Number(page),
         limit: Number(limit),
         shopId: shopId as string,
+        status: status as string, // ✅ ДОБАВЛЕНО
         network: network as string,
         dateFrom: dateFrom as string,
         dateTo: dateTo as string,
@@ -197,6 +217,42 @@ export class AdminController {
     }
   };
 
+  // ✅ ДОБАВЛЕНО: POST /api/admin/payouts/:id/approve - Подтвердить запрос выплаты (txid перевода)
+  approvePayout = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const approveData: ApprovePayoutRequest = req.body;
+
+      const result = await this.adminService.approvePayout(id, approveData, req.user?.id);
+
+      res.json({
+        success: true,
+        message: 'Payout approved successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/payouts/:id/reject - Отклонить запрос выплаты
+  rejectPayout = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const rejectData: RejectPayoutRequest = req.body;
+
+      const result = await this.adminService.rejectPayout(id, rejectData, req.user?.id);
+
+      res.json({
+        success: true,
+        message: 'Payout rejected successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // DELETE /api/admin/payouts/:id - Delete payout
   deletePayout = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -287,10 +343,10 @@ export class AdminController {
         });
       }
 
-      const result = await this.adminService.updatePaymentStatus(id, status, notes, chargebackAmount);
+      const result = await this.adminService.updatePaymentStatus(id, status, notes, chargebackAmount, req.user?.id);
       
       // ✅ ДОБАВЛЕНО: Обрабатываем payment link если статус изменился на PAID
-      if (paymentBefore.status !== status && status.toUpperCase() === 'PAID') {
+      if (result.statusChanged && result.status === 'PAID') {
         console.log(`📈 Admin changed payment ${id} to PAID, updating payment link counter`);
         
         try {
@@ -302,13 +358,13 @@ export class AdminController {
         }
       }
 
-      // ✅ ОБНОВЛЕНО: Отправляем Telegram уведомление БЕЗ упоминания админа
-      if (paymentBefore.status !== status) {
+      // ✅ ОБНОВЛЕНО: Отправляем Telegram уведомление БЕЗ упоминания админа (только если статус действительно изменен)
+      if (result.statusChanged) {
         console.log(`📱 Payment ${id} status changed from ${paymentBefore.status} to ${status}, sending Telegram notification`);
         
         try {
           // Определяем тип уведомления для Telegram
-          let telegramStatus: 'paid' | 'failed' | 'expired' | 'refund' | 'chargeback' | 'processing';
+          let telegramStatus: 'paid' | 'failed' | 'expired' | 'refund' | 'chargeback' | 'processing' | 'underpaid';
           
           switch (status.toUpperCase()) {
             case 'PAID':
@@ -329,6 +385,9 @@ export class AdminController {
             case 'CHARGEBACK':
               telegramStatus = 'chargeback';
               break;
+            case 'UNDERPAID':
+              telegramStatus = 'underpaid';
+              break;
             default:
               // Для PENDING и других статусов не отправляем уведомление
               console.log(`📱 Skipping Telegram notification for status change to: ${status}`);
@@ -423,6 +482,64 @@ export class AdminController {
     }
   };
 
+  // ✅ ДОБАВЛЕНО: GET /api/admin/users/:id/balance - Ledger balance of the shop
+  getUserBalance = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      const balance = await ledgerService.getBalance(id);
+
+      res.json({
+        success: true,
+        result: balance,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/users/:id/ledger - Ledger statement of the shop
+  getUserLedger = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = 50, account, type, dateFrom, dateTo } = req.query;
+
+      const result = await ledgerService.getStatement(id, {
+        page: Number(page),
+        limit: Number(limit),
+        account: account as string,
+        type: type as string,
+        dateFrom: dateFrom as string,
+        dateTo: dateTo as string,
+      });
+
+      res.json({
+        success: true,
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/users/:id/ledger/adjustments - Manual balance adjustment
+  createLedgerAdjustment = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const adjustmentData: CreateLedgerAdjustmentRequest = req.body;
+
+      const balance = await ledgerService.recordAdjustment(id, adjustmentData, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Balance adjusted successfully',
+        result: balance,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // GET /api/admin/users - Get all users with pagination and filters
   getUsers = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -502,4 +619,588 @@ export class AdminController {
       next(error);
     }
   };
-}
\ No newline at end of file
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/gateways - Get gateway catalog
+  getGateways = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const gateways = await gatewayCatalogService.listGateways();
+
+      res.json({
+        success: true,
+        result: gateways,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/gateways/:id - Get gateway by ID
+  getGatewayById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const gateway = await gatewayCatalogService.getGateway(id);
+
+      if (!gateway) {
+        return res.status(404).json({
+          success: false,
+          message: 'Gateway not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: gateway,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/gateways - Add gateway to catalog
+  createGateway = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const gatewayData: CreateGatewayRequest = req.body;
+      const result = await gatewayCatalogService.createGateway(gatewayData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Gateway created successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: PUT /api/admin/gateways/:id - Update gateway (enable/disable, rename)
+  updateGateway = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const updateData: UpdateGatewayRequest = req.body;
+      const result = await gatewayCatalogService.updateGateway(id, updateData);
+
+      res.json({
+        success: true,
+        message: 'Gateway updated successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: DELETE /api/admin/gateways/:id - Remove gateway from catalog
+  deleteGateway = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      await gatewayCatalogService.deleteGateway(id);
+
+      res.json({
+        success: true,
+        message: 'Gateway deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/webhooks/inbound - Inbox входящих webhook от шлюзов
+  getInboundWebhooks = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        provider,
+        status,
+        paymentId,
+        dateFrom,
+        dateTo,
+      } = req.query;
+
+      const filters: InboundWebhookFilters = {
+        page: Number(page),
+        limit: Number(limit),
+        provider: provider as string,
+        status: status as string,
+        paymentId: paymentId as string,
+        dateFrom: dateFrom as string,
+        dateTo: dateTo as string,
+      };
+
+      const result = await inboundWebhookService.getInboundWebhooks(filters);
+
+      res.json({
+        success: true,
+        webhooks: result.webhooks,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/webhooks/inbound/:id - Webhook с заголовками и телом
+  getInboundWebhookById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const webhook = await inboundWebhookService.getInboundWebhookById(id);
+
+      if (!webhook) {
+        return res.status(404).json({
+          success: false,
+          message: 'Inbound webhook not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: webhook,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/webhooks/inbound/:id/replay - Повторная обработка через WebhookService
+  replayInboundWebhook = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const webhook = await inboundWebhookService.getInboundWebhookById(id);
+
+      if (!webhook) {
+        return res.status(404).json({
+          success: false,
+          message: 'Inbound webhook not found',
+        });
+      }
+
+      // ✅ ДОБАВЛЕНО: Webhook с неверной подписью не обрабатывается повторно
+      if (webhook.status === 'REJECTED') {
+        return res.status(409).json({
+          success: false,
+          message: 'Rejected webhook (invalid signature) cannot be replayed',
+        });
+      }
+
+      try {
+        const result = await this.webhookService.replayInboundWebhook(id);
+
+        res.json({
+          success: true,
+          message: 'Webhook replayed successfully',
+          result: result,
+        });
+      } catch (replayError) {
+        res.status(422).json({
+          success: false,
+          message: `Webhook replay failed: ${replayError instanceof Error ? replayError.message : 'Unknown error'}`,
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/jobs - Фоновые задачи (проверки CoinToPay, повторы webhook и т.д.)
+  getJobs = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        type,
+        status,
+        uniqueKey,
+      } = req.query;
+
+      const filters: ScheduledJobFilters = {
+        page: Number(page),
+        limit: Number(limit),
+        type: type as string,
+        status: status as string,
+        uniqueKey: uniqueKey as string,
+      };
+
+      const result = await jobService.getJobs(filters);
+
+      res.json({
+        success: true,
+        jobs: result.jobs,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/jobs/stats - Состояние воркера и количество задач по типам
+  getJobStats = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const stats = await jobService.getWorkerStats();
+
+      res.json({
+        success: true,
+        result: stats,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/jobs/:id
+  getJobById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const job = await jobService.getJobById(id);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/jobs/:id/retry - Запустить задачу повторно (FAILED, CANCELLED, ...)
+  retryJob = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const job = await jobService.getJobById(id);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found',
+        });
+      }
+
+      if (job.status === 'RUNNING') {
+        return res.status(409).json({
+          success: false,
+          message: 'Job is currently running',
+        });
+      }
+
+      const result = await jobService.retryJob(id);
+
+      res.json({
+        success: true,
+        message: 'Job scheduled to run',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/jobs/:id/cancel - Отменить ожидающую задачу
+  cancelJob = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const job = await jobService.getJobById(id);
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found',
+        });
+      }
+
+      if (job.status !== 'PENDING') {
+        return res.status(409).json({
+          success: false,
+          message: 'Only pending jobs can be cancelled',
+        });
+      }
+
+      const result = await jobService.cancelJob(id);
+
+      res.json({
+        success: true,
+        message: 'Job cancelled',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/leases - Аренды периодических задач по инстансам
+  getServiceLeases = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const leases = await leaseService.getLeases();
+
+      res.json({
+        success: true,
+        result: {
+          instanceId: leaseService.instanceId,
+          leases,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/payments/:id/amount-mismatch/resolve - Решение по недоплате / переплате
+  resolveAmountMismatch = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const resolveData: ResolveAmountMismatchRequest = req.body;
+
+      const result = await paymentAmountService.resolveMismatch(id, resolveData, req.user?.id);
+
+      res.json({
+        success: true,
+        message: 'Amount mismatch resolved successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/refunds - Возвраты (status=pending - очередь ручной обработки)
+  getRefunds = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        status,
+        shopId,
+        paymentId,
+      } = req.query;
+
+      const filters: RefundFilters = {
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string,
+        shopId: shopId as string,
+        paymentId: paymentId as string,
+      };
+
+      const result = await refundService.getRefunds(filters);
+
+      res.json({
+        success: true,
+        refunds: result.refunds,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/refunds/:id
+  getRefundById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const refund = await refundService.getRefundById(id);
+
+      if (!refund) {
+        return res.status(404).json({
+          success: false,
+          message: 'Refund not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: refund,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/refunds/:id/complete - Возврат выполнен вручную
+  completeRefund = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const completeData: CompleteRefundRequest = req.body;
+
+      const result = await refundService.completeRefund(id, {
+        ...completeData,
+        source: 'admin',
+        actor: req.user?.id,
+      });
+
+      res.json({
+        success: true,
+        message: 'Refund marked as completed',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/refunds/:id/reject
+  rejectRefund = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { reason }: RejectRefundRequest = req.body;
+
+      const result = await refundService.rejectRefund(id, reason, req.user?.id || 'admin');
+
+      res.json({
+        success: true,
+        message: 'Refund rejected',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/disputes
+  getDisputes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const {
+        page = 1,
+        limit = 20,
+        status,
+        shopId,
+        paymentId,
+      } = req.query;
+
+      const filters: DisputeFilters = {
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string,
+        shopId: shopId as string,
+        paymentId: paymentId as string,
+      };
+
+      const result = await disputeService.getDisputes(filters);
+
+      res.json({
+        success: true,
+        disputes: result.disputes,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/disputes - Открыть спор по платежу
+  openDispute = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const disputeData: CreateDisputeRequest = req.body;
+      const result = await disputeService.openDispute(disputeData, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        message: 'Dispute opened successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/disputes/:id
+  getDisputeById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const dispute = await disputeService.getDisputeById(id);
+
+      if (!dispute) {
+        return res.status(404).json({
+          success: false,
+          message: 'Dispute not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: dispute,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: PUT /api/admin/disputes/:id - Изменить открытый спор (сумма, штраф, дедлайн)
+  updateDispute = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const updateData: UpdateDisputeRequest = req.body;
+
+      const result = await disputeService.updateDispute(id, updateData);
+
+      res.json({
+        success: true,
+        message: 'Dispute updated successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/disputes/:id/resolve - WON / LOST (LOST -> платеж в CHARGEBACK)
+  resolveDispute = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const resolveData: ResolveDisputeRequest = req.body;
+
+      const result = await disputeService.resolveDispute(id, resolveData, req.user?.id);
+
+      res.json({
+        success: true,
+        message: `Dispute resolved as ${result.status}`,
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/admin/disputes/:id/evidence
+  addDisputeEvidence = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const files = (req.files as DisputeEvidenceFile[] | undefined) || [];
+
+      const result = await disputeService.addEvidence(id, files, 'admin', req.body.description);
+
+      res.status(201).json({
+        success: true,
+        message: 'Evidence uploaded successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/admin/disputes/:id/evidence/:evidenceId
+  downloadDisputeEvidence = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id, evidenceId } = req.params;
+      const file = await disputeService.getEvidenceFile(id, evidenceId);
+
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          message: 'Evidence not found',
+        });
+      }
+
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+      res.send(file.data);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
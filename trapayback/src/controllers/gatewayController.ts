@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { AVAILABLE_GATEWAYS, getActiveGateways } from '../types/gateway';
+import { gatewayCatalogService } from '../services/gatewayCatalogService';
 import prisma from '../config/database';
 
 export class GatewayController {
@@ -47,8 +47,8 @@ export class GatewayController {
       }
 
       // Filter available gateways based on shop's enabled gateways
-      const availableGateways = AVAILABLE_GATEWAYS.filter(gateway => 
-        gateway.isActive && enabledGatewayNames.includes(gateway.displayName)
+      const availableGateways = gatewayCatalogService.getActive().filter(gateway => 
+        enabledGatewayNames.includes(gateway.displayName)
       );
 
       res.json({
@@ -70,7 +70,7 @@ export class GatewayController {
     try {
       res.json({
         success: true,
-        gateways: AVAILABLE_GATEWAYS.map(gateway => ({
+        gateways: gatewayCatalogService.getAll().map(gateway => ({
           id: gateway.id,
           name: gateway.name,
           displayName: gateway.displayName,
@@ -85,7 +85,7 @@ export class GatewayController {
   // GET /api/gateways/active - Get only active gateways (public endpoint)
   getActiveGateways = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const activeGateways = getActiveGateways();
+      const activeGateways = gatewayCatalogService.getActive();
       
       res.json({
         success: true,
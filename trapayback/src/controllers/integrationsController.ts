@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { IntegrationsService } from '../services/integrationsService';
-import { UpdateWebhookSettingsRequest } from '../types/integrations';
+import { UpdateWebhookSettingsRequest, CreateWebhookEndpointRequest, UpdateWebhookEndpointRequest } from '../types/integrations';
 
 export class IntegrationsController {
   private integrationsService: IntegrationsService;
@@ -51,4 +51,180 @@ export class IntegrationsController {
       next(error);
     }
   };
-}
\ No newline at end of file
+
+  // ✅ ДОБАВЛЕНО: Webhook endpoints
+  getWebhookEndpoints = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const endpoints = await this.integrationsService.getWebhookEndpoints(shopId);
+
+      res.json({
+        success: true,
+        result: endpoints,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getWebhookEndpointById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const endpoint = await this.integrationsService.getWebhookEndpointById(shopId, id);
+
+      if (!endpoint) {
+        return res.status(404).json({
+          success: false,
+          message: 'Webhook endpoint not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  createWebhookEndpoint = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const endpointData: CreateWebhookEndpointRequest = req.body;
+      const endpoint = await this.integrationsService.createWebhookEndpoint(shopId, endpointData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Webhook endpoint created successfully',
+        result: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateWebhookEndpoint = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const updateData: UpdateWebhookEndpointRequest = req.body;
+      const endpoint = await this.integrationsService.updateWebhookEndpoint(shopId, id, updateData);
+
+      res.json({
+        success: true,
+        message: 'Webhook endpoint updated successfully',
+        result: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rotateWebhookEndpointSecret = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const endpoint = await this.integrationsService.rotateWebhookEndpointSecret(shopId, id);
+
+      res.json({
+        success: true,
+        message: 'Webhook endpoint secret rotated successfully',
+        result: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteWebhookEndpoint = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      await this.integrationsService.deleteWebhookEndpoint(shopId, id);
+
+      res.json({
+        success: true,
+        message: 'Webhook endpoint deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getWebhookEndpointDeliveries = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const { page = 1, limit = 20, status } = req.query;
+
+      const result = await this.integrationsService.getWebhookEndpointDeliveries(shopId, id, {
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string,
+      });
+
+      res.json({
+        success: true,
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -5,6 +5,7 @@ import {
   UpdateNotificationsRequest, 
   UpdateTelegramSettingsRequest,
   UpdateWebhookSettingsRequest,
+  UpdatePaymentSettingsRequest,
   DeleteAccountRequest 
 } from '../types/settings';
 
@@ -125,6 +126,75 @@ export class SettingsController {
     }
   };
 
+  // ✅ ДОБАВЛЕНО: PUT /api/shop/settings/payments - Payment creation settings (order_id policy)
+  updatePaymentSettings = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const paymentSettings: UpdatePaymentSettingsRequest = req.body;
+      await this.settingsService.updatePaymentSettings(shopId, paymentSettings);
+
+      res.json({
+        success: true,
+        message: 'Payment settings updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/shop/settings/webhook/secret - Secret for webhook signature verification
+  getWebhookSecret = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const result = await this.settingsService.getWebhookSecret(shopId);
+
+      res.json({
+        success: true,
+        message: 'Webhook secret retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/shop/settings/webhook/secret/rotate - New webhook signing secret
+  rotateWebhookSecret = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const result = await this.settingsService.rotateWebhookSecret(shopId);
+
+      res.json({
+        success: true,
+        message: 'Webhook secret rotated successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   revokeApiKeys = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const shopId = req.user?.id;
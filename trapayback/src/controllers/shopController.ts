@@ -1,8 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { ShopService } from '../services/shopService';
+import { refundService } from '../services/refundService'; // ✅ ДОБАВЛЕНО
+import { disputeService } from '../services/disputeService'; // ✅ ДОБАВЛЕНО
+import { ledgerService } from '../services/ledgerService'; // ✅ ДОБАВЛЕНО
 import { GatewayController } from '../controllers/gatewayController';
 import { CreatePaymentRequest, UpdatePaymentRequest } from '../types/payment';
 import { UpdateWalletsRequest } from '../types/shop';
+import { ResendWebhooksRequest } from '../types/webhook';
+import { CreateRefundRequest } from '../types/refund'; // ✅ ДОБАВЛЕНО
+import { DisputeEvidenceFile } from '../types/dispute'; // ✅ ДОБАВЛЕНО
+import { RequestPayoutRequest } from '../types/payout'; // ✅ ДОБАВЛЕНО
 
 export class ShopController {
   private shopService: ShopService;
@@ -157,6 +164,37 @@ export class ShopController {
     }
   };
 
+  // ✅ ДОБАВЛЕНО: GET /api/shop/payments/by-order/:orderId - Last payment with merchant order ID
+  getPaymentByOrderId = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { orderId } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const payment = await this.shopService.getPaymentByOrderId(shopId, orderId);
+
+      if (!payment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Payment not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: payment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getPaymentById = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const shopId = req.user?.id;
@@ -235,6 +273,247 @@ export class ShopController {
     }
   };
 
+  // ✅ ДОБАВЛЕНО: POST /api/shop/payments/:id/webhooks/resend
+  resendPaymentWebhook = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const result = await this.shopService.resendPaymentWebhook(shopId, id);
+
+      res.json({
+        success: true,
+        message: 'Webhook resent successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/shop/payments/webhooks/resend - Bulk resend by date range
+  resendPaymentWebhooks = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const resendData: ResendWebhooksRequest = req.body;
+      const result = await this.shopService.resendPaymentWebhooks(shopId, resendData);
+
+      res.json({
+        success: true,
+        message: `${result.queued} webhooks queued for resend`,
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/shop/payments/:id/refunds - Full or partial refund
+  createRefund = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const refundData: CreateRefundRequest = req.body;
+      const result = await refundService.createRefund(shopId, id, refundData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Refund request created and queued for processing',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/shop/payments/:id/refunds
+  getPaymentRefunds = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const refunds = await refundService.getPaymentRefunds(shopId, id);
+
+      res.json({
+        success: true,
+        result: refunds,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/shop/disputes
+  getDisputes = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const { page = 1, limit = 20, status, paymentId } = req.query;
+
+      const result = await disputeService.getDisputes({
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string,
+        paymentId: paymentId as string,
+      }, shopId);
+
+      res.json({
+        success: true,
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/shop/disputes/:id
+  getDisputeById = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const dispute = await disputeService.getDisputeById(id, shopId);
+
+      if (!dispute) {
+        return res.status(404).json({
+          success: false,
+          message: 'Dispute not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        result: dispute,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/shop/disputes/:id/respond - Ответ на спор (+ файлы в поле evidence)
+  respondToDispute = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const files = (req.files as DisputeEvidenceFile[] | undefined) || [];
+      const result = await disputeService.respondToDispute(shopId, id, req.body.response, files);
+
+      res.json({
+        success: true,
+        message: 'Dispute response submitted successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: POST /api/shop/disputes/:id/evidence
+  addDisputeEvidence = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const files = (req.files as DisputeEvidenceFile[] | undefined) || [];
+      const result = await disputeService.addEvidence(id, files, 'shop', req.body.description, shopId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Evidence uploaded successfully',
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: GET /api/shop/disputes/:id/evidence/:evidenceId - Скачать файл
+  downloadDisputeEvidence = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      const { id, evidenceId } = req.params;
+
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const file = await disputeService.getEvidenceFile(id, evidenceId, shopId);
+
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          message: 'Evidence not found',
+        });
+      }
+
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+      res.send(file.data);
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // Payout management routes - Updated for shop payout stats
   getPayouts = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -266,6 +545,30 @@ export class ShopController {
     }
   };
 
+  // ✅ ДОБАВЛЕНО: POST /api/shop/payouts - Запрос выплаты на настроенный кошелек
+  requestPayout = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const payoutData: RequestPayoutRequest = req.body;
+      const payout = await this.shopService.requestPayout(shopId, payoutData);
+
+      res.status(201).json({
+        success: true,
+        message: 'Payout requested successfully',
+        result: payout,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getPayoutById = async (req: Request, res: Response, next: NextFunction) => {
     try {
       const shopId = req.user?.id;
@@ -340,6 +643,59 @@ export class ShopController {
     }
   };
 
+  // ✅ ДОБАВЛЕНО: Баланс магазина по счетам ledger (USDT)
+  getBalance = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const balance = await ledgerService.getBalance(shopId);
+
+      res.json({
+        success: true,
+        result: balance,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // ✅ ДОБАВЛЕНО: Выписка по счетам ledger
+  getBalanceStatement = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const shopId = req.user?.id;
+      if (!shopId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const { page = 1, limit = 50, account, type, dateFrom, dateTo } = req.query;
+
+      const result = await ledgerService.getStatement(shopId, {
+        page: Number(page),
+        limit: Number(limit),
+        account: account as string,
+        type: type as string,
+        dateFrom: dateFrom as string,
+        dateTo: dateTo as string,
+      });
+
+      res.json({
+        success: true,
+        result: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // Legacy method for backward compatibility
   getPayoutStats = async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { WebhookService } from '../services/webhookService';
 import { loggerService } from '../services/loggerService';
+import { gatewayRegistry } from '../services/gateways/gatewayRegistry';
+import { inboundWebhookService } from '../services/inboundWebhookService';
+import { GatewayWebhookContext } from '../types/gateway';
 
 export class WebhookController {
   private webhookService: WebhookService;
@@ -9,6 +12,53 @@ export class WebhookController {
     this.webhookService = new WebhookService();
   }
 
+  private buildWebhookContext(req: Request): GatewayWebhookContext {
+    return {
+      body: req.body,
+      rawBody: req.rawBody,
+      headers: req.headers,
+      url: req.originalUrl,
+      ip: req.ip,
+    };
+  }
+
+  // ✅ ДОБАВЛЕНО: Проверка подписи входящего webhook через PaymentGateway.verifyWebhookSignature
+  private async verifyGatewayWebhook(provider: string, source: string, req: Request, res: Response): Promise<boolean> {
+    const gateway = gatewayRegistry.getByProvider(provider);
+
+    if (!gateway?.verifyWebhookSignature) {
+      return true;
+    }
+
+    const context = this.buildWebhookContext(req);
+    const isValid = gateway.verifyWebhookSignature(context);
+
+    if (!isValid) {
+      console.warn(`🚫 Rejected ${source} webhook with missing or invalid signature from ${req.ip}`);
+
+      loggerService.logWebhookError(source, new Error('Invalid webhook signature'), {
+        body: req.body,
+        ip: req.ip,
+        url: req.originalUrl,
+      });
+
+      // ✅ ОБНОВЛЕНО: Отклоненные webhook сохраняются в inbox только метаданными (размер, IP, причина, хеш тела),
+      // без тела и заголовков - их нельзя повторить из админки
+      try {
+        await inboundWebhookService.record(provider, source, context, 'REJECTED', 'Invalid webhook signature');
+      } catch (error) {
+        console.error(`Failed to store rejected ${source} webhook:`, error);
+      }
+
+      res.status(401).json({
+        success: false,
+        message: 'Invalid webhook signature',
+      });
+    }
+
+    return isValid;
+  }
+
   handlePlisioWebhook = async (req: Request, res: Response, next: NextFunction) => {
     try {
       console.log('=== PLISIO WEBHOOK RECEIVED ===');
@@ -19,13 +69,17 @@ export class WebhookController {
       
       // Log incoming webhook with headers
       loggerService.logWebhookReceived('plisio', req.body, req.headers);
+
+      if (!await this.verifyGatewayWebhook('plisio', 'plisio', req, res)) {
+        return;
+      }
       
-      const result = await this.webhookService.processPlisioWebhook(req.body);
+      const result = await this.webhookService.processPlisioWebhook(this.buildWebhookContext(req));
       
       // Plisio expects 200 OK response
       res.status(200).json({
         success: true,
-        message: 'Webhook processed successfully',
+        message: result.duplicate ? 'Duplicate webhook skipped' : 'Webhook processed successfully',
       });
     } catch (error) {
       console.error('Webhook processing error:', error);
@@ -52,13 +106,17 @@ export class WebhookController {
       
       // Log incoming webhook with headers
       loggerService.logWebhookReceived('plisio_gateway', req.body, req.headers);
+
+      if (!await this.verifyGatewayWebhook('plisio', 'plisio_gateway', req, res)) {
+        return;
+      }
       
-      const result = await this.webhookService.processPlisioGatewayWebhook(req.body);
+      const result = await this.webhookService.processPlisioGatewayWebhook(this.buildWebhookContext(req));
       
       // Plisio expects 200 OK response
       res.status(200).json({
         success: true,
-        message: 'Gateway webhook processed successfully',
+        message: result.duplicate ? 'Duplicate webhook skipped' : 'Gateway webhook processed successfully',
       });
     } catch (error) {
       console.error('Gateway webhook processing error:', error);
@@ -81,13 +139,17 @@ export class WebhookController {
       
       // Log incoming webhook with headers
       loggerService.logWebhookReceived('rapyd', req.body, req.headers);
+
+      if (!await this.verifyGatewayWebhook('rapyd', 'rapyd', req, res)) {
+        return;
+      }
       
-      const result = await this.webhookService.processRapydWebhook(req.body);
+      const result = await this.webhookService.processRapydWebhook(this.buildWebhookContext(req));
       
       // Rapyd expects 200 OK response
       res.status(200).json({
         success: true,
-        message: 'Rapyd webhook processed successfully',
+        message: result.duplicate ? 'Duplicate webhook skipped' : 'Rapyd webhook processed successfully',
       });
     } catch (error) {
       console.error('Rapyd webhook processing error:', error);
@@ -110,13 +172,17 @@ export class WebhookController {
       
       // Log incoming webhook with headers
       loggerService.logWebhookReceived('noda', req.body, req.headers);
+
+      if (!await this.verifyGatewayWebhook('noda', 'noda', req, res)) {
+        return;
+      }
       
-      const result = await this.webhookService.processNodaWebhook(req.body);
+      const result = await this.webhookService.processNodaWebhook(this.buildWebhookContext(req));
       
       // Noda expects 200 OK response
       res.status(200).json({
         success: true,
-        message: 'Noda webhook processed successfully',
+        message: result.duplicate ? 'Duplicate webhook skipped' : 'Noda webhook processed successfully',
       });
     } catch (error) {
       console.error('Noda webhook processing error:', error);
@@ -139,13 +205,17 @@ export class WebhookController {
       
       // Log incoming webhook with headers
       loggerService.logWebhookReceived('cointopay', req.body, req.headers);
+
+      if (!await this.verifyGatewayWebhook('cointopay', 'cointopay', req, res)) {
+        return;
+      }
       
-      const result = await this.webhookService.processCoinToPayWebhook(req.body);
+      const result = await this.webhookService.processCoinToPayWebhook(this.buildWebhookContext(req));
       
       // CoinToPay expects 200 OK response
       res.status(200).json({
         success: true,
-        message: 'CoinToPay webhook processed successfully',
+        message: result.duplicate ? 'Duplicate webhook skipped' : 'CoinToPay webhook processed successfully',
       });
     } catch (error) {
       console.error('CoinToPay webhook processing error:', error);
@@ -168,13 +238,17 @@ export class WebhookController {
       
       // Log incoming webhook with headers
       loggerService.logWebhookReceived('klyme', req.body, req.headers);
+
+      if (!await this.verifyGatewayWebhook('klyme', 'klyme', req, res)) {
+        return;
+      }
       
-      const result = await this.webhookService.processKlymeWebhook(req.body);
+      const result = await this.webhookService.processKlymeWebhook(this.buildWebhookContext(req));
       
       // KLYME expects 200 OK response
       res.status(200).json({
         success: true,
-        message: 'KLYME webhook processed successfully',
+        message: result.duplicate ? 'Duplicate webhook skipped' : 'KLYME webhook processed successfully',
       });
     } catch (error) {
       console.error('KLYME webhook processing error:', error);
@@ -6,6 +6,13 @@ export interface AppError extends Error {
   isOperational?: boolean;
 }
 
+// ✅ ДОБАВЛЕНО: Ошибка с HTTP статусом, которую сервисы бросают для errorHandler
+export const createError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
 export const errorHandler = (
   err: AppError,
   req: Request,
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../config/database';
+import {
+  idempotencyService,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_REPLAYED_HEADER,
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+} from '../services/idempotencyService';
+
+type ShopResolver = (req: Request) => Promise<string | null>;
+
+// Магазин из JWT (shop API)
+export const resolveShopFromUser: ShopResolver = async (req) => req.user?.id || null;
+
+// Магазин по public_key из тела (публичный API)
+export const resolveShopFromPublicKey: ShopResolver = async (req) => {
+  const publicKey = req.body?.public_key;
+  if (!publicKey) return null;
+
+  const shop = await prisma.shop.findUnique({
+    where: { publicKey },
+    select: { id: true },
+  });
+
+  return shop?.id || null;
+};
+
+// ✅ ДОБАВЛЕНО: Поддержка заголовка Idempotency-Key (ключи уникальны в пределах магазина)
+export const idempotency = (resolveShopId: ShopResolver) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get(IDEMPOTENCY_KEY_HEADER);
+
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `${IDEMPOTENCY_KEY_HEADER} must be at most ${IDEMPOTENCY_KEY_MAX_LENGTH} characters`,
+      });
+    }
+
+    try {
+      const shopId = await resolveShopId(req);
+
+      // Магазин не определен - обработчик сам вернет ошибку авторизации / public_key
+      if (!shopId) {
+        return next();
+      }
+
+      const requestHash = idempotencyService.computeRequestHash(req.method, req.baseUrl + req.path, req.body);
+      const result = await idempotencyService.begin(shopId, key, requestHash);
+
+      switch (result.type) {
+        case 'replay':
+          console.log(`🔁 Replaying response for ${IDEMPOTENCY_KEY_HEADER} ${key} (shop ${shopId})`);
+          res.setHeader(IDEMPOTENCY_REPLAYED_HEADER, 'true');
+          return res.status(result.statusCode).json(result.body);
+
+        case 'mismatch':
+          return res.status(409).json({
+            success: false,
+            message: `${IDEMPOTENCY_KEY_HEADER} has already been used with a different request`,
+          });
+
+        case 'in_progress':
+          return res.status(409).json({
+            success: false,
+            message: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+          });
+      }
+
+      const recordId = result.recordId;
+      let settled = false;
+
+      // Сохраняем ответ обработчика (включая ошибки errorHandler); 5xx освобождает ключ
+      const originalJson = res.json.bind(res);
+      res.json = (body: any) => {
+        if (!settled) {
+          settled = true;
+          const store = res.statusCode >= 500
+            ? idempotencyService.release(recordId)
+            : idempotencyService.complete(recordId, res.statusCode, body);
+
+          store.catch(error => {
+            console.error(`❌ Failed to store idempotent response for key ${key}:`, error);
+          });
+        }
+
+        return originalJson(body);
+      };
+
+      res.on('close', () => {
+        if (!settled) {
+          settled = true;
+          idempotencyService.release(recordId).catch(error => {
+            console.error(`❌ Failed to release idempotency key ${key}:`, error);
+          });
+        }
+      });
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AppError } from './errorHandler';
+
+// ✅ ДОБАВЛЕНО: Загрузка доказательств по спорам (файлы в памяти, сохраняются в БД)
+export const DISPUTE_EVIDENCE_FIELD = 'evidence';
+const DISPUTE_EVIDENCE_MAX_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+const DISPUTE_EVIDENCE_MAX_FILES = 5; // За один запрос
+const DISPUTE_EVIDENCE_MIME_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'text/plain',
+];
+
+const disputeEvidenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: DISPUTE_EVIDENCE_MAX_FILE_SIZE,
+    files: DISPUTE_EVIDENCE_MAX_FILES,
+  },
+  fileFilter: (req, file, callback) => {
+    if (!DISPUTE_EVIDENCE_MIME_TYPES.includes(file.mimetype)) {
+      const error: AppError = new Error(`Unsupported evidence file type: ${file.mimetype}. Allowed: PDF, PNG, JPEG, WEBP, TXT`);
+      error.statusCode = 400;
+      return callback(error);
+    }
+
+    callback(null, true);
+  },
+}).array(DISPUTE_EVIDENCE_FIELD, DISPUTE_EVIDENCE_MAX_FILES);
+
+// Ошибки multer (размер, количество файлов) возвращаются как 400
+export const uploadDisputeEvidence = (req: Request, res: Response, next: NextFunction) => {
+  disputeEvidenceUpload(req, res, (error: any) => {
+    if (error instanceof multer.MulterError) {
+      const uploadError: AppError = new Error(`Evidence upload error: ${error.message}`);
+      uploadError.statusCode = 400;
+      return next(uploadError);
+    }
+
+    next(error);
+  });
+};
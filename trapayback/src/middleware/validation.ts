@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { GATEWAY_ID_MAP, isValidGatewayId } from '../types/gateway';
+import { gatewayCatalogService } from '../services/gatewayCatalogService';
+import { WEBHOOK_EVENTS } from '../types/webhook';
+import { ORDER_ID_POLICIES } from '../types/settings';
+import { PAYOUT_WALLETS } from '../types/payout';
+import { LEDGER_ADJUSTABLE_ACCOUNTS } from '../types/ledger';
 
 // Allowed currencies list for regular currency field
 const ALLOWED_CURRENCIES = [
@@ -97,20 +101,25 @@ const ALLOWED_SOURCE_CURRENCIES = [
   "usdt_sol"    // USDT_SOL - Tether Solana
 ];
 
-// Allowed payment gateway IDs
-const ALLOWED_GATEWAY_IDS = Object.keys(GATEWAY_ID_MAP);
-
-// Allowed payment gateways (for admin/internal use)
-const ALLOWED_GATEWAYS = ['Plisio', 'Rapyd', 'Noda', 'CoinToPay', 'KLYME EU', 'KLYME GB', 'KLYME DE'];
 
 // Allowed networks for payouts
 const ALLOWED_NETWORKS = ['polygon', 'trc20', 'erc20', 'bsc'];
 
-// Custom validator for gateway ID
+// ✅ ОБНОВЛЕНО: Gateway ID validator reads the gateway catalog, so disabled gateways are rejected without restart
 const gatewayIdValidator = Joi.string().custom((value, helpers) => {
-  if (!isValidGatewayId(value)) {
+  if (!gatewayCatalogService.isActiveGatewayId(value)) {
     return helpers.error('any.invalid', { 
-      message: `Gateway ID must be one of: ${ALLOWED_GATEWAY_IDS.join(', ')}` 
+      message: `Gateway ID must be one of: ${gatewayCatalogService.getActive().map(gateway => gateway.id).join(', ')}` 
+    });
+  }
+  return value;
+});
+
+// Allowed payment gateways by display name (for admin/internal use)
+const gatewayNameValidator = Joi.string().custom((value, helpers) => {
+  if (!gatewayCatalogService.getDisplayNames().includes(value)) {
+    return helpers.error('any.invalid', {
+      message: `Gateway must be one of: ${gatewayCatalogService.getDisplayNames().join(', ')}`
     });
   }
   return value;
@@ -120,6 +129,13 @@ const gatewayIdValidator = Joi.string().custom((value, helpers) => {
 const gatewaySettingsSchema = Joi.object({
   commission: Joi.number().min(0).max(100).required(),
   payoutDelay: Joi.number().integer().min(0).max(365).required(),
+  // ✅ ДОБАВЛЕНО: Rolling reserve - резерв освобождается не раньше, чем проходит задержка выплаты
+  reservePercent: Joi.number().min(0).max(100).optional(),
+  reserveDays: Joi.number().integer().min(Joi.ref('payoutDelay')).max(365).when('reservePercent', {
+    is: Joi.number().greater(0).required(),
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
 });
 
 // Wallet settings validation schema
@@ -157,9 +173,9 @@ export const createUserSchema = Joi.object({
   password: Joi.string().min(6).max(100).required(),
   telegramId: Joi.string().min(3).max(50).optional().allow(''),
   merchantUrl: Joi.string().uri().required(),
-  gateways: Joi.array().items(Joi.string().valid(...ALLOWED_GATEWAYS)).optional(),
+  gateways: Joi.array().items(gatewayNameValidator).optional(),
   gatewaySettings: Joi.object().pattern(
-    Joi.string().valid(...ALLOWED_GATEWAYS),
+    gatewayNameValidator,
     gatewaySettingsSchema
   ).optional(),
   wallets: walletSettingsSchema.optional(),
@@ -171,9 +187,9 @@ export const updateUserSchema = Joi.object({
   password: Joi.string().min(6).max(100).optional(),
   telegramId: Joi.string().min(3).max(50).optional().allow(''),
   merchantUrl: Joi.string().uri().optional(),
-  gateways: Joi.array().items(Joi.string().valid(...ALLOWED_GATEWAYS)).optional(),
+  gateways: Joi.array().items(gatewayNameValidator).optional(),
   gatewaySettings: Joi.object().pattern(
-    Joi.string().valid(...ALLOWED_GATEWAYS),
+    gatewayNameValidator,
     gatewaySettingsSchema
   ).optional(),
   wallets: walletSettingsSchema.optional(),
@@ -185,9 +201,9 @@ export const updateShopProfileSchema = Joi.object({
   fullName: Joi.string().min(2).max(100).optional(),
   telegramId: Joi.string().min(3).max(50).optional().allow(''),
   merchantUrl: Joi.string().uri().optional(),
-  gateways: Joi.array().items(Joi.string().valid(...ALLOWED_GATEWAYS)).optional(),
+  gateways: Joi.array().items(gatewayNameValidator).optional(),
   gatewaySettings: Joi.object().pattern(
-    Joi.string().valid(...ALLOWED_GATEWAYS),
+    gatewayNameValidator,
     gatewaySettingsSchema
   ).optional(),
   wallets: walletSettingsSchema.optional(),
@@ -249,7 +265,7 @@ export const updatePaymentSchema = Joi.object({
   usage: Joi.string().valid('ONCE', 'REUSABLE').optional(),
   expiresAt: Joi.date().iso().greater('now').optional().allow(null),
   redirectUrl: Joi.string().uri().optional(),
-  status: Joi.string().valid('PENDING', 'PROCESSING', 'PAID', 'EXPIRED', 'FAILED', 'REFUND', 'CHARGEBACK').optional(), // ✅ ДОБАВЛЕНО: PROCESSING статус
+  status: Joi.string().valid('PENDING', 'PROCESSING', 'PAID', 'EXPIRED', 'FAILED', 'REFUND', 'CHARGEBACK', 'UNDERPAID').optional(), // ✅ ДОБАВЛЕНО: PROCESSING статус
   externalPaymentUrl: Joi.string().uri().optional().allow(''),
   customerEmail: Joi.string().email().optional(),
   customerName: Joi.string().min(1).max(100).optional(),
@@ -263,7 +279,7 @@ export const updatePaymentSchema = Joi.object({
 
 // ✅ ОБНОВЛЕНО: Admin payment update schema с поддержкой PROCESSING статуса
 export const updatePaymentStatusSchema = Joi.object({
-  status: Joi.string().valid('PENDING', 'PROCESSING', 'PAID', 'EXPIRED', 'FAILED', 'REFUND', 'CHARGEBACK').required(), // ✅ ДОБАВЛЕНО: PROCESSING
+  status: Joi.string().valid('PENDING', 'PROCESSING', 'PAID', 'EXPIRED', 'FAILED', 'REFUND', 'CHARGEBACK', 'UNDERPAID').required(), // ✅ ДОБАВЛЕНО: PROCESSING
   notes: Joi.string().max(500).optional(),
   chargebackAmount: Joi.when('status', {
     is: 'CHARGEBACK',
@@ -277,14 +293,135 @@ export const updatePaymentStatusSchema = Joi.object({
   }),
 });
 
+// ✅ ДОБАВЛЕНО: Refund validation schemas
+export const createRefundSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).optional(), // Не указана - возврат всей оставшейся суммы
+  reason: Joi.string().max(500).optional(),
+});
+
+export const completeRefundSchema = Joi.object({
+  gatewayRefundId: Joi.string().max(255).optional(),
+  notes: Joi.string().max(500).optional(),
+});
+
+export const rejectRefundSchema = Joi.object({
+  reason: Joi.string().min(1).max(500).required(),
+});
+
+// ✅ ДОБАВЛЕНО: Решение по недоплате / переплате
+export const resolveAmountMismatchSchema = Joi.object({
+  action: Joi.string().valid('ACCEPT', 'PARTIAL_CREDIT', 'REFUND').required(),
+  creditAmount: Joi.number().positive().precision(2).when('action', {
+    is: 'PARTIAL_CREDIT',
+    then: Joi.optional(),
+    otherwise: Joi.forbidden(),
+  }),
+  notes: Joi.string().max(500).optional(),
+});
+
+// ✅ ДОБАВЛЕНО: Dispute validation schemas
+export const createDisputeSchema = Joi.object({
+  paymentId: Joi.string().min(1).max(100).required(),
+  reasonCode: Joi.string().min(1).max(50).required(),
+  reason: Joi.string().max(2000).optional(),
+  amount: Joi.number().positive().optional(), // Не указана - вся сумма платежа
+  penalty: Joi.number().min(0).optional(), // USDT
+  responseDeadline: Joi.date().iso().greater('now').required(),
+});
+
+export const updateDisputeSchema = Joi.object({
+  reasonCode: Joi.string().min(1).max(50).optional(),
+  reason: Joi.string().max(2000).optional().allow(''),
+  amount: Joi.number().positive().optional(),
+  penalty: Joi.number().min(0).optional(),
+  responseDeadline: Joi.date().iso().greater('now').optional(),
+}).min(1);
+
+export const resolveDisputeSchema = Joi.object({
+  outcome: Joi.string().valid('WON', 'LOST').required(),
+  notes: Joi.string().max(2000).optional(),
+  penalty: Joi.when('outcome', {
+    is: 'LOST',
+    then: Joi.number().min(0).optional(),
+    otherwise: Joi.forbidden().messages({
+      'any.unknown': 'Penalty is only allowed for LOST outcome',
+    }),
+  }),
+});
+
+export const respondDisputeSchema = Joi.object({
+  response: Joi.string().min(1).max(5000).required(),
+});
+
+export const disputeEvidenceSchema = Joi.object({
+  description: Joi.string().max(500).optional(),
+});
+
 // Payout validation schemas
 export const createPayoutSchema = Joi.object({
   shopId: Joi.string().min(1).max(100).required(),
-  amount: Joi.number().positive().required(),
+  // ✅ ОБНОВЛЕНО: С paymentIds сумма по умолчанию - сумма к выплате по этим платежам
+  amount: Joi.number().positive().when('paymentIds', {
+    is: Joi.exist(),
+    then: Joi.optional(),
+    otherwise: Joi.required(),
+  }),
   network: Joi.string().valid(...ALLOWED_NETWORKS).required(),
   notes: Joi.string().max(500).optional(),
+  paymentIds: Joi.array().items(Joi.string().min(1).max(100)).min(1).max(1000).unique().optional(),
+});
+
+// ✅ ДОБАВЛЕНО: Запрос выплаты мерчантом и решение админа
+export const requestPayoutSchema = Joi.object({
+  amount: Joi.number().positive().precision(2).required(),
+  wallet: Joi.string().valid(...Object.keys(PAYOUT_WALLETS)).required(),
+  notes: Joi.string().max(500).optional(),
+});
+
+export const approvePayoutSchema = Joi.object({
+  txid: Joi.string().min(1).max(255).required(),
+  notes: Joi.string().max(500).optional(),
+});
+
+export const rejectPayoutSchema = Joi.object({
+  reason: Joi.string().min(1).max(500).required(),
+});
+
+// ✅ ДОБАВЛЕНО: Ручная корректировка баланса магазина (USDT, отрицательная сумма - списание)
+export const ledgerAdjustmentSchema = Joi.object({
+  account: Joi.string().valid(...LEDGER_ADJUSTABLE_ACCOUNTS).optional(),
+  amount: Joi.number().precision(2).invalid(0).required(),
+  description: Joi.string().min(1).max(500).required(),
 });
 
+// ✅ ДОБАВЛЕНО: Gateway catalog validation schemas (admin)
+export const createGatewaySchema = Joi.object({
+  id: Joi.string().pattern(/^\d{4}$/).required().messages({
+    'string.pattern.base': 'Gateway ID must be a 4-digit string',
+  }),
+  displayName: Joi.string().min(1).max(100).required(),
+  telegramDisplayName: Joi.string().max(100).optional().allow(null),
+  description: Joi.string().max(1000).optional().allow(null),
+  region: Joi.string().max(100).optional().allow(null),
+  features: Joi.array().items(Joi.string().max(100)).optional(),
+  color: Joi.string().max(20).optional().allow(null),
+  fee: Joi.string().max(50).optional().allow(null),
+  payout: Joi.string().max(50).optional().allow(null),
+  isActive: Joi.boolean().optional(),
+});
+
+export const updateGatewaySchema = Joi.object({
+  displayName: Joi.string().min(1).max(100).optional(),
+  telegramDisplayName: Joi.string().max(100).optional().allow(null),
+  description: Joi.string().max(1000).optional().allow(null),
+  region: Joi.string().max(100).optional().allow(null),
+  features: Joi.array().items(Joi.string().max(100)).optional(),
+  color: Joi.string().max(20).optional().allow(null),
+  fee: Joi.string().max(50).optional().allow(null),
+  payout: Joi.string().max(50).optional().allow(null),
+  isActive: Joi.boolean().optional(),
+}).min(1);
+
 // Payment Link validation schemas
 export const createPaymentLinkSchema = Joi.object({
   amount: Joi.number().positive().required(),
@@ -345,10 +482,41 @@ export const updateTelegramSettingsSchema = Joi.object({
 export const updateWebhookSettingsSchema = Joi.object({
   webhookUrl: Joi.string().uri().optional().allow(''),
   webhookEvents: Joi.array().items(
-    Joi.string().valid('payment.success', 'payment.failed', 'payment.pending')
+    Joi.string().valid(...WEBHOOK_EVENTS) // ✅ ОБНОВЛЕНО: Полный каталог событий
   ).optional(),
 });
 
+// ✅ ДОБАВЛЕНО: Настройки создания платежей
+export const updatePaymentSettingsSchema = Joi.object({
+  orderIdPolicy: Joi.string().valid(...ORDER_ID_POLICIES).optional(),
+  // ✅ ДОБАВЛЕНО: Допуск расхождения полученной суммы с суммой счета, %
+  amountTolerancePercent: Joi.number().min(0).max(10).optional(),
+}).min(1);
+
+// ✅ ДОБАВЛЕНО: Bulk webhook resend validation schema
+export const resendWebhooksSchema = Joi.object({
+  dateFrom: Joi.date().iso().required(),
+  dateTo: Joi.date().iso().min(Joi.ref('dateFrom')).required(),
+  status: Joi.string().valid('PENDING', 'PROCESSING', 'PAID', 'EXPIRED', 'FAILED', 'REFUND', 'CHARGEBACK', 'UNDERPAID').insensitive().optional(),
+});
+
+// ✅ ДОБАВЛЕНО: Webhook endpoint validation schemas
+export const createWebhookEndpointSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().required(),
+  description: Joi.string().max(500).optional().allow(''),
+  isActive: Joi.boolean().optional(),
+});
+
+export const updateWebhookEndpointSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
+  events: Joi.array().items(Joi.string().valid(...WEBHOOK_EVENTS)).min(1).unique().optional(),
+  description: Joi.string().max(500).optional().allow('', null),
+  isActive: Joi.boolean().optional(),
+}).min(1);
+
 export const deleteAccountSchema = Joi.object({
   passwordConfirmation: Joi.string().min(1).max(100).required(),
 });
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { AdminController } from '../controllers/adminController';
-import { validate, createUserSchema, updateUserSchema, createPayoutSchema } from '../middleware/validation';
+import { validate, createUserSchema, updateUserSchema, createPayoutSchema, approvePayoutSchema, rejectPayoutSchema, createGatewaySchema, updateGatewaySchema, completeRefundSchema, rejectRefundSchema, resolveAmountMismatchSchema, createDisputeSchema, updateDisputeSchema, resolveDisputeSchema, disputeEvidenceSchema, ledgerAdjustmentSchema } from '../middleware/validation';
 import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { uploadDisputeEvidence } from '../middleware/upload'; // ✅ ДОБАВЛЕНО
 import { loggerService } from '../services/loggerService';
 import { coinToPayStatusService } from '../services/coinToPayStatusService';
+import { paymentReconciliationService } from '../services/paymentReconciliationService'; // ✅ ДОБАВЛЕНО
 import { domainMonitoringService } from '../services/domainMonitoringService'; // ✅ ДОБАВЛЕНО
 
 const router = Router();
@@ -29,12 +31,30 @@ router.get('/payout/merchants', adminController.getMerchantsAwaitingPayout);
 router.post('/payout', validate(createPayoutSchema), adminController.createPayout);
 router.get('/payouts', adminController.getPayouts);
 router.get('/payouts/:id', adminController.getPayoutById);
+router.post('/payouts/:id/approve', validate(approvePayoutSchema), adminController.approvePayout); // ✅ ДОБАВЛЕНО
+router.post('/payouts/:id/reject', validate(rejectPayoutSchema), adminController.rejectPayout); // ✅ ДОБАВЛЕНО
 router.delete('/payouts/:id', adminController.deletePayout);
 
 // Payment management routes
 router.get('/payments', adminController.getPayments);
 router.get('/payments/:id', adminController.getPaymentById);
 router.put('/payments/:id', adminController.updatePayment);
+router.post('/payments/:id/amount-mismatch/resolve', validate(resolveAmountMismatchSchema), adminController.resolveAmountMismatch);
+
+// ✅ ДОБАВЛЕНО: Refund management routes (очередь ручной обработки)
+router.get('/refunds', adminController.getRefunds);
+router.get('/refunds/:id', adminController.getRefundById);
+router.post('/refunds/:id/complete', validate(completeRefundSchema), adminController.completeRefund);
+router.post('/refunds/:id/reject', validate(rejectRefundSchema), adminController.rejectRefund);
+
+// ✅ ДОБАВЛЕНО: Dispute (chargeback) management routes
+router.get('/disputes', adminController.getDisputes);
+router.post('/disputes', validate(createDisputeSchema), adminController.openDispute);
+router.get('/disputes/:id', adminController.getDisputeById);
+router.put('/disputes/:id', validate(updateDisputeSchema), adminController.updateDispute);
+router.post('/disputes/:id/resolve', validate(resolveDisputeSchema), adminController.resolveDispute);
+router.post('/disputes/:id/evidence', uploadDisputeEvidence, validate(disputeEvidenceSchema), adminController.addDisputeEvidence);
+router.get('/disputes/:id/evidence/:evidenceId', adminController.downloadDisputeEvidence);
 
 // User management routes
 router.get('/users', adminController.getUsers);
@@ -47,6 +67,33 @@ router.delete('/users/:id', adminController.deleteUser);
 router.post('/users/:id/suspend', adminController.suspendUser);
 router.post('/users/:id/activate', adminController.activateUser);
 
+// ✅ ДОБАВЛЕНО: Ledger balance routes
+router.get('/users/:id/balance', adminController.getUserBalance);
+router.get('/users/:id/ledger', adminController.getUserLedger);
+router.post('/users/:id/ledger/adjustments', validate(ledgerAdjustmentSchema), adminController.createLedgerAdjustment);
+
+// ✅ ДОБАВЛЕНО: Gateway catalog management routes
+router.get('/gateways', adminController.getGateways);
+router.get('/gateways/:id', adminController.getGatewayById);
+router.post('/gateways', validate(createGatewaySchema), adminController.createGateway);
+router.put('/gateways/:id', validate(updateGatewaySchema), adminController.updateGateway);
+router.delete('/gateways/:id', adminController.deleteGateway);
+
+// ✅ ДОБАВЛЕНО: Inbox входящих webhook от шлюзов
+router.get('/webhooks/inbound', adminController.getInboundWebhooks);
+router.get('/webhooks/inbound/:id', adminController.getInboundWebhookById);
+router.post('/webhooks/inbound/:id/replay', adminController.replayInboundWebhook);
+
+// ✅ ДОБАВЛЕНО: Фоновые задачи (scheduled_jobs)
+router.get('/jobs', adminController.getJobs);
+router.get('/jobs/stats', adminController.getJobStats);
+router.get('/jobs/:id', adminController.getJobById);
+router.post('/jobs/:id/retry', adminController.retryJob);
+router.post('/jobs/:id/cancel', adminController.cancelJob);
+
+// ✅ ДОБАВЛЕНО: Аренды периодических задач (какой инстанс выполняет задачу)
+router.get('/leases', adminController.getServiceLeases);
+
 // Logging routes
 router.get('/logs/stats', (req, res) => {
   try {
@@ -101,9 +148,9 @@ router.post('/cointopay/check/:paymentId', async (req, res) => {
   }
 });
 
-router.get('/cointopay/stats', (req, res) => {
+router.get('/cointopay/stats', async (req, res) => {
   try {
-    const stats = coinToPayStatusService.getServiceStats();
+    const stats = await coinToPayStatusService.getServiceStats();
     
     res.json({
       success: true,
@@ -118,7 +165,7 @@ router.get('/cointopay/stats', (req, res) => {
           'failed': 'FAILED',
         },
         autoExpiryNote: `Payments automatically expire after ${stats.expiryDays} days if not paid`,
-        individualTimersNote: 'Each new payment gets individual timers: 1min, 2min, 7min, 12min, then hourly',
+        individualTimersNote: 'Each new payment gets persisted checks (scheduled jobs): 1min, 2min, 7min, 12min, then hourly',
       },
     });
   } catch (error) {
@@ -129,13 +176,57 @@ router.get('/cointopay/stats', (req, res) => {
   }
 });
 
+// ✅ ДОБАВЛЕНО: Сверка статусов платежей со шлюзами (verifyPayment)
+router.post('/reconciliation/check/:paymentId', async (req, res) => {
+  try {
+    const { paymentId } = req.params;
+    console.log(`🔍 [ADMIN] Manual status reconciliation requested for payment: ${paymentId}`);
+
+    const transition = await paymentReconciliationService.reconcilePayment(paymentId);
+
+    res.json({
+      success: true,
+      message: transition
+        ? 'Payment status reconciled successfully'
+        : 'Gateway status check failed, see logs for details',
+      result: transition,
+    });
+  } catch (error) {
+    console.error(`❌ [ADMIN] Manual status reconciliation failed for payment ${req.params.paymentId}:`, error);
+
+    res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to reconcile payment status',
+    });
+  }
+});
+
+router.get('/reconciliation/stats', async (req, res) => {
+  try {
+    const stats = await paymentReconciliationService.getServiceStats();
+
+    res.json({
+      success: true,
+      result: {
+        ...stats,
+        description: 'Periodic gateway status reconciliation for open (PENDING/PROCESSING) payments',
+      },
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get reconciliation service statistics',
+    });
+  }
+});
+
 // ✅ ДОБАВЛЕНО: Новый endpoint для получения информации о конкретном платеже
 router.get('/cointopay/payment/:paymentId', async (req, res) => {
   try {
     const { paymentId } = req.params;
     
-    // Получаем информацию о таймерах
-    const timerInfo = coinToPayStatusService.getPaymentTimerInfo(paymentId);
+    // ✅ ОБНОВЛЕНО: Запланированные проверки (scheduled_jobs)
+    const timerInfo = await coinToPayStatusService.getPaymentCheckInfo(paymentId);
     
     // Получаем информацию о платеже из базы данных
     const prisma = (await import('../config/database')).default;
@@ -195,9 +286,9 @@ router.get('/cointopay/payment/:paymentId', async (req, res) => {
 });
 
 // ✅ ДОБАВЛЕНО: Domain monitoring routes
-router.get('/domain-monitoring/stats', (req, res) => {
+router.get('/domain-monitoring/stats', async (req, res) => {
   try {
-    const stats = domainMonitoringService.getMonitoringStats();
+    const stats = await domainMonitoringService.getMonitoringStats();
     
     res.json({
       success: true,
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { IntegrationsController } from '../controllers/integrationsController';
-import { validate, updateWebhookSettingsSchema } from '../middleware/validation';
+import { validate, updateWebhookSettingsSchema, createWebhookEndpointSchema, updateWebhookEndpointSchema } from '../middleware/validation';
 import { authenticateToken, requireShop } from '../middleware/auth';
 
 const router = Router();
@@ -13,4 +13,13 @@ router.use(authenticateToken, requireShop);
 router.get('/', integrationsController.getIntegrations);
 router.put('/webhook', validate(updateWebhookSettingsSchema), integrationsController.updateWebhookSettings);
 
+// ✅ ДОБАВЛЕНО: Webhook endpoints routes
+router.get('/webhooks', integrationsController.getWebhookEndpoints);
+router.post('/webhooks', validate(createWebhookEndpointSchema), integrationsController.createWebhookEndpoint);
+router.get('/webhooks/:id', integrationsController.getWebhookEndpointById);
+router.put('/webhooks/:id', validate(updateWebhookEndpointSchema), integrationsController.updateWebhookEndpoint);
+router.delete('/webhooks/:id', integrationsController.deleteWebhookEndpoint);
+router.post('/webhooks/:id/rotate-secret', integrationsController.rotateWebhookEndpointSecret);
+router.get('/webhooks/:id/deliveries', integrationsController.getWebhookEndpointDeliveries);
+
 export default router;
\ No newline at end of file
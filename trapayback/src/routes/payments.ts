@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { PaymentController } from '../controllers/paymentController';
 import { validate, createPublicPaymentSchema } from '../middleware/validation';
+import { idempotency, resolveShopFromPublicKey } from '../middleware/idempotency';
 
 const router = Router();
 const paymentController = new PaymentController();
 
 // Public payment creation route (requires public_key instead of auth)
-router.post('/create', validate(createPublicPaymentSchema), paymentController.createPublicPayment);
+router.post('/create', validate(createPublicPaymentSchema), idempotency(resolveShopFromPublicKey), paymentController.createPublicPayment);
 
 // Public payment status route
 router.get('/:id/status', paymentController.getPaymentStatus);
@@ -6,6 +6,7 @@ import {
   updateNotificationsSchema, 
   updateTelegramSettingsSchema,
   updateWebhookSettingsSchema,
+  updatePaymentSettingsSchema,
   deleteAccountSchema 
 } from '../middleware/validation';
 import { authenticateToken, requireShop } from '../middleware/auth';
@@ -22,6 +23,9 @@ router.post('/password', validate(changePasswordSchema), settingsController.chan
 router.put('/notifications', validate(updateNotificationsSchema), settingsController.updateNotifications);
 router.put('/telegram', validate(updateTelegramSettingsSchema), settingsController.updateTelegramSettings);
 router.put('/webhook', validate(updateWebhookSettingsSchema), settingsController.updateWebhookSettings);
+router.get('/webhook/secret', settingsController.getWebhookSecret);
+router.post('/webhook/secret/rotate', settingsController.rotateWebhookSecret);
+router.put('/payments', validate(updatePaymentSettingsSchema), settingsController.updatePaymentSettings);
 router.post('/api-keys/revoke', settingsController.revokeApiKeys);
 router.post('/account/delete', validate(deleteAccountSchema), settingsController.deleteAccount);
 
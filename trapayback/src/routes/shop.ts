@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { ShopController } from '../controllers/shopController';
 import { GatewayController } from '../controllers/gatewayController';
-import { validate, updateShopProfileSchema, createPaymentSchema, updatePaymentSchema, updateWalletsSchema } from '../middleware/validation';
+import { validate, updateShopProfileSchema, createPaymentSchema, updatePaymentSchema, updateWalletsSchema, resendWebhooksSchema, createRefundSchema, requestPayoutSchema, respondDisputeSchema, disputeEvidenceSchema } from '../middleware/validation';
 import { authenticateToken, requireShop } from '../middleware/auth';
+import { idempotency, resolveShopFromUser } from '../middleware/idempotency';
+import { uploadDisputeEvidence } from '../middleware/upload'; // ✅ ДОБАВЛЕНО
 
 const router = Router();
 const shopController = new ShopController();
@@ -25,18 +27,39 @@ router.get('/gateways', gatewayController.getAvailableGateways);
 router.post('/webhook/test', shopController.testWebhook);
 
 // Payment management routes
-router.post('/payments', validate(createPaymentSchema), shopController.createPayment);
+router.post('/payments', validate(createPaymentSchema), idempotency(resolveShopFromUser), shopController.createPayment);
 router.get('/payments', shopController.getPayments);
+router.get('/payments/by-order/:orderId', shopController.getPaymentByOrderId); // ✅ ДОБАВЛЕНО
 router.get('/payments/:id', shopController.getPaymentById);
 router.put('/payments/:id', validate(updatePaymentSchema), shopController.updatePayment);
 router.delete('/payments/:id', shopController.deletePayment);
 
+// ✅ ДОБАВЛЕНО: Webhook resend routes
+router.post('/payments/webhooks/resend', validate(resendWebhooksSchema), shopController.resendPaymentWebhooks);
+router.post('/payments/:id/webhooks/resend', shopController.resendPaymentWebhook);
+
+// ✅ ДОБАВЛЕНО: Refund routes (full and partial)
+router.get('/payments/:id/refunds', shopController.getPaymentRefunds);
+router.post('/payments/:id/refunds', validate(createRefundSchema), idempotency(resolveShopFromUser), shopController.createRefund);
+
+// ✅ ДОБАВЛЕНО: Dispute routes (multipart/form-data, файлы в поле "evidence")
+router.get('/disputes', shopController.getDisputes);
+router.get('/disputes/:id', shopController.getDisputeById);
+router.post('/disputes/:id/respond', uploadDisputeEvidence, validate(respondDisputeSchema), shopController.respondToDispute);
+router.post('/disputes/:id/evidence', uploadDisputeEvidence, validate(disputeEvidenceSchema), shopController.addDisputeEvidence);
+router.get('/disputes/:id/evidence/:evidenceId', shopController.downloadDisputeEvidence);
+
 // Payout management routes - IMPORTANT: specific routes must come before parameterized routes
 router.get('/payouts/stats', shopController.getShopPayoutStats); // New shop-specific stats endpoint
 router.get('/payout-statistics', shopController.getPayoutStatistics);
 router.get('/payouts', shopController.getPayouts);
+router.post('/payouts', validate(requestPayoutSchema), idempotency(resolveShopFromUser), shopController.requestPayout); // ✅ ДОБАВЛЕНО
 router.get('/payouts/:id', shopController.getPayoutById);
 
+// ✅ ДОБАВЛЕНО: Ledger balance routes
+router.get('/balance', shopController.getBalance);
+router.get('/balance/statement', shopController.getBalanceStatement);
+
 // Webhook logs routes
 router.get('/webhook-logs', shopController.getWebhookLogs);
 
@@ -3,8 +3,19 @@ import { config } from './config/config';
 import prisma from './config/database';
 import { telegramBotService } from './services/telegramBotService';
 import { currencyService } from './services/currencyService';
-import { coinToPayStatusService } from './services/coinToPayStatusService';
+import { paymentReconciliationService } from './services/paymentReconciliationService';
 import { domainMonitoringService } from './services/domainMonitoringService'; // ✅ ДОБАВЛЕНО
+import { gatewayCatalogService } from './services/gatewayCatalogService';
+import { jobService } from './services/jobService';
+import { leaseService } from './services/leaseService';
+// ✅ ДОБАВЛЕНО: Services that register background job handlers
+import './services/coinToPayStatusService';
+import './services/webhookDeliveryService';
+import './services/paymentExpiryService';
+import './services/disputeService';
+import './services/ledgerService';
+import './services/rollingReserveService';
+import { idempotencyService } from './services/idempotencyService';
 
 async function startServer() {
   try {
@@ -12,6 +23,10 @@ async function startServer() {
     await prisma.$connect();
     console.log('✅ Database connected successfully');
 
+    // ✅ ДОБАВЛЕНО: Load gateway catalog (seeds built-in gateways on first run)
+    console.log('🔌 Loading gateway catalog...');
+    await gatewayCatalogService.initialize();
+
     // Initialize Telegram bot
     const botInfo = telegramBotService.getBotInfo();
     if (botInfo.isActive) {
@@ -22,15 +37,23 @@ async function startServer() {
 
     // Initialize currency service (starts periodic updates)
     console.log('🔄 Initializing currency rates service...');
+    currencyService.startPeriodicUpdates(); // ✅ ОБНОВЛЕНО: больше не запускается в конструкторе
+
+    // ✅ ОБНОВЛЕНО: CoinToPay status checks, payment expiry sweep and webhook retries run as persisted jobs
+    console.log('⚙️ Initializing background job worker...');
+    await jobService.startWorker();
 
-    // Initialize CoinToPay status checking service
-    console.log('🪙 Initializing CoinToPay status checking service...');
-    coinToPayStatusService.startPeriodicStatusCheck();
+    // ✅ ДОБАВЛЕНО: Status reconciliation for webhook-based gateways
+    console.log('🔎 Initializing payment reconciliation service...');
+    paymentReconciliationService.startReconciliation();
 
     // ✅ ДОБАВЛЕНО: Initialize domain monitoring service
     console.log('🔍 Initializing domain monitoring service...');
     domainMonitoringService.startMonitoring();
 
+    // ✅ ДОБАВЛЕНО: Cleanup of expired idempotency keys
+    idempotencyService.startCleanup();
+
     // Start server
     app.listen(config.port, '127.1.1.159', () => {
       console.log(`🚀 Server running on port ${config.port}`);
@@ -50,15 +73,26 @@ process.on('SIGINT', async () => {
   // Stop currency service
   currencyService.stopPeriodicUpdates();
   
-  // Stop CoinToPay status checking service
-  coinToPayStatusService.stopPeriodicStatusCheck();
+  // ✅ ОБНОВЛЕНО: Stop background job worker (CoinToPay checks, webhook retries)
+  jobService.stopWorker();
+  
+  // ✅ ДОБАВЛЕНО: Stop payment reconciliation
+  paymentReconciliationService.stopReconciliation();
   
   // ✅ ДОБАВЛЕНО: Stop domain monitoring service
   domainMonitoringService.stopMonitoring();
   
+  // ✅ ДОБАВЛЕНО: Stop idempotency key cleanup
+  idempotencyService.stopCleanup();
+  
   // Stop Telegram bot
   telegramBotService.stopBot();
   
+  // ✅ ДОБАВЛЕНО: Release periodic task leases so another instance takes over immediately
+  await leaseService.releaseAll().catch(error => {
+    console.error('❌ Failed to release service leases:', error);
+  });
+  
   // Disconnect from database
   await prisma.$disconnect();
   
@@ -71,15 +105,26 @@ process.on('SIGTERM', async () => {
   // Stop currency service
   currencyService.stopPeriodicUpdates();
   
-  // Stop CoinToPay status checking service
-  coinToPayStatusService.stopPeriodicStatusCheck();
+  // ✅ ОБНОВЛЕНО: Stop background job worker (CoinToPay checks, webhook retries)
+  jobService.stopWorker();
+  
+  // ✅ ДОБАВЛЕНО: Stop payment reconciliation
+  paymentReconciliationService.stopReconciliation();
   
   // ✅ ДОБАВЛЕНО: Stop domain monitoring service
   domainMonitoringService.stopMonitoring();
   
+  // ✅ ДОБАВЛЕНО: Stop idempotency key cleanup
+  idempotencyService.stopCleanup();
+  
   // Stop Telegram bot
   telegramBotService.stopBot();
   
+  // ✅ ДОБАВЛЕНО: Release periodic task leases so another instance takes over immediately
+  await leaseService.releaseAll().catch(error => {
+    console.error('❌ Failed to release service leases:', error);
+  });
+  
   // Disconnect from database
   await prisma.$disconnect();
   
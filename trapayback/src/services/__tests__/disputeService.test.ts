@@ -0,0 +1,103 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { disputeService } from '../disputeService';
+import { DisputeResponse } from '../../types/dispute';
+import { installFakePrisma } from './fakePrisma';
+
+interface PaymentRow {
+  id: string;
+  shopId: string;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+type DisputeRow = { id: string; paymentId: string; status: string } & Record<string, unknown>;
+
+// Минимальный интерфейс клиента, который использует открытие спора
+interface FakeClient {
+  payment: {
+    findUnique(args: { where: { id: string } }): Promise<PaymentRow | null>;
+  };
+  dispute: {
+    findFirst(args: { where: { paymentId: string; status: string } }): Promise<{ id: string } | null>;
+    create(args: { data: { paymentId: string } & Record<string, unknown> }): Promise<DisputeRow>;
+  };
+  $queryRaw(): Promise<unknown[]>;
+  $transaction<T>(fn: (tx: FakeClient) => Promise<T>): Promise<T>;
+}
+
+// SELECT ... FOR UPDATE держит блокировку строки платежа до конца транзакции, как в MySQL
+function createFakeDatabase(payment: PaymentRow) {
+  const db = { payment: { ...payment }, disputes: [] as DisputeRow[] };
+  let rowLock: Promise<void> = Promise.resolve();
+
+  const createClient = (onLock: () => Promise<void>): FakeClient => {
+    const client: FakeClient = {
+      payment: {
+        findUnique: async ({ where }) => (where.id === db.payment.id ? { ...db.payment } : null),
+      },
+      dispute: {
+        findFirst: async ({ where }) => {
+          // Пауза между проверкой и созданием - без блокировки параллельный запрос успевает пройти проверку
+          await new Promise(resolve => setImmediate(resolve));
+          return db.disputes.find(dispute => dispute.paymentId === where.paymentId && dispute.status === where.status) || null;
+        },
+        create: async ({ data }) => {
+          const dispute = { ...data, id: `dispute-${db.disputes.length + 1}`, status: 'OPEN' };
+          db.disputes.push(dispute);
+          return dispute;
+        },
+      },
+      $queryRaw: async () => {
+        await onLock();
+        return [];
+      },
+      $transaction: async (fn) => {
+        let release: () => void = () => undefined;
+        const tx = createClient(async () => {
+          const previous = rowLock;
+          rowLock = new Promise<void>(resolve => { release = resolve; });
+          await previous;
+        });
+
+        try {
+          return await fn(tx);
+        } finally {
+          release();
+        }
+      },
+    };
+
+    return client;
+  };
+
+  return { db, client: createClient(async () => undefined) };
+}
+
+let restorePrisma: (() => void) | null = null;
+
+afterEach(() => {
+  restorePrisma?.();
+  restorePrisma = null;
+});
+
+test('concurrent requests open a single dispute per payment', async (t) => {
+  const { db, client } = createFakeDatabase({ id: 'payment-1', shopId: 'shop-1', amount: 100, currency: 'USD', status: 'PAID' });
+  restorePrisma = installFakePrisma(client);
+
+  t.mock.method(disputeService as unknown as { notifyShop: () => Promise<void> }, 'notifyShop', async () => undefined);
+  t.mock.method(disputeService, 'getDisputeById', async () => ({}) as DisputeResponse);
+
+  const request = { paymentId: 'payment-1', reasonCode: 'fraud', responseDeadline: new Date(Date.now() + 86400000).toISOString() };
+  const results = await Promise.allSettled([
+    disputeService.openDispute(request, 'admin-1'),
+    disputeService.openDispute(request, 'admin-2'),
+  ]);
+
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  assert.equal(db.disputes.length, 1);
+
+  const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+  assert.match(rejected.reason.message, /already has an open dispute/);
+});
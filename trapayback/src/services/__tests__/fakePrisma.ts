@@ -0,0 +1,20 @@
+import prisma from '../../config/database';
+
+// Подменяет делегаты моделей ($transaction и т.п.) общего клиента prisma in-memory реализацией.
+// Возвращает функцию, которая восстанавливает исходный клиент (вызывать в afterEach/after).
+export function installFakePrisma(fake: object): () => void {
+  const target = prisma as unknown as Record<string, unknown>;
+  const originals = new Map<string, unknown>();
+
+  for (const [key, value] of Object.entries(fake)) {
+    originals.set(key, target[key]);
+    Object.defineProperty(target, key, { value, configurable: true, writable: true });
+  }
+
+  // Клиент Prisma - Proxy: после delete делегат модели не возвращается, поэтому записываем исходное значение обратно
+  return () => {
+    for (const [key, value] of originals) {
+      Object.defineProperty(target, key, { value, configurable: true, writable: true });
+    }
+  };
+}
@@ -0,0 +1,140 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { jobService } from '../jobService';
+import { installFakePrisma } from './fakePrisma';
+
+type JobRow = {
+  id: string;
+  type: string;
+  uniqueKey: string | null;
+  payload: string;
+  status: string;
+  runAt: Date;
+  intervalMs: number | null;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  lockedAt: Date | null;
+  lastError: string | null;
+  completedAt: Date | null;
+  pendingRunAt: Date | null;
+  pendingPayload: string | null;
+} & Record<string, unknown>;
+
+type Where = Record<string, unknown>;
+
+// Минимальный интерфейс клиента, который использует воркер задач
+interface FakeClient {
+  scheduledJob: {
+    findMany(args: { where: Where }): Promise<Array<{ id: string }>>;
+    findFirst(args: { where: Where }): Promise<JobRow | null>;
+    findUnique(args: { where: { id?: string; uniqueKey?: string } }): Promise<JobRow | null>;
+    upsert(args: { where: { uniqueKey: string }; create: Partial<JobRow> }): Promise<{ id: string }>;
+    updateMany(args: { where: Where; data: Record<string, unknown> }): Promise<{ count: number }>;
+  };
+}
+
+// Условия where, которые использует jobService: равенство, not, in, lte, lt
+function matchesValue(actual: unknown, condition: unknown): boolean {
+  if (condition instanceof Date) {
+    return actual instanceof Date && actual.getTime() === condition.getTime();
+  }
+
+  if (condition !== null && typeof condition === 'object') {
+    const { not, in: within, lte, lt } = condition as { not?: unknown; in?: unknown[]; lte?: Date; lt?: Date };
+    if (not !== undefined && actual === not) return false;
+    if (within !== undefined && !within.includes(actual)) return false;
+    if (lte !== undefined && !(actual instanceof Date && actual <= lte)) return false;
+    if (lt !== undefined && !(actual instanceof Date && actual < lt)) return false;
+    return true;
+  }
+
+  return actual === condition;
+}
+
+function createFakeDatabase(job: JobRow) {
+  const db = { job: { ...job } };
+
+  const matches = (where: Where) => Object.entries(where).every(([key, condition]) => matchesValue(db.job[key], condition));
+
+  const client: FakeClient = {
+    scheduledJob: {
+      findMany: async ({ where }) => (matches(where) ? [{ id: db.job.id }] : []),
+      findFirst: async ({ where }) => (matches(where) ? { ...db.job } : null),
+      findUnique: async ({ where }) => (where.id === db.job.id || where.uniqueKey === db.job.uniqueKey ? { ...db.job } : null),
+      upsert: async () => ({ id: db.job.id }),
+      updateMany: async ({ where, data }) => {
+        if (!matches(where)) {
+          return { count: 0 };
+        }
+
+        for (const [key, value] of Object.entries(data)) {
+          const increment = (value as { increment?: number } | null)?.increment;
+          db.job[key] = increment !== undefined ? (db.job[key] as number) + increment : value;
+        }
+        return { count: 1 };
+      },
+    },
+  };
+
+  return { db, client };
+}
+
+let restorePrisma: (() => void) | null = null;
+
+afterEach(() => {
+  restorePrisma?.();
+  restorePrisma = null;
+});
+
+test('a schedule request for a running job is applied after the run finishes', async () => {
+  const { db, client } = createFakeDatabase({
+    id: 'job-1',
+    type: 'test.deferred_reschedule',
+    uniqueKey: 'test:job-1',
+    payload: JSON.stringify({ run: 1 }),
+    status: 'PENDING',
+    runAt: new Date(Date.now() - 1000),
+    intervalMs: null,
+    attempts: 0,
+    maxAttempts: 5,
+    lockedBy: null,
+    lockedAt: null,
+    lastError: null,
+    completedAt: null,
+    pendingRunAt: null,
+    pendingPayload: null,
+  });
+  restorePrisma = installFakePrisma(client);
+
+  const nextRunAt = new Date(Date.now() + 60 * 1000);
+  let finishRun: () => void = () => undefined;
+  let runStarted: () => void = () => undefined;
+  const started = new Promise<void>(resolve => { runStarted = resolve; });
+
+  // Обработчик завершается только после того, как задачу перепланировали
+  jobService.registerHandler('test.deferred_reschedule', () => new Promise<void>(resolve => {
+    finishRun = resolve;
+    runStarted();
+  }));
+
+  assert.equal(await jobService.pollDueJobs(), 1);
+  await started;
+  assert.equal(db.job.status, 'RUNNING');
+
+  await jobService.schedule('test.deferred_reschedule', { run: 2 }, nextRunAt, { uniqueKey: 'test:job-1' });
+  assert.equal(db.job.status, 'RUNNING');
+  assert.equal(db.job.pendingRunAt, nextRunAt);
+
+  finishRun();
+  for (let tick = 0; db.job.status === 'RUNNING' && tick < 100; tick++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  // Без отложенного запуска задача стала бы COMPLETED и запрос schedule был бы потерян
+  assert.equal(db.job.status, 'PENDING');
+  assert.equal(db.job.runAt.getTime(), nextRunAt.getTime());
+  assert.deepEqual(JSON.parse(db.job.payload), { run: 2 });
+  assert.equal(db.job.pendingRunAt, null);
+  assert.equal(db.job.lockedBy, null);
+});
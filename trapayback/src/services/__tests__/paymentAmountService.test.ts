@@ -0,0 +1,79 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { paymentAmountService } from '../paymentAmountService';
+import { AppError } from '../../middleware/errorHandler';
+import { installFakePrisma } from './fakePrisma';
+
+type PaymentRow = { id: string; status: string; amountMismatch: string | null } & Record<string, unknown>;
+
+// Минимальный интерфейс клиента: решение по недоплате читает платеж и пишет его условным updateMany
+interface FakeClient {
+  payment: {
+    findUnique(args: { where: { id: string } }): Promise<PaymentRow | null>;
+    updateMany(args: { where: Record<string, unknown>; data: Record<string, unknown> }): Promise<{ count: number }>;
+  };
+}
+
+function createFakeDatabase(payment: PaymentRow) {
+  const db = { payment: { ...payment }, writes: 0 };
+
+  const client: FakeClient = {
+    payment: {
+      findUnique: async ({ where }) => (where.id === db.payment.id ? { ...db.payment, shop: { settings: null } } : null),
+      updateMany: async ({ data }) => {
+        db.writes++;
+        Object.assign(db.payment, data);
+        return { count: 1 };
+      },
+    },
+  };
+
+  return { db, client };
+}
+
+const underpaidPayment = (amounts: { receivedAmount: number | null; invoiceTotalSum: number | null }): PaymentRow => ({
+  id: 'payment-1',
+  shopId: 'shop-1',
+  status: 'UNDERPAID',
+  amount: 100,
+  currency: 'USD',
+  amountMismatch: 'UNDERPAID',
+  mismatchResolution: null,
+  receivedCurrency: 'BTC',
+  ...amounts,
+});
+
+const assertRejected = async (promise: Promise<unknown>, statusCode: number) => {
+  await assert.rejects(promise, (error: AppError) => {
+    assert.equal(error.statusCode, statusCode);
+    return true;
+  });
+};
+
+let restorePrisma: (() => void) | null = null;
+
+afterEach(() => {
+  restorePrisma?.();
+  restorePrisma = null;
+});
+
+test('partial credit without gateway amounts is rejected instead of crediting NaN', async () => {
+  const { db, client } = createFakeDatabase(underpaidPayment({ receivedAmount: null, invoiceTotalSum: null }));
+  restorePrisma = installFakePrisma(client);
+
+  await assertRejected(paymentAmountService.resolveMismatch('payment-1', { action: 'PARTIAL_CREDIT' }), 409);
+  await assertRejected(paymentAmountService.resolveMismatch('payment-1', { action: 'PARTIAL_CREDIT', creditAmount: 500 }), 409);
+
+  assert.equal(db.writes, 0);
+  assert.equal(db.payment.creditedAmount, undefined);
+});
+
+test('partial credit of an underpayment is capped at the payment amount', async () => {
+  // Полученная сумма по курсу выше суммы счета - зачесть больше суммы заказа все равно нельзя
+  const { db, client } = createFakeDatabase(underpaidPayment({ receivedAmount: 0.0012, invoiceTotalSum: 0.001 }));
+  restorePrisma = installFakePrisma(client);
+
+  await assertRejected(paymentAmountService.resolveMismatch('payment-1', { action: 'PARTIAL_CREDIT', creditAmount: 110 }), 400);
+
+  assert.equal(db.writes, 0);
+});
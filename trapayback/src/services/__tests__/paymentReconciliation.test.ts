@@ -0,0 +1,57 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { paymentReconciliationService } from '../paymentReconciliationService';
+import { installFakePrisma } from './fakePrisma';
+
+interface PaymentRow {
+  id: string;
+  status: string;
+  gateway: string;
+  createdAt: Date;
+}
+
+interface FindManyArgs {
+  where: { status: { in: string[] } };
+}
+
+// Минимальный интерфейс клиента: выборка платежей, которым пора сверку (фильтр по статусу)
+interface FakeClient {
+  payment: {
+    findMany(args: FindManyArgs): Promise<Array<{ id: string }>>;
+  };
+}
+
+function createFakeDatabase(payments: PaymentRow[]) {
+  const client: FakeClient = {
+    payment: {
+      findMany: async ({ where }) => payments
+        .filter(payment => where.status.in.includes(payment.status))
+        .map(({ id }) => ({ id })),
+    },
+  };
+
+  return { client };
+}
+
+let restorePrisma: (() => void) | null = null;
+
+afterEach(() => {
+  restorePrisma?.();
+  restorePrisma = null;
+});
+
+test('payments expired by the sweeper are still reconciled within the gateway schedule', async (t) => {
+  // Plisio: инвойс истек через сутки, а расписание сверки - до 3 дней
+  const { client } = createFakeDatabase([
+    { id: 'payment-1', status: 'EXPIRED', gateway: 'plisio', createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) },
+  ]);
+  restorePrisma = installFakePrisma(client);
+
+  const reconcile = t.mock.method(paymentReconciliationService, 'reconcilePayment', async () => null);
+
+  const count = await paymentReconciliationService.reconcileDuePayments();
+
+  assert.equal(count, 1);
+  assert.equal(reconcile.mock.callCount(), 1);
+  assert.deepEqual(reconcile.mock.calls[0].arguments, ['payment-1']);
+});
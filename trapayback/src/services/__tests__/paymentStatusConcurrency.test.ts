@@ -0,0 +1,166 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import prisma from '../../config/database';
+import { WebhookService } from '../webhookService';
+import { paymentStatusService } from '../paymentStatusService';
+import { webhookDeliveryService } from '../webhookDeliveryService';
+import { telegramBotService } from '../telegramBotService';
+import { PaymentLinkService } from '../paymentLinkService';
+import { installFakePrisma } from './fakePrisma';
+
+type PaymentRow = { id: string; shopId: string; status: string } & Record<string, unknown>;
+
+interface HistoryRow {
+  paymentId: string;
+  oldStatus: string;
+  newStatus: string;
+  source: string;
+  accepted: boolean;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  payload: string;
+}
+
+// Минимальный интерфейс клиента, который использует смена статуса платежа
+interface FakeClient {
+  payment: {
+    findUnique(args: { where: { id: string } }): Promise<PaymentRow | null>;
+    updateMany(args: { where: Record<string, unknown>; data: Record<string, unknown> }): Promise<{ count: number }>;
+    update(args: { data: Record<string, unknown> }): Promise<PaymentRow>;
+  };
+  paymentStatusHistory: {
+    create(args: { data: HistoryRow }): Promise<HistoryRow>;
+  };
+  scheduledJob: {
+    create(args: { data: Omit<JobRow, 'id'> }): Promise<JobRow>;
+  };
+  shopSettings: {
+    findUnique(): Promise<Record<string, number | boolean>>;
+  };
+  $transaction<T>(fn: (tx: FakeClient) => Promise<T>): Promise<T>;
+}
+
+// In-memory замена таблиц, которые затрагивает смена статуса платежа.
+// Условный updateMany (where status = старый статус) ведет себя как в БД: параллельный переход применяется один раз.
+function createFakeDatabase(payment: PaymentRow) {
+  const db = {
+    payment: { ...payment },
+    history: [] as HistoryRow[],
+    jobs: [] as JobRow[],
+  };
+
+  const matches = (where: Record<string, unknown>) => Object.entries(where).every(([key, value]) => db.payment[key] === value);
+
+  const client: FakeClient = {
+    payment: {
+      findUnique: async ({ where }) => (where.id === db.payment.id ? { ...db.payment, shop: { gatewaySettings: null } } : null),
+      updateMany: async ({ where, data }) => {
+        if (!matches(where)) {
+          return { count: 0 };
+        }
+        Object.assign(db.payment, data);
+        return { count: 1 };
+      },
+      update: async ({ data }) => Object.assign(db.payment, data),
+    },
+    paymentStatusHistory: {
+      create: async ({ data }) => {
+        db.history.push(data);
+        return data;
+      },
+    },
+    scheduledJob: {
+      create: async ({ data }) => {
+        const job = { id: `job-${db.jobs.length + 1}`, ...data };
+        db.jobs.push(job);
+        return job;
+      },
+    },
+    shopSettings: {
+      findUnique: async () => ({
+        amountTolerancePercent: 0,
+        notificationPaymentSuccess: true,
+        notificationPaymentFailed: true,
+        notificationRefund: true,
+        notificationPayout: true,
+        notificationLogin: true,
+        notificationApiError: true,
+      }),
+    },
+    // Транзакция выполняется на том же клиенте; ошибка внутри пробрасывается как в Prisma
+    $transaction: async (fn) => fn(client),
+  };
+
+  return { db, client };
+}
+
+const originalPaymentDelegate = prisma.payment;
+const originalTransaction = prisma.$transaction;
+let restorePrisma: (() => void) | null = null;
+
+afterEach(() => {
+  restorePrisma?.();
+  restorePrisma = null;
+});
+
+test('concurrent PAID signals apply the transition once', async (t) => {
+  const { db, client } = createFakeDatabase({
+    id: 'payment-1',
+    shopId: 'shop-1',
+    status: 'PENDING',
+    gateway: 'plisio',
+    paidAt: null,
+    reservePercent: null,
+    invoiceTotalSum: null,
+  });
+  restorePrisma = installFakePrisma(client);
+
+  const shopWebhook = t.mock.method(webhookDeliveryService, 'sendPaymentWebhook', async () => undefined);
+  const telegram = t.mock.method(telegramBotService, 'sendPaymentNotification', async () => undefined);
+  t.mock.method(PaymentLinkService.prototype, 'handleSuccessfulPayment', async () => undefined);
+
+  const webhookService = new WebhookService();
+  const payment = { ...db.payment, shop: { settings: null } };
+
+  const results = await Promise.all([
+    webhookService.applyGatewayStatus(payment, 'PAID', { source: 'webhook:plisio' }),
+    webhookService.applyGatewayStatus(payment, 'PAID', { source: 'webhook:plisio' }),
+  ]);
+
+  assert.equal(results.filter(result => result.changed).length, 1);
+  assert.equal(db.payment.status, 'PAID');
+  assert.equal(db.history.length, 1);
+  assert.equal(db.history[0].accepted, true);
+  assert.equal(shopWebhook.mock.callCount(), 1);
+  assert.equal(telegram.mock.callCount(), 1);
+});
+
+test('concurrent status transitions write one history entry', async () => {
+  const { db, client } = createFakeDatabase({
+    id: 'payment-2',
+    shopId: 'shop-1',
+    status: 'PENDING',
+    gateway: 'plisio',
+    paidAt: null,
+    reservePercent: null,
+  });
+  restorePrisma = installFakePrisma(client);
+
+  const results = await Promise.all([
+    paymentStatusService.transition('payment-2', 'PAID', { source: 'webhook:plisio' }),
+    paymentStatusService.transition('payment-2', 'PAID', { source: 'status_check' }),
+  ]);
+
+  assert.equal(results.filter(result => result.changed).length, 1);
+  assert.equal(db.history.length, 1);
+  // Проводка баланса ставится в очередь вместе с примененным переходом
+  assert.equal(db.jobs.filter(job => job.type === 'ledger.payment_status').length, 1);
+});
+
+test('the fake database is removed from the shared client after each test', () => {
+  assert.equal(prisma.payment, originalPaymentDelegate);
+  assert.equal(prisma.$transaction, originalTransaction);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { payoutSettlementService } from '../payoutSettlementService';
+import { currencyService } from '../currencyService';
+
+interface PaymentRow {
+  id: string;
+  gateway: string;
+  status: string;
+  paidAt: Date;
+  merchantPaid: boolean;
+  reservePercent: number | null;
+  reserveReleaseAt: Date | null;
+  reserveReleasedAt: Date | null;
+  reservePaid: boolean;
+  payoutItems: Array<{ type: string }>;
+}
+
+interface LedgerTransactionRow {
+  paymentId: string;
+  type: string;
+  metadata: Record<string, unknown> | null;
+  clearingAmount: number;
+}
+
+// Минимальный интерфейс клиента транзакции, который использует подбор платежей в выплату
+interface FakeTransactionClient {
+  shop: {
+    findUnique(): Promise<{ gatewaySettings: string | null }>;
+  };
+  payment: {
+    findMany(): Promise<PaymentRow[]>;
+  };
+  ledgerTransaction: {
+    findMany(args: { where: { type: string } }): Promise<Array<{ paymentId: string; metadata: Record<string, unknown> | null }>>;
+  };
+  ledgerEntry: {
+    findMany(args: { where: { transaction: { type: { in: string[] } } } }): Promise<Array<{ amount: number; transaction: { paymentId: string } }>>;
+  };
+}
+
+function createFakeTransaction(gatewaySettings: string, payments: PaymentRow[], ledger: LedgerTransactionRow[]): FakeTransactionClient {
+  return {
+    shop: {
+      findUnique: async () => ({ gatewaySettings }),
+    },
+    payment: {
+      findMany: async () => payments,
+    },
+    ledgerTransaction: {
+      findMany: async ({ where }) => ledger
+        .filter(transaction => transaction.type === where.type)
+        .map(({ paymentId, metadata }) => ({ paymentId, metadata })),
+    },
+    ledgerEntry: {
+      findMany: async ({ where }) => ledger
+        .filter(transaction => where.transaction.type.in.includes(transaction.type))
+        .map(transaction => ({ amount: transaction.clearingAmount, transaction: { paymentId: transaction.paymentId } })),
+    },
+  };
+}
+
+const paidPayment = (id: string): PaymentRow => ({
+  id,
+  gateway: 'plisio',
+  status: 'PAID',
+  paidAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+  merchantPaid: false,
+  reservePercent: null,
+  reserveReleaseAt: null,
+  reserveReleasedAt: null,
+  reservePaid: false,
+  payoutItems: [],
+});
+
+test('payout items use the amounts and commission recorded by the ledger', async (t) => {
+  // Текущие курс и комиссия отличаются от тех, по которым платеж провел ledger
+  const convert = t.mock.method(currencyService, 'convertToUSDT', async (amount: number) => amount * 2);
+  const tx = createFakeTransaction(JSON.stringify({ Plisio: { commission: 10, payoutDelay: 0 } }), [paidPayment('payment-1'), paidPayment('payment-2')], [
+    { paymentId: 'payment-1', type: 'PAYMENT', metadata: { amount: 100, currency: 'EUR', gateway: 'plisio', grossAmount: 108, commission: 2 }, clearingAmount: -108 },
+    { paymentId: 'payment-1', type: 'REFUND', metadata: null, clearingAmount: 20 },
+  ]);
+
+  const items = await payoutSettlementService.collectPayments(tx as unknown as Prisma.TransactionClient, 'shop-1', { respectPayoutDelay: true });
+
+  // payment-2 еще не проведен в ledger - в выплату не попадает
+  assert.deepEqual(items, [
+    { paymentId: 'payment-1', type: 'PAYMENT', grossAmount: 88, commission: 2, netAmount: 86.24 },
+  ]);
+  assert.equal(convert.mock.callCount(), 0);
+});
@@ -0,0 +1,85 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { refundService } from '../refundService';
+import { AppError } from '../../middleware/errorHandler';
+import { installFakePrisma } from './fakePrisma';
+
+type PaymentRow = { id: string; shopId: string; amount: number; creditedAmount: number | null } & Record<string, unknown>;
+
+interface RefundRow {
+  paymentId: string;
+  amount: number;
+}
+
+// Минимальный интерфейс клиента: создание возврата блокирует платеж, суммирует возвраты и создает запись
+interface FakeClient {
+  payment: {
+    findFirst(args: { where: { id: string; shopId: string } }): Promise<PaymentRow | null>;
+  };
+  refund: {
+    aggregate(): Promise<{ _sum: { amount: number | null } }>;
+    create(args: { data: RefundRow }): Promise<RefundRow>;
+  };
+  $queryRaw(): Promise<unknown[]>;
+  $transaction<T>(fn: (tx: FakeClient) => Promise<T>): Promise<T>;
+}
+
+function createFakeDatabase(payment: PaymentRow, refundedAmount: number) {
+  const db = { payment: { ...payment }, refunds: [] as RefundRow[] };
+
+  const client: FakeClient = {
+    payment: {
+      findFirst: async ({ where }) => (where.id === db.payment.id && where.shopId === db.payment.shopId ? { ...db.payment } : null),
+    },
+    refund: {
+      aggregate: async () => ({ _sum: { amount: refundedAmount } }),
+      create: async ({ data }) => {
+        db.refunds.push(data);
+        return data;
+      },
+    },
+    $queryRaw: async () => [],
+    $transaction: async (fn) => fn(client),
+  };
+
+  return { db, client };
+}
+
+const partiallyCreditedPayment: PaymentRow = {
+  id: 'payment-1',
+  shopId: 'shop-1',
+  amount: 100,
+  creditedAmount: 60,
+  currency: 'USD',
+  status: 'PAID',
+};
+
+let restorePrisma: (() => void) | null = null;
+
+afterEach(() => {
+  restorePrisma?.();
+  restorePrisma = null;
+});
+
+test('refunds of a partially credited payment are capped at the credited amount', async () => {
+  const { db, client } = createFakeDatabase(partiallyCreditedPayment, 50);
+  restorePrisma = installFakePrisma(client);
+
+  await assert.rejects(refundService.createRefund('shop-1', 'payment-1', { amount: 20 }), (error: AppError) => {
+    assert.equal(error.statusCode, 400);
+    assert.match(error.message, /between 0 and 10 USD/);
+    return true;
+  });
+
+  assert.equal(db.refunds.length, 0);
+});
+
+test('a partially credited payment is fully refunded once the credited amount is returned', async () => {
+  const { client } = createFakeDatabase(partiallyCreditedPayment, 60);
+  restorePrisma = installFakePrisma(client);
+
+  await assert.rejects(refundService.createRefund('shop-1', 'payment-1', {}), (error: AppError) => {
+    assert.equal(error.statusCode, 409);
+    return true;
+  });
+});
@@ -2,17 +2,27 @@ import prisma from '../config/database';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import { currencyService } from './currencyService';
+import { webhookDeliveryService } from './webhookDeliveryService';
+import { telegramBotService } from './telegramBotService'; // ✅ ДОБАВЛЕНО
+import { payoutSettlementService, PAYOUT_ITEMS_INCLUDE, formatPayoutItem } from './payoutSettlementService'; // ✅ ДОБАВЛЕНО
+import { ledgerService } from './ledgerService'; // ✅ ДОБАВЛЕНО
+import { rollingReserveService } from './rollingReserveService'; // ✅ ДОБАВЛЕНО
+import { paymentStatusService } from './paymentStatusService';
 import { 
   PayoutStats, 
   MerchantAwaitingPayout, 
   MerchantsAwaitingPayoutFilters,
   CreatePayoutRequest,
+  ApprovePayoutRequest,
+  RejectPayoutRequest,
   PayoutResponse,
   PayoutFilters,
   MerchantStatisticsFilters,
   MerchantStatistics
 } from '../types/admin';
 import { CreateUserRequest, UserResponse, UpdateUserRequest } from '../types/user';
+import { PaymentStatusValue } from '../types/payment';
+import { AppError } from '../middleware/errorHandler';
 
 export class AdminService {
   // ✅ ОБНОВЛЕНО: Исправлен расчет заработка шлюза
@@ -336,6 +346,30 @@ export class AdminService {
     return result;
   }
 
+  // ✅ ДОБАВЛЕНО: Общий формат выплаты для ответов админки
+  private formatPayout(payout: any, shop: { name: string; username: string }): PayoutResponse {
+    return {
+      id: payout.id,
+      shopId: payout.shopId,
+      shopName: shop.name,
+      shopUsername: shop.username,
+      amount: payout.amount,
+      network: payout.network,
+      status: payout.status,
+      txid: payout.txid,
+      notes: payout.notes,
+      wallet: payout.wallet,
+      walletAddress: payout.walletAddress,
+      requestedBy: payout.requestedBy,
+      rejectionReason: payout.rejectionReason,
+      processedBy: payout.processedBy,
+      processedAt: payout.processedAt,
+      ...(payout.items && { items: payout.items.map(formatPayoutItem) }),
+      createdAt: payout.createdAt,
+      paidAt: payout.paidAt,
+    };
+  }
+
   private getGatewayDisplayName(gatewayName: string): string {
     const gatewayDisplayNames: Record<string, string> = {
       'plisio': 'Plisio',
@@ -458,13 +492,23 @@ export class AdminService {
     const unpaidPayments = await prisma.payment.findMany({
       where: {
         status: 'PAID',
-        merchantPaid: false,
         paidAt: { not: null },
+        // ✅ ОБНОВЛЕНО: Также платежи с невыплаченным rolling reserve
+        OR: [
+          { merchantPaid: false },
+          { reservePercent: { gt: 0 }, reservePaid: false },
+        ],
       },
       select: {
         id: true,
         shopId: true,
         amount: true,
+        creditedAmount: true, // ✅ ДОБАВЛЕНО: Зачтенная сумма при недоплате / переплате
+        status: true,
+        merchantPaid: true,
+        reservePercent: true, // ✅ ДОБАВЛЕНО: Rolling reserve
+        reserveReleasedAt: true,
+        reservePaid: true,
         currency: true,
         gateway: true,
         shop: {
@@ -478,9 +522,14 @@ export class AdminService {
     // Calculate awaiting payout amount with commission deduction
     let awaitingPayoutUSDT = 0;
     let availableBalanceUSDT = 0;
+    let reserveHeldUSDT = 0;
 
     for (const payment of unpaidPayments) {
-      const amountUSDT = await currencyService.convertToUSDT(payment.amount, payment.currency);
+      const paymentAmountUSDT = await currencyService.convertToUSDT(payment.creditedAmount ?? payment.amount, payment.currency);
+      // ✅ ДОБАВЛЕНО: Неосвобожденный rolling reserve удерживается и не входит в сумму к выплате
+      const shares = rollingReserveService.getUnpaidShares(payment);
+      const heldUSDT = shares.reserveHeld ? paymentAmountUSDT * shares.reserve : 0;
+      const amountUSDT = paymentAmountUSDT * (shares.main + shares.reserve) - heldUSDT;
       availableBalanceUSDT += amountUSDT;
 
       // Calculate commission
@@ -501,6 +550,7 @@ export class AdminService {
 
       const merchantAmount = amountUSDT * (1 - commissionRate / 100);
       awaitingPayoutUSDT += merchantAmount;
+      reserveHeldUSDT += heldUSDT * (1 - commissionRate / 100);
     }
 
     // Get total payouts
@@ -525,6 +575,7 @@ export class AdminService {
       awaitingPayout: Math.round(awaitingPayoutUSDT * 100) / 100,
       thisMonth: thisMonthPayouts._sum.amount || 0,
       availableBalance: Math.round(availableBalanceUSDT * 100) / 100,
+      reserveHeld: Math.round(reserveHeldUSDT * 100) / 100, // ✅ ДОБАВЛЕНО
     };
   }
 
@@ -540,6 +591,7 @@ export class AdminService {
       totalMerchants: number;
       totalAmountUSDT: number;
       totalAmountAfterCommissionUSDT: number;
+      totalReserveHeldUSDT: number; // ✅ ДОБАВЛЕНО
     };
   }> {
     const { page, limit, minAmount, search } = filters;
@@ -548,13 +600,23 @@ export class AdminService {
     const unpaidPayments = await prisma.payment.findMany({
       where: {
         status: 'PAID',
-        merchantPaid: false,
         paidAt: { not: null },
+        // ✅ ОБНОВЛЕНО: Также платежи с невыплаченным rolling reserve
+        OR: [
+          { merchantPaid: false },
+          { reservePercent: { gt: 0 }, reservePaid: false },
+        ],
       },
       select: {
         id: true,
         shopId: true,
         amount: true,
+        creditedAmount: true, // ✅ ДОБАВЛЕНО: Зачтенная сумма при недоплате / переплате
+        status: true,
+        merchantPaid: true,
+        reservePercent: true, // ✅ ДОБАВЛЕНО: Rolling reserve
+        reserveReleasedAt: true,
+        reservePaid: true,
         currency: true,
         gateway: true,
         paidAt: true,
@@ -581,6 +643,7 @@ export class AdminService {
       payments: any[];
       totalAmountUSDT: number;
       totalAmountAfterCommissionUSDT: number;
+      reserveHeldUSDT: number;
       gatewayBreakdown: Record<string, {
         gateway: string;
         count: number;
@@ -598,17 +661,20 @@ export class AdminService {
           payments: [],
           totalAmountUSDT: 0,
           totalAmountAfterCommissionUSDT: 0,
+          reserveHeldUSDT: 0,
           gatewayBreakdown: {},
           oldestPaymentDate: payment.paidAt!,
         };
       }
 
       const data = merchantData[payment.shopId];
-      data.payments.push(payment);
 
       // Convert to USDT
-      const amountUSDT = await currencyService.convertToUSDT(payment.amount, payment.currency);
-      data.totalAmountUSDT += amountUSDT;
+      const paymentAmountUSDT = await currencyService.convertToUSDT(payment.creditedAmount ?? payment.amount, payment.currency);
+      // ✅ ДОБАВЛЕНО: Неосвобожденный rolling reserve показывается отдельно и не входит в сумму к выплате
+      const shares = rollingReserveService.getUnpaidShares(payment);
+      const heldUSDT = shares.reserveHeld ? paymentAmountUSDT * shares.reserve : 0;
+      const amountUSDT = paymentAmountUSDT * (shares.main + shares.reserve) - heldUSDT;
 
       // Calculate commission
       let commissionRate = 10; // Default 10%
@@ -626,6 +692,15 @@ export class AdminService {
         }
       }
 
+      data.reserveHeldUSDT += heldUSDT * (1 - commissionRate / 100);
+
+      if (amountUSDT <= 0) {
+        continue;
+      }
+
+      data.payments.push(payment);
+      data.totalAmountUSDT += amountUSDT;
+
       const amountAfterCommissionUSDT = amountUSDT * (1 - commissionRate / 100);
       data.totalAmountAfterCommissionUSDT += amountAfterCommissionUSDT;
 
@@ -645,11 +720,19 @@ export class AdminService {
       data.gatewayBreakdown[payment.gateway].amountAfterCommissionUSDT += amountAfterCommissionUSDT;
 
       // Track oldest payment
-      if (payment.paidAt! < data.oldestPaymentDate) {
+      if (data.payments.length === 1 || payment.paidAt! < data.oldestPaymentDate) {
         data.oldestPaymentDate = payment.paidAt!;
       }
     }
 
+    // ✅ ДОБАВЛЕНО: Запросы выплат, ожидающие подтверждения (удерживаются из баланса мерчанта)
+    const pendingPayouts = await prisma.payout.groupBy({
+      by: ['shopId'],
+      where: { status: 'PENDING' },
+      _sum: { amount: true },
+    });
+    const pendingPayoutAmounts = new Map(pendingPayouts.map(payout => [payout.shopId, payout._sum.amount || 0]));
+
     // Convert to array and apply filters
     let merchants = Object.values(merchantData).map(data => ({
       id: data.shop.id,
@@ -665,6 +748,8 @@ export class AdminService {
       },
       totalAmountUSDT: Math.round(data.totalAmountUSDT * 100) / 100,
       totalAmountAfterCommissionUSDT: Math.round(data.totalAmountAfterCommissionUSDT * 100) / 100,
+      pendingPayoutsUSDT: Math.round((pendingPayoutAmounts.get(data.shop.id) || 0) * 100) / 100, // ✅ ДОБАВЛЕНО
+      reserveHeldUSDT: Math.round(data.reserveHeldUSDT * 100) / 100, // ✅ ДОБАВЛЕНО
       paymentsCount: data.payments.length,
       oldestPaymentDate: data.oldestPaymentDate,
       gatewayBreakdown: Object.values(data.gatewayBreakdown).map(gb => ({
@@ -697,6 +782,7 @@ export class AdminService {
       totalMerchants: merchants.length,
       totalAmountUSDT: Math.round(merchants.reduce((sum, m) => sum + m.totalAmountUSDT, 0) * 100) / 100,
       totalAmountAfterCommissionUSDT: Math.round(merchants.reduce((sum, m) => sum + m.totalAmountAfterCommissionUSDT, 0) * 100) / 100,
+      totalReserveHeldUSDT: Math.round(merchants.reduce((sum, m) => sum + m.reserveHeldUSDT, 0) * 100) / 100, // ✅ ДОБАВЛЕНО
     };
 
     // Apply pagination
@@ -716,7 +802,7 @@ export class AdminService {
   }
 
   async createPayout(payoutData: CreatePayoutRequest): Promise<PayoutResponse> {
-    const { shopId, amount, network, notes } = payoutData;
+    const { shopId, amount, network, notes, paymentIds } = payoutData;
 
     // Verify shop exists
     const shop = await prisma.shop.findUnique({
@@ -732,31 +818,48 @@ export class AdminService {
       throw new Error('Shop not found');
     }
 
-    // Create payout
-    const payout = await prisma.payout.create({
-      data: {
-        shopId,
-        amount,
-        network,
-        status: 'COMPLETED', // Admin-created payouts are always completed
-        notes,
-        paidAt: new Date(), // Set to current time
-      },
-    });
+    // ✅ ОБНОВЛЕНО: Выплата связывается с платежами, которые она покрывает, и помечает их выплаченными.
+    // Без paymentIds берутся самые старые невыплаченные платежи в пределах суммы.
+    const payout = await prisma.$transaction(async (tx) => {
+      const items = await payoutSettlementService.collectPayments(tx, shopId, {
+        paymentIds,
+        maxAmount: amount,
+        respectPayoutDelay: false,
+      });
 
-    return {
-      id: payout.id,
-      shopId: payout.shopId,
-      shopName: shop.name,
-      shopUsername: shop.username,
-      amount: payout.amount,
-      network: payout.network,
-      status: payout.status,
-      txid: payout.txid,
-      notes: payout.notes,
-      createdAt: payout.createdAt,
-      paidAt: payout.paidAt,
-    };
+      const created = await tx.payout.create({
+        data: {
+          shopId,
+          amount: amount ?? payoutSettlementService.sumNetAmount(items),
+          network,
+          status: 'COMPLETED', // Admin-created payouts are always completed
+          notes,
+          paidAt: new Date(), // Set to current time
+        },
+      });
+
+      await payoutSettlementService.attach(tx, created.id, items, true);
+      await ledgerService.recordPayoutCompleted(tx, created);
+
+      return created;
+    }, { timeout: 15000 });
+
+    // ✅ ДОБАВЛЕНО: payout.completed webhook
+    try {
+      await webhookDeliveryService.sendPayoutWebhook(payout);
+    } catch (error) {
+      console.error(`Failed to send payout webhook for payout ${payout.id}:`, error);
+    }
+
+    // ✅ ДОБАВЛЕНО: Уведомление магазину в Telegram
+    try {
+      await telegramBotService.sendPayoutNotification(shopId, payout, 'completed');
+    } catch (error) {
+      console.error(`Failed to send payout notification for payout ${payout.id}:`, error);
+    }
+
+    const createdPayout = await this.getPayoutOrThrow(payout.id);
+    return this.formatPayout(createdPayout, createdPayout.shop);
   }
 
   async getAllPayouts(filters: PayoutFilters): Promise<{
@@ -768,7 +871,7 @@ export class AdminService {
       totalPages: number;
     };
   }> {
-    const { page, limit, shopId, network, dateFrom, dateTo, search } = filters;
+    const { page, limit, shopId, status, network, dateFrom, dateTo, search } = filters;
     const skip = (page - 1) * limit;
 
     const where: any = {};
@@ -777,6 +880,11 @@ export class AdminService {
       where.shopId = shopId;
     }
 
+    // ✅ ДОБАВЛЕНО: status=pending - запросы выплат, ожидающие решения
+    if (status) {
+      where.status = status.toUpperCase();
+    }
+
     if (network) {
       where.network = network;
     }
@@ -818,19 +926,7 @@ export class AdminService {
     ]);
 
     return {
-      payouts: payouts.map(payout => ({
-        id: payout.id,
-        shopId: payout.shopId,
-        shopName: payout.shop.name,
-        shopUsername: payout.shop.username,
-        amount: payout.amount,
-        network: payout.network,
-        status: payout.status,
-        txid: payout.txid,
-        notes: payout.notes,
-        createdAt: payout.createdAt,
-        paidAt: payout.paidAt,
-      })),
+      payouts: payouts.map(payout => this.formatPayout(payout, payout.shop)),
       pagination: {
         page,
         limit,
@@ -850,29 +946,143 @@ export class AdminService {
             username: true,
           },
         },
+        items: PAYOUT_ITEMS_INCLUDE, // ✅ ДОБАВЛЕНО
       },
     });
 
     if (!payout) return null;
 
-    return {
-      id: payout.id,
-      shopId: payout.shopId,
-      shopName: payout.shop.name,
-      shopUsername: payout.shop.username,
-      amount: payout.amount,
-      network: payout.network,
-      status: payout.status,
-      txid: payout.txid,
-      notes: payout.notes,
-      createdAt: payout.createdAt,
-      paidAt: payout.paidAt,
-    };
+    return this.formatPayout(payout, payout.shop);
   }
 
-  async deletePayout(id: string): Promise<void> {
-    await prisma.payout.delete({
+  // ✅ ДОБАВЛЕНО: Подтверждение запроса выплаты после перевода на кошелек мерчанта
+  async approvePayout(id: string, data: ApprovePayoutRequest, adminId?: string): Promise<PayoutResponse> {
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.payout.updateMany({
+        where: { id, status: 'PENDING' },
+        data: {
+          status: 'COMPLETED',
+          txid: data.txid,
+          ...(data.notes && { notes: data.notes }),
+          processedBy: adminId,
+          processedAt: now,
+          paidAt: now,
+        },
+      });
+
+      // ✅ ДОБАВЛЕНО: Платежи запроса помечаются выплаченными вместе со сменой статуса
+      if (updated.count > 0) {
+        await payoutSettlementService.markPaid(tx, id);
+        await ledgerService.recordPayoutCompleted(tx, await tx.payout.findUniqueOrThrow({ where: { id } }));
+      }
+
+      return updated;
+    });
+
+    const payout = await this.getPayoutOrThrow(id);
+
+    if (result.count === 0) {
+      const error: AppError = new Error(`Only pending payouts can be approved (current status: ${payout.status})`);
+      error.statusCode = 409;
+      throw error;
+    }
+
+    console.log(`✅ Payout ${id} approved: ${payout.amount} USDT to ${payout.walletAddress || payout.network} (txid: ${data.txid})`);
+
+    try {
+      await webhookDeliveryService.sendPayoutWebhook(payout);
+    } catch (error) {
+      console.error(`Failed to send payout webhook for payout ${payout.id}:`, error);
+    }
+
+    try {
+      await telegramBotService.sendPayoutNotification(payout.shopId, payout, 'completed');
+    } catch (error) {
+      console.error(`Failed to send payout notification for payout ${payout.id}:`, error);
+    }
+
+    return this.formatPayout(payout, payout.shop);
+  }
+
+  // ✅ ДОБАВЛЕНО: Отклонение запроса выплаты, удержанная сумма возвращается в баланс
+  async rejectPayout(id: string, data: RejectPayoutRequest, adminId?: string): Promise<PayoutResponse> {
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.payout.updateMany({
+        where: { id, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          rejectionReason: data.reason,
+          processedBy: adminId,
+          processedAt: new Date(),
+        },
+      });
+
+      // ✅ ДОБАВЛЕНО: Платежи запроса снова доступны для выплаты
+      if (updated.count > 0) {
+        await payoutSettlementService.release(tx, id);
+        await ledgerService.recordPayoutRejected(tx, await tx.payout.findUniqueOrThrow({ where: { id } }));
+      }
+
+      return updated;
+    });
+
+    const payout = await this.getPayoutOrThrow(id);
+
+    if (result.count === 0) {
+      const error: AppError = new Error(`Only pending payouts can be rejected (current status: ${payout.status})`);
+      error.statusCode = 409;
+      throw error;
+    }
+
+    console.log(`🚫 Payout ${id} rejected: ${data.reason}`);
+
+    try {
+      await telegramBotService.sendPayoutNotification(payout.shopId, payout, 'rejected');
+    } catch (error) {
+      console.error(`Failed to send payout notification for payout ${payout.id}:`, error);
+    }
+
+    return this.formatPayout(payout, payout.shop);
+  }
+
+  private async getPayoutOrThrow(id: string) {
+    const payout = await prisma.payout.findUnique({
       where: { id },
+      include: {
+        shop: {
+          select: {
+            name: true,
+            username: true,
+          },
+        },
+        items: PAYOUT_ITEMS_INCLUDE,
+      },
+    });
+
+    if (!payout) {
+      const error: AppError = new Error('Payout not found');
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return payout;
+  }
+
+  async deletePayout(id: string): Promise<void> {
+    // ✅ ОБНОВЛЕНО: Платежи удаленной выплаты возвращаются в ожидание выплаты
+    await prisma.$transaction(async (tx) => {
+      const payout = await tx.payout.findUnique({ where: { id } });
+      if (payout) {
+        // ✅ ДОБАВЛЕНО: Проводки удаленной выплаты сторнируются в AVAILABLE
+        await ledgerService.recordPayoutDeleted(tx, payout);
+      }
+
+      await payoutSettlementService.release(tx, id);
+      await tx.payout.delete({
+        where: { id },
+      });
     });
   }
 
@@ -1004,34 +1214,53 @@ export class AdminService {
       paidAt: payment.paidAt,
       merchantPaid: payment.merchantPaid,
       adminNotes: payment.adminNotes,
+      // ✅ ДОБАВЛЕНО: Полученная сумма и расхождение с суммой счета
+      invoiceTotalSum: payment.invoiceTotalSum,
+      receivedAmount: payment.receivedAmount,
+      receivedCurrency: payment.receivedCurrency,
+      amountMismatch: payment.amountMismatch,
+      mismatchResolution: payment.mismatchResolution,
+      mismatchResolvedAt: payment.mismatchResolvedAt,
+      creditedAmount: payment.creditedAmount,
       statusChangedBy: payment.statusChangedBy,
       statusChangedAt: payment.statusChangedAt,
+      statusHistory: await paymentStatusService.getStatusHistory(payment.id), // ✅ ДОБАВЛЕНО
     };
   }
 
-  async updatePaymentStatus(id: string, status: string, notes?: string, chargebackAmount?: number): Promise<any> {
+  async updatePaymentStatus(id: string, status: string, notes?: string, chargebackAmount?: number, adminId?: string): Promise<any> {
+    const newStatus = status.toUpperCase() as PaymentStatusValue;
+
     const updateData: any = {
-      status: status.toUpperCase(),
       updatedAt: new Date(),
-      statusChangedBy: 'admin',
-      statusChangedAt: new Date(),
     };
 
     if (notes) {
       updateData.adminNotes = notes;
     }
 
-    if (status.toUpperCase() === 'CHARGEBACK' && chargebackAmount) {
+    if (newStatus === 'CHARGEBACK' && chargebackAmount) {
       updateData.chargebackAmount = chargebackAmount;
     }
 
-    if (status.toUpperCase() === 'PAID') {
-      updateData.paidAt = new Date();
+    // ✅ ОБНОВЛЕНО: Админ может применить недопустимый переход - он помечается в истории как forced
+    const transition = await paymentStatusService.transition(id, newStatus, {
+      source: 'admin',
+      actor: adminId,
+      reason: notes,
+      force: true,
+      data: updateData,
+    });
+
+    if (!transition.changed) {
+      await prisma.payment.update({
+        where: { id },
+        data: updateData,
+      });
     }
 
-    const payment = await prisma.payment.update({
+    const payment = await prisma.payment.findUniqueOrThrow({
       where: { id },
-      data: updateData,
       include: {
         shop: {
           select: {
@@ -1042,6 +1271,15 @@ export class AdminService {
       },
     });
 
+    // ✅ ДОБАВЛЕНО: Изменение статуса админом тоже отправляется магазину webhook
+    if (transition.changed) {
+      try {
+        await webhookDeliveryService.sendPaymentWebhook(payment, payment.status);
+      } catch (error) {
+        console.error(`Failed to send webhook for admin status change of payment ${id}:`, error);
+      }
+    }
+
     return {
       id: payment.id,
       shopId: payment.shopId,
@@ -1063,6 +1301,7 @@ export class AdminService {
       paidAt: payment.paidAt,
       statusChangedBy: payment.statusChangedBy,
       statusChangedAt: payment.statusChangedAt,
+      statusChanged: transition.changed, // ✅ ДОБАВЛЕНО: Статус изменен этим запросом (побочные эффекты - только в этом случае)
     };
   }
 
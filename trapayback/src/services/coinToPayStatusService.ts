@@ -1,151 +1,57 @@
 import { CoinToPayService } from './gateways/coinToPayService';
 import prisma from '../config/database';
+import { paymentStatusService } from './paymentStatusService';
 import { telegramBotService } from './telegramBotService';
 import { loggerService } from './loggerService';
+import { webhookDeliveryService } from './webhookDeliveryService';
+import { jobService } from './jobService';
+import { JobHandlerResult, ScheduledJobResponse } from '../types/job';
 
 export class CoinToPayStatusService {
   private coinToPayService: CoinToPayService;
-  private globalCheckInterval: NodeJS.Timeout | null = null;
   private readonly GLOBAL_CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 час для глобальной проверки
-  private readonly EXPIRY_DAYS = 5; // 5 дней до автоматического истечения
-  
-  // ✅ ДОБАВЛЕНО: Хранилище индивидуальных таймеров для платежей
-  private paymentTimers: Map<string, {
-    timers: NodeJS.Timeout[];
-    paymentId: string;
-    gatewayPaymentId: string;
-    createdAt: Date;
-  }> = new Map();
+  private readonly HOURLY_CHECK_INTERVAL_MS = 60 * 60 * 1000; // Индивидуальные проверки после начального расписания
+  private readonly EXPIRY_DAYS: number; // ✅ ОБНОВЛЕНО: capabilities.paymentTtlHours (истечение - paymentExpiryService)
+
+  // ✅ ОБНОВЛЕНО: Расписание индивидуальных проверок хранится в scheduled_jobs (jobService),
+  // а не в таймерах процесса - проверки переживают перезапуск сервера.
+  // Расписание проверок: 1 мин, 2 мин, 7 мин, 12 мин, затем каждый час
+  private readonly CHECK_SCHEDULE = [
+    { delay: 1 * 60 * 1000, description: '1 minute' },      // 1 минута
+    { delay: 2 * 60 * 1000, description: '2 minutes' },     // 2 минуты (итого 2 мин)
+    { delay: 5 * 60 * 1000, description: '5 minutes' },     // 5 минут (итого 7 мин)
+    { delay: 5 * 60 * 1000, description: '5 minutes' },     // 5 минут (итого 12 мин)
+  ];
 
   constructor() {
     this.coinToPayService = new CoinToPayService();
-    console.log('🪙 CoinToPayStatusService initialized');
-  }
-
-  // ✅ ДОБАВЛЕНО: Метод для создания индивидуального расписания проверок для платежа
-  schedulePaymentChecks(paymentId: string, gatewayPaymentId: string): void {
-    console.log(`🪙 [DEBUG] schedulePaymentChecks called with:`);
-    console.log(`   - paymentId: ${paymentId}`);
-    console.log(`   - gatewayPaymentId: ${gatewayPaymentId}`);
-
-    // Очищаем существующие таймеры для этого платежа (если есть)
-    this.clearPaymentTimers(paymentId);
-
-    const timers: NodeJS.Timeout[] = [];
-    const createdAt = new Date();
-
-    // Расписание проверок: 1 мин, 2 мин, 7 мин, 12 мин, затем каждый час
-    const checkSchedule = [
-      { delay: 1 * 60 * 1000, description: '1 minute' },      // 1 минута
-      { delay: 2 * 60 * 1000, description: '2 minutes' },     // 2 минуты (итого 2 мин)
-      { delay: 5 * 60 * 1000, description: '5 minutes' },     // 5 минут (итого 7 мин)
-      { delay: 5 * 60 * 1000, description: '5 minutes' },     // 5 минут (итого 12 мин)
-    ];
-
-    console.log(`🪙 [DEBUG] Creating ${checkSchedule.length} initial timers for payment ${paymentId}`);
+    this.EXPIRY_DAYS = this.coinToPayService.capabilities.paymentTtlHours / 24;
 
-    // Создаем таймеры для начальных проверок
-    let cumulativeDelay = 0;
-    checkSchedule.forEach((schedule, index) => {
-      cumulativeDelay += schedule.delay;
-      
-      const timer = setTimeout(async () => {
-        console.log(`🪙 [TIMER] Individual check #${index + 1} triggered for payment ${paymentId} (after ${schedule.description})`);
-        
-        try {
-          await this.checkSinglePaymentById(paymentId);
-          console.log(`✅ [TIMER] Individual check #${index + 1} completed for payment ${paymentId}`);
-        } catch (error) {
-          console.error(`❌ [TIMER] Failed individual check #${index + 1} for payment ${paymentId}:`, error);
-          
-          this.logCoinToPayError(
-            paymentId,
-            gatewayPaymentId,
-            error,
-            'status_check',
-            {
-              checkNumber: index + 1,
-              scheduledAfter: schedule.description,
-              isIndividualCheck: true,
-            }
-          );
-        }
-      }, cumulativeDelay);
-
-      timers.push(timer);
-      console.log(`⏰ [DEBUG] Scheduled check #${index + 1} for payment ${paymentId} in ${cumulativeDelay / 1000} seconds (${schedule.description})`);
+    jobService.registerHandler('cointopay.status_check', payload => this.runPaymentCheckJob(payload));
+    jobService.registerRecurring('cointopay.global_check', this.GLOBAL_CHECK_INTERVAL_MS, async () => {
+      await this.checkAllPendingPayments();
     });
 
-    // Создаем таймер для часовых проверок (начиная через 1 час после создания)
-    const hourlyTimer = setInterval(async () => {
-      console.log(`🪙 [HOURLY] Hourly check triggered for payment ${paymentId}`);
-      
-      try {
-        // Проверяем, не истек ли платеж
-        const payment = await prisma.payment.findUnique({
-          where: { id: paymentId },
-          select: { 
-            id: true, 
-            status: true, 
-            createdAt: true,
-            gatewayPaymentId: true,
-          },
-        });
-
-        if (!payment) {
-          console.log(`❌ [HOURLY] Payment ${paymentId} not found, clearing timers`);
-          this.clearPaymentTimers(paymentId);
-          return;
-        }
-
-        console.log(`📊 [HOURLY] Payment ${paymentId} current status: ${payment.status}`);
+    console.log('🪙 CoinToPayStatusService initialized');
+  }
 
-        // Если платеж уже не PENDING, останавливаем проверки
-        if (payment.status !== 'PENDING') {
-          console.log(`✅ [HOURLY] Payment ${paymentId} status is ${payment.status}, stopping individual checks`);
-          this.clearPaymentTimers(paymentId);
-          return;
-        }
+  private getPaymentCheckKey(paymentId: string): string {
+    return `cointopay:check:${paymentId}`;
+  }
 
-        // Проверяем, не истек ли платеж по времени
-        const daysSinceCreation = Math.floor((Date.now() - payment.createdAt.getTime()) / (1000 * 60 * 60 * 24));
-        if (daysSinceCreation >= this.EXPIRY_DAYS) {
-          console.log(`⏰ [HOURLY] Payment ${paymentId} is older than ${this.EXPIRY_DAYS} days, will be handled by global expiry check`);
-          this.clearPaymentTimers(paymentId);
-          return;
-        }
+  // ✅ ОБНОВЛЕНО: Индивидуальное расписание проверок платежа - одна задача, которая перепланирует себя
+  async schedulePaymentChecks(paymentId: string, gatewayPaymentId: string): Promise<void> {
+    const firstCheck = this.CHECK_SCHEDULE[0];
 
-        await this.checkSinglePaymentById(paymentId);
-        console.log(`✅ [HOURLY] Hourly check completed for payment ${paymentId}`);
-      } catch (error) {
-        console.error(`❌ [HOURLY] Failed hourly check for payment ${paymentId}:`, error);
-        
-        this.logCoinToPayError(
-          paymentId,
-          gatewayPaymentId,
-          error,
-          'status_check',
-          {
-            isHourlyCheck: true,
-            isIndividualCheck: true,
-          }
-        );
-      }
-    }, 60 * 60 * 1000); // Каждый час
-
-    timers.push(hourlyTimer);
+    await jobService.schedule(
+      'cointopay.status_check',
+      { paymentId, gatewayPaymentId, checkNumber: 1 },
+      new Date(Date.now() + firstCheck.delay),
+      { uniqueKey: this.getPaymentCheckKey(paymentId) }
+    );
 
-    // Сохраняем таймеры
-    this.paymentTimers.set(paymentId, {
-      timers,
-      paymentId,
-      gatewayPaymentId,
-      createdAt,
-    });
+    console.log(`⏰ Scheduled CoinToPay checks for payment ${paymentId}: first in ${firstCheck.description}, then per schedule and hourly`);
 
-    console.log(`✅ [DEBUG] Successfully scheduled ${checkSchedule.length} initial checks + hourly checks for payment ${paymentId}`);
-    console.log(`📊 [DEBUG] Total active payment timers: ${this.paymentTimers.size}`);
-    
     // ✅ ДОБАВЛЕНО: Логируем создание расписания
     this.logCoinToPayStatus(
       paymentId,
@@ -155,33 +61,72 @@ export class CoinToPayStatusService {
       'status_check',
       {
         action: 'schedule_created',
-        scheduledChecks: checkSchedule.length,
-        firstCheckIn: checkSchedule[0].delay / 1000,
-        totalTimers: this.paymentTimers.size,
+        scheduledChecks: this.CHECK_SCHEDULE.length,
+        firstCheckIn: firstCheck.delay / 1000,
       }
     );
   }
 
-  // ✅ ДОБАВЛЕНО: Метод для очистки таймеров конкретного платежа
-  clearPaymentTimers(paymentId: string): void {
-    const timerData = this.paymentTimers.get(paymentId);
-    
-    if (timerData) {
-      console.log(`🧹 [DEBUG] Clearing ${timerData.timers.length} timers for payment ${paymentId}`);
-      
-      timerData.timers.forEach((timer, index) => {
-        if (timer) {
-          clearTimeout(timer);
-          clearInterval(timer);
-          console.log(`🧹 [DEBUG] Cleared timer #${index + 1} for payment ${paymentId}`);
+  // ✅ ОБНОВЛЕНО: Отмена запланированных проверок платежа
+  async cancelPaymentChecks(paymentId: string): Promise<void> {
+    const cancelled = await jobService.cancel(this.getPaymentCheckKey(paymentId));
+
+    if (cancelled) {
+      console.log(`🧹 Cancelled scheduled CoinToPay checks for payment ${paymentId}`);
+    }
+  }
+
+  // Обработчик задачи cointopay.status_check: проверка и планирование следующей
+  private async runPaymentCheckJob(payload: { paymentId: string; gatewayPaymentId: string; checkNumber: number }): Promise<JobHandlerResult | void> {
+    const { paymentId, gatewayPaymentId, checkNumber } = payload;
+    const isHourlyCheck = checkNumber > this.CHECK_SCHEDULE.length;
+
+    console.log(`🪙 [JOB] ${isHourlyCheck ? 'Hourly check' : `Individual check #${checkNumber}`} triggered for payment ${paymentId}`);
+
+    try {
+      await this.checkSinglePaymentById(paymentId);
+    } catch (error) {
+      this.logCoinToPayError(
+        paymentId,
+        gatewayPaymentId,
+        error,
+        'status_check',
+        {
+          checkNumber,
+          isHourlyCheck,
+          isIndividualCheck: true,
         }
-      });
-      
-      this.paymentTimers.delete(paymentId);
-      console.log(`✅ [DEBUG] All timers cleared for payment ${paymentId}. Remaining active timers: ${this.paymentTimers.size}`);
-    } else {
-      console.log(`⚠️ [DEBUG] No timers found for payment ${paymentId} to clear`);
+      );
+
+      throw error;
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { status: true, createdAt: true },
+    });
+
+    // Если платеж уже не PENDING, проверки больше не нужны
+    if (!payment || payment.status !== 'PENDING') {
+      console.log(`✅ [JOB] Payment ${paymentId} is ${payment?.status || 'not found'}, stopping individual checks`);
+      return;
+    }
+
+    // Платежи старше EXPIRY_DAYS переводит в EXPIRED задача payments.expiry_sweep
+    const daysSinceCreation = Math.floor((Date.now() - payment.createdAt.getTime()) / (1000 * 60 * 60 * 24));
+    if (daysSinceCreation >= this.EXPIRY_DAYS) {
+      console.log(`⏰ [JOB] Payment ${paymentId} is older than ${this.EXPIRY_DAYS} days, will be handled by expiry sweep`);
+      return;
     }
+
+    const nextDelay = checkNumber < this.CHECK_SCHEDULE.length
+      ? this.CHECK_SCHEDULE[checkNumber].delay
+      : this.HOURLY_CHECK_INTERVAL_MS;
+
+    return {
+      rescheduleAt: new Date(Date.now() + nextDelay),
+      payload: { ...payload, checkNumber: checkNumber + 1 },
+    };
   }
 
   // ✅ ДОБАВЛЕНО: Метод для проверки конкретного платежа по ID
@@ -232,8 +177,7 @@ export class CoinToPayStatusService {
     }
 
     if (payment.status !== 'PENDING') {
-      console.log(`⚠️ [CHECK] Payment ${paymentId} status is ${payment.status}, stopping individual checks`);
-      this.clearPaymentTimers(paymentId);
+      console.log(`⚠️ [CHECK] Payment ${paymentId} status is ${payment.status}, skipping check`);
       return;
     }
 
@@ -313,82 +257,13 @@ export class CoinToPayStatusService {
     }
   }
 
-  // Start periodic status checking for CoinToPay payments
-  startPeriodicStatusCheck(): void {
-    console.log('🪙 [INIT] Starting CoinToPay periodic status checking (global checks every 1 hour)');
-
-    // Check immediately on start
-    this.checkAllPendingPayments().catch(error => {
-      console.error('❌ [INIT] Initial CoinToPay status check failed:', error);
-    });
-
-    // Set up periodic checks (теперь только для глобальной проверки и истечения)
-    this.globalCheckInterval = setInterval(async () => {
-      try {
-        console.log('🪙 [GLOBAL] Starting global check cycle...');
-        await this.checkAllPendingPayments();
-        console.log('✅ [GLOBAL] Global check cycle completed');
-      } catch (error) {
-        console.error('❌ [GLOBAL] Periodic CoinToPay status check failed:', error);
-      }
-    }, this.GLOBAL_CHECK_INTERVAL_MS);
-
-    console.log('✅ [INIT] CoinToPay status checking service started (global hourly checks + individual payment timers)');
-  }
-
-  // Stop periodic status checking
-  stopPeriodicStatusCheck(): void {
-    console.log('🛑 [SHUTDOWN] Stopping CoinToPay status checking service...');
-    
-    if (this.globalCheckInterval) {
-      clearInterval(this.globalCheckInterval);
-      this.globalCheckInterval = null;
-      console.log('🛑 [SHUTDOWN] CoinToPay global status checking stopped');
-    }
-
-    // ✅ ДОБАВЛЕНО: Очищаем все индивидуальные таймеры
-    const timerCount = this.paymentTimers.size;
-    for (const [paymentId] of this.paymentTimers) {
-      this.clearPaymentTimers(paymentId);
-    }
-    
-    console.log(`🛑 [SHUTDOWN] Cleared ${timerCount} individual payment timers`);
-  }
-
   // Check all pending CoinToPay payments (теперь в основном для истечения и резервной проверки)
   private async checkAllPendingPayments(): Promise<void> {
     try {
       console.log('🪙 [GLOBAL] Getting all pending CoinToPay payments...');
       
       // Get all pending CoinToPay payments
-      const pendingPayments = await prisma.payment.findMany({
-        where: {
-          gateway: 'cointopay',
-          status: 'PENDING',
-          gatewayPaymentId: { not: null },
-        },
-        select: {
-          id: true,
-          gatewayPaymentId: true,
-          amount: true,
-          currency: true,
-          status: true,
-          shopId: true,
-          createdAt: true,
-          shop: {
-            select: {
-              id: true,
-              name: true,
-              settings: {
-                select: {
-                  webhookUrl: true,
-                  webhookEvents: true,
-                },
-              },
-            },
-          },
-        },
-      });
+      const pendingPayments = await this.getPendingPayments();
 
       console.log(`🪙 [GLOBAL] Found ${pendingPayments.length} pending CoinToPay payments`);
 
@@ -397,9 +272,9 @@ export class CoinToPayStatusService {
         return;
       }
 
-      // ✅ Check for expired payments first
-      const expiredPayments = await this.checkExpiredPayments(pendingPayments);
-      console.log(`⏰ [GLOBAL] Found ${expiredPayments.length} expired CoinToPay payments`);
+      // ✅ ОБНОВЛЕНО: Истечение - общая задача payments.expiry_sweep; платежи с расписанием проверяет cointopay.status_check
+      const scheduledChecks = await jobService.getActiveUniqueKeys('cointopay.status_check');
+      const expiryThreshold = new Date(Date.now() - this.EXPIRY_DAYS * 24 * 60 * 60 * 1000);
 
       // ✅ ИЗМЕНЕНО: Теперь глобальная проверка в основном для резервной проверки и старых платежей
       let checkedCount = 0;
@@ -407,16 +282,16 @@ export class CoinToPayStatusService {
       
       for (const payment of pendingPayments) {
         try {
-          // Skip if already marked as expired
-          if (expiredPayments.includes(payment.id)) {
-            console.log(`⏰ [GLOBAL] Payment ${payment.id} already marked as expired, skipping global check`);
+          // Skip payments that will be expired by the expiry sweep
+          if (payment.createdAt < expiryThreshold) {
+            console.log(`⏰ [GLOBAL] Payment ${payment.id} is older than ${this.EXPIRY_DAYS} days, skipping global check`);
             skippedCount++;
             continue;
           }
 
-          // ✅ ДОБАВЛЕНО: Пропускаем платежи, которые имеют индивидуальные таймеры (созданы недавно)
-          if (this.paymentTimers.has(payment.id)) {
-            console.log(`⏰ [GLOBAL] Payment ${payment.id} has individual timers, skipping global check`);
+          // ✅ ОБНОВЛЕНО: Пропускаем платежи, у которых есть запланированные индивидуальные проверки
+          if (scheduledChecks.has(this.getPaymentCheckKey(payment.id))) {
+            console.log(`⏰ [GLOBAL] Payment ${payment.id} has scheduled individual checks, skipping global check`);
             skippedCount++;
             continue;
           }
@@ -456,102 +331,43 @@ export class CoinToPayStatusService {
         }
       }
 
-      console.log(`✅ [GLOBAL] Global check completed: ${checkedCount} checked, ${skippedCount} skipped, ${expiredPayments.length} expired`);
+      console.log(`✅ [GLOBAL] Global check completed: ${checkedCount} checked, ${skippedCount} skipped`);
 
     } catch (error) {
       console.error('❌ [GLOBAL] Failed to get pending CoinToPay payments:', error);
+      throw error;
     }
   }
 
-  // ✅ Check for payments that should be expired (older than 5 days)
-  private async checkExpiredPayments(pendingPayments: any[]): Promise<string[]> {
-    const expiredPaymentIds: string[] = [];
-    const fiveDaysAgo = new Date();
-    fiveDaysAgo.setDate(fiveDaysAgo.getDate() - this.EXPIRY_DAYS);
-
-    console.log(`⏰ [EXPIRY] Checking for CoinToPay payments older than ${this.EXPIRY_DAYS} days (created before ${fiveDaysAgo.toISOString()})`);
-
-    for (const payment of pendingPayments) {
-      if (payment.createdAt < fiveDaysAgo) {
-        console.log(`⏰ [EXPIRY] Payment ${payment.id} is older than ${this.EXPIRY_DAYS} days, marking as EXPIRED`);
-        
-        try {
-          // ✅ ДОБАВЛЕНО: Логируем автоматическое истечение
-          this.logCoinToPayStatus(
-            payment.id,
-            payment.gatewayPaymentId || 'unknown',
-            'PENDING',
-            'EXPIRED',
-            'auto_expire',
-            {
-              reason: `Payment older than ${this.EXPIRY_DAYS} days`,
-              createdAt: payment.createdAt,
-              daysSinceCreation: Math.floor((Date.now() - payment.createdAt.getTime()) / (1000 * 60 * 60 * 24)),
-              paymentAmount: payment.amount,
-              paymentCurrency: payment.currency,
-              shopId: payment.shopId,
-            }
-          );
-
-          // Update payment status to EXPIRED
-          await prisma.payment.update({
-            where: { id: payment.id },
-            data: {
-              status: 'EXPIRED',
-              updatedAt: new Date(),
-              adminNotes: `Automatically expired after ${this.EXPIRY_DAYS} days without payment confirmation`,
-            },
-          });
-
-          // Log expiry action
-          await prisma.webhookLog.create({
-            data: {
-              paymentId: payment.id,
-              shopId: payment.shopId,
-              event: 'cointopay_auto_expired',
-              statusCode: 200,
-              responseBody: JSON.stringify({
-                reason: `Payment older than ${this.EXPIRY_DAYS} days`,
-                createdAt: payment.createdAt,
-                expiredAt: new Date().toISOString(),
-                daysSinceCreation: Math.floor((Date.now() - payment.createdAt.getTime()) / (1000 * 60 * 60 * 24)),
-              }),
+  private async getPendingPayments() {
+    return prisma.payment.findMany({
+      where: {
+        gateway: 'cointopay',
+        status: 'PENDING',
+        gatewayPaymentId: { not: null },
+      },
+      select: {
+        id: true,
+        gatewayPaymentId: true,
+        amount: true,
+        currency: true,
+        status: true,
+        shopId: true,
+        createdAt: true,
+        shop: {
+          select: {
+            id: true,
+            name: true,
+            settings: {
+              select: {
+                webhookUrl: true,
+                webhookEvents: true,
+              },
             },
-          });
-
-          // Send webhook to shop
-          await this.sendShopWebhook(payment, 'EXPIRED');
-
-          // Send Telegram notification
-          await this.sendPaymentStatusNotification(payment, 'EXPIRED');
-
-          // ✅ ДОБАВЛЕНО: Очищаем индивидуальные таймеры для истекшего платежа
-          this.clearPaymentTimers(payment.id);
-
-          expiredPaymentIds.push(payment.id);
-
-          console.log(`✅ [EXPIRY] Payment ${payment.id} marked as EXPIRED due to ${this.EXPIRY_DAYS}-day timeout`);
-
-        } catch (error) {
-          console.error(`❌ [EXPIRY] Failed to expire payment ${payment.id}:`, error);
-          
-          // ✅ ДОБАВЛЕНО: Логируем ошибку автоматического истечения
-          this.logCoinToPayError(
-            payment.id,
-            payment.gatewayPaymentId || 'unknown',
-            error,
-            'auto_expire',
-            {
-              reason: 'Failed to mark payment as expired',
-              createdAt: payment.createdAt,
-              daysSinceCreation: Math.floor((Date.now() - payment.createdAt.getTime()) / (1000 * 60 * 60 * 24)),
-            }
-          );
-        }
-      }
-    }
-
-    return expiredPaymentIds;
+          },
+        },
+      },
+    });
   }
 
   // Check single payment status
@@ -599,18 +415,11 @@ export class CoinToPayStatusService {
           }
         );
 
-        // Prepare update data
+        // Prepare update data (статус меняется только через paymentStatusService)
         const updateData: any = {
-          status: statusResult.status,
           updatedAt: new Date(),
         };
 
-        // If payment became successful, set paid_at
-        if (statusResult.status === 'PAID' && payment.status !== 'PAID') {
-          updateData.paidAt = new Date();
-          console.log(`💰 [CHECK] Payment ${payment.id} marked as paid at: ${updateData.paidAt.toISOString()}`);
-        }
-
         // Save payment details if available
         if (statusResult.paymentDetails) {
           const details = statusResult.paymentDetails;
@@ -637,12 +446,34 @@ export class CoinToPayStatusService {
           }
         }
 
-        // Update payment in database
-        await prisma.payment.update({
-          where: { id: payment.id },
+        // ✅ ОБНОВЛЕНО: Update payment in database через машину состояний
+        const transition = await paymentStatusService.transition(payment.id, statusResult.status, {
+          source: 'cointopay_check',
+          reason: {
+            paymentDetails: statusResult.paymentDetails,
+            amount: statusResult.amount,
+            currency: statusResult.currency,
+          },
           data: updateData,
         });
 
+        if (!transition.changed) {
+          console.log(`⚠️ [CHECK] Payment ${payment.id} transition ${transition.oldStatus} -> ${statusResult.status} not applied`);
+
+          // Детали платежа сохраняем даже если переход отклонен
+          if (statusResult.paymentDetails) {
+            await prisma.payment.update({
+              where: { id: payment.id },
+              data: updateData,
+            });
+          }
+          return;
+        }
+
+        if (statusResult.status === 'PAID') {
+          console.log(`💰 [CHECK] Payment ${payment.id} marked as paid`);
+        }
+
         // Log status change
         await prisma.webhookLog.create({
           data: {
@@ -665,10 +496,10 @@ export class CoinToPayStatusService {
         // Send Telegram notification
         await this.sendPaymentStatusNotification(payment, statusResult.status);
 
-        // ✅ ДОБАВЛЕНО: Если платеж завершен (не PENDING), очищаем индивидуальные таймеры
+        // ✅ ОБНОВЛЕНО: Если платеж завершен (не PENDING), отменяем запланированные проверки
         if (statusResult.status !== 'PENDING') {
-          console.log(`🧹 [CHECK] Payment ${payment.id} status changed to ${statusResult.status}, clearing individual timers`);
-          this.clearPaymentTimers(payment.id);
+          console.log(`🧹 [CHECK] Payment ${payment.id} status changed to ${statusResult.status}, cancelling scheduled checks`);
+          await this.cancelPaymentChecks(payment.id);
         }
 
         console.log(`✅ [CHECK] Payment ${payment.id} updated successfully`);
@@ -729,72 +560,11 @@ export class CoinToPayStatusService {
 
   // Send webhook to shop
   private async sendShopWebhook(payment: any, status: string): Promise<void> {
-    const startTime = Date.now();
-    
     try {
-      const shop = payment.shop;
-      const settings = shop.settings;
-
-      if (!settings?.webhookUrl) {
-        console.log(`No webhook URL configured for shop ${shop.id}`);
-        return;
-      }
-
-      // Check if this event type is enabled
-      const eventName = status === 'PAID' ? 'payment.success' : 
-                       status === 'FAILED' ? 'payment.failed' : 
-                       status === 'EXPIRED' ? 'payment.failed' : 'payment.pending';
-
-      if (!settings.webhookEvents?.includes(eventName)) {
-        console.log(`Webhook event ${eventName} not enabled for shop ${shop.id}`);
-        return;
-      }
-
-      // Prepare webhook payload for shop
-      const webhookPayload = {
-        event: eventName,
-        payment: {
-          id: payment.id,
-          order_id: payment.orderId,
-          gateway_order_id: payment.gatewayOrderId,
-          gateway: '0100', // CoinToPay gateway ID
-          amount: payment.amount,
-          currency: payment.currency,
-          status: status.toLowerCase(),
-          customer_email: payment.customerEmail,
-          customer_name: payment.customerName,
-          created_at: payment.createdAt,
-          updated_at: new Date(),
-        },
-      };
-
-      // Send webhook to shop
-      const response = await fetch(settings.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'TesSoft Payment System/1.0',
-        },
-        body: JSON.stringify(webhookPayload),
-      });
-
-      const responseTime = Date.now() - startTime;
-      const responseText = response.ok ? 'Success' : await response.text();
-
-      // Log shop webhook
-      loggerService.logShopWebhookSent(
-        payment.shopId,
-        settings.webhookUrl,
-        eventName,
-        response.status,
-        responseTime,
-        webhookPayload
-      );
-
-      console.log(`Shop webhook sent to ${settings.webhookUrl} with status ${response.status} (${responseTime}ms)`);
-
+      // ✅ ОБНОВЛЕНО: Общий payload и очередь доставки (webhookDeliveryService)
+      await webhookDeliveryService.sendPaymentWebhook({ ...payment, status, updatedAt: new Date() }, status);
     } catch (error) {
-      console.error('Failed to send shop webhook:', error);
+      console.error('Failed to queue shop webhook:', error);
       
       // Log shop webhook error
       loggerService.logShopWebhookError(
@@ -861,59 +631,40 @@ export class CoinToPayStatusService {
     console.log(`✅ [MANUAL] Manual check completed for payment ${paymentId}`);
   }
 
-  // ✅ ОБНОВЛЕНО: Method to get service statistics
-  getServiceStats(): {
-    isActive: boolean;
+  // ✅ ОБНОВЛЕНО: Method to get service statistics (расписание из scheduled_jobs)
+  async getServiceStats(): Promise<{
     globalCheckIntervalMinutes: number;
     expiryDays: number;
-    activeIndividualTimers: number;
-    nextGlobalCheckIn?: number;
-    paymentTimersDetails: Array<{
-      paymentId: string;
-      gatewayPaymentId: string;
-      createdAt: Date;
-      timersCount: number;
-    }>;
-  } {
-    const nextGlobalCheckIn = this.globalCheckInterval ? this.GLOBAL_CHECK_INTERVAL_MS : undefined;
-    
-    // ✅ ДОБАВЛЕНО: Детали активных таймеров
-    const paymentTimersDetails = Array.from(this.paymentTimers.values()).map(timer => ({
-      paymentId: timer.paymentId,
-      gatewayPaymentId: timer.gatewayPaymentId,
-      createdAt: timer.createdAt,
-      timersCount: timer.timers.length,
-    }));
-    
+    scheduledPaymentChecks: number;
+    checkSchedule: string[];
+    jobs: Array<ScheduledJobResponse | null>;
+  }> {
+    const [scheduledChecks, globalCheckJob, expirySweepJob] = await Promise.all([
+      jobService.getActiveUniqueKeys('cointopay.status_check'),
+      jobService.getJobByUniqueKey('recurring:cointopay.global_check'),
+      jobService.getJobByUniqueKey('recurring:payments.expiry_sweep'),
+    ]);
+
     return {
-      isActive: !!this.globalCheckInterval,
       globalCheckIntervalMinutes: this.GLOBAL_CHECK_INTERVAL_MS / (1000 * 60),
       expiryDays: this.EXPIRY_DAYS,
-      activeIndividualTimers: this.paymentTimers.size,
-      nextGlobalCheckIn,
-      paymentTimersDetails,
+      scheduledPaymentChecks: scheduledChecks.size,
+      checkSchedule: this.CHECK_SCHEDULE.map(schedule => schedule.description),
+      jobs: [globalCheckJob, expirySweepJob],
     };
   }
 
-  // ✅ ДОБАВЛЕНО: Метод для получения информации о конкретном платеже
-  getPaymentTimerInfo(paymentId: string): {
-    hasTimers: boolean;
-    timersCount?: number;
-    createdAt?: Date;
-    gatewayPaymentId?: string;
-  } {
-    const timerData = this.paymentTimers.get(paymentId);
-    
-    if (timerData) {
-      return {
-        hasTimers: true,
-        timersCount: timerData.timers.length,
-        createdAt: timerData.createdAt,
-        gatewayPaymentId: timerData.gatewayPaymentId,
-      };
-    }
-    
-    return { hasTimers: false };
+  // ✅ ОБНОВЛЕНО: Запланированная проверка конкретного платежа
+  async getPaymentCheckInfo(paymentId: string): Promise<{
+    hasScheduledChecks: boolean;
+    job: ScheduledJobResponse | null;
+  }> {
+    const job = await jobService.getJobByUniqueKey(this.getPaymentCheckKey(paymentId));
+
+    return {
+      hasScheduledChecks: !!job && (job.status === 'PENDING' || job.status === 'RUNNING'),
+      job,
+    };
   }
 }
 
@@ -1,4 +1,6 @@
 import prisma from '../config/database';
+import { leaseService } from './leaseService';
+import { ServiceLeaseStatus } from '../types/job';
 
 export interface CoinGeckoResponse {
   tether: Record<string, number>;
@@ -17,26 +19,30 @@ export class CurrencyService {
 
   private updateInterval: NodeJS.Timeout | null = null;
   private readonly MARKUP_PERCENTAGE = 3; // 3% markup
+  private readonly UPDATE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+  private readonly LEASE_NAME = 'currency_rates';
 
-  constructor() {
-    this.startPeriodicUpdates();
-  }
+  // ✅ ОБНОВЛЕНО: Периодические обновления запускаются из server.ts, а не в конструкторе
 
   // Start periodic updates every hour
   startPeriodicUpdates(): void {
+    if (this.updateInterval) {
+      return;
+    }
+
     // Update immediately on start
-    this.updateCurrencyRates().catch(error => {
+    this.runScheduledUpdate().catch(error => {
       console.error('Initial currency rates update failed:', error);
     });
 
     // Set up hourly updates
     this.updateInterval = setInterval(async () => {
       try {
-        await this.updateCurrencyRates();
+        await this.runScheduledUpdate();
       } catch (error) {
         console.error('Periodic currency rates update failed:', error);
       }
-    }, 60 * 60 * 1000); // 1 hour in milliseconds
+    }, this.UPDATE_INTERVAL_MS);
 
     console.log('✅ Currency rates service started with hourly updates');
   }
@@ -50,6 +56,11 @@ export class CurrencyService {
     }
   }
 
+  // ✅ ДОБАВЛЕНО: Плановое обновление выполняет только инстанс-владелец аренды
+  private async runScheduledUpdate(): Promise<void> {
+    await leaseService.runExclusive(this.LEASE_NAME, this.UPDATE_INTERVAL_MS * 2, () => this.updateCurrencyRates());
+  }
+
   // Fetch and update currency rates from CoinGecko
   async updateCurrencyRates(): Promise<void> {
     try {
@@ -202,9 +213,10 @@ export class CurrencyService {
     lastUpdated: Date | null;
     oldestRate: Date | null;
     markupPercentage: number;
+    lock?: ServiceLeaseStatus;
   }> {
     try {
-      const [totalRates, lastUpdated, oldestRate] = await Promise.all([
+      const [totalRates, lastUpdated, oldestRate, lock] = await Promise.all([
         prisma.currencyRate.count(),
         prisma.currencyRate.findFirst({
           orderBy: { updatedAt: 'desc' },
@@ -214,6 +226,7 @@ export class CurrencyService {
           orderBy: { updatedAt: 'asc' },
           select: { updatedAt: true },
         }),
+        leaseService.getLeaseStatus(this.LEASE_NAME),
       ]);
 
       return {
@@ -221,6 +234,7 @@ export class CurrencyService {
         lastUpdated: lastUpdated?.updatedAt || null,
         oldestRate: oldestRate?.updatedAt || null,
         markupPercentage: this.MARKUP_PERCENTAGE,
+        lock,
       };
     } catch (error) {
       console.error('Error getting rates status:', error);
@@ -0,0 +1,471 @@
+import prisma from '../config/database';
+import { WebhookService } from './webhookService';
+import { telegramBotService } from './telegramBotService';
+import { jobService } from './jobService';
+import { createError } from '../middleware/errorHandler';
+import {
+  CreateDisputeRequest,
+  UpdateDisputeRequest,
+  ResolveDisputeRequest,
+  DisputeEvidenceFile,
+  DisputeResponse,
+  DisputeFilters,
+} from '../types/dispute';
+
+// ✅ ДОБАВЛЕНО: Споры (chargeback) по платежам.
+// Админ открывает спор по оплаченному платежу, магазин получает уведомление в Telegram и отвечает
+// с доказательствами до responseDeadline (напоминание за DEADLINE_REMINDER_HOURS до срока).
+// Проигранный спор переводит платеж в CHARGEBACK тем же путем, что и статус от шлюза.
+export class DisputeService {
+  private webhookService: WebhookService;
+  private readonly REMINDER_CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 час
+  private readonly DEADLINE_REMINDER_HOURS = 48;
+  private readonly MAX_EVIDENCE_FILES = 20; // На один спор
+
+  constructor() {
+    this.webhookService = new WebhookService();
+
+    jobService.registerRecurring('disputes.deadline_reminder', this.REMINDER_CHECK_INTERVAL_MS, async () => {
+      await this.sendDeadlineReminders();
+    });
+  }
+
+  async openDispute(data: CreateDisputeRequest, adminId?: string): Promise<DisputeResponse> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: data.paymentId },
+      select: {
+        id: true,
+        shopId: true,
+        amount: true,
+        currency: true,
+        status: true,
+      },
+    });
+
+    if (!payment) {
+      throw createError('Payment not found', 404);
+    }
+
+    if (payment.status !== 'PAID') {
+      throw createError(`Disputes can only be opened for paid payments (current status: ${payment.status})`, 409);
+    }
+
+    const amount = data.amount ?? payment.amount;
+    if (amount > payment.amount) {
+      throw createError(`Dispute amount cannot exceed payment amount (${payment.amount} ${payment.currency})`, 400);
+    }
+
+    // ✅ ИСПРАВЛЕНО: Блокировка строки платежа - параллельные запросы не откроют по платежу два спора
+    const dispute = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM payments WHERE id = ${payment.id} FOR UPDATE`;
+
+      const openDispute = await tx.dispute.findFirst({
+        where: { paymentId: payment.id, status: 'OPEN' },
+        select: { id: true },
+      });
+
+      if (openDispute) {
+        throw createError(`Payment already has an open dispute (${openDispute.id})`, 409);
+      }
+
+      return tx.dispute.create({
+        data: {
+          paymentId: payment.id,
+          shopId: payment.shopId,
+          reasonCode: data.reasonCode,
+          reason: data.reason,
+          amount,
+          currency: payment.currency,
+          penalty: data.penalty ?? 0,
+          responseDeadline: new Date(data.responseDeadline),
+          openedBy: adminId,
+        },
+      });
+    });
+
+    console.log(`⚠️ Dispute ${dispute.id} opened for payment ${payment.id} (${dispute.reasonCode}), deadline ${dispute.responseDeadline.toISOString()}`);
+
+    await this.notifyShop(dispute, 'opened');
+
+    return (await this.getDisputeById(dispute.id))!;
+  }
+
+  async updateDispute(disputeId: string, data: UpdateDisputeRequest): Promise<DisputeResponse> {
+    const dispute = await this.getOpenDispute(disputeId);
+
+    if (data.amount !== undefined) {
+      const payment = await prisma.payment.findUniqueOrThrow({
+        where: { id: dispute.paymentId },
+        select: { amount: true, currency: true },
+      });
+
+      if (data.amount > payment.amount) {
+        throw createError(`Dispute amount cannot exceed payment amount (${payment.amount} ${payment.currency})`, 400);
+      }
+    }
+
+    await prisma.dispute.update({
+      where: { id: disputeId },
+      data: {
+        ...(data.reasonCode !== undefined && { reasonCode: data.reasonCode }),
+        ...(data.reason !== undefined && { reason: data.reason }),
+        ...(data.amount !== undefined && { amount: data.amount }),
+        ...(data.penalty !== undefined && { penalty: data.penalty }),
+        // Новый срок - напоминание отправляется заново
+        ...(data.responseDeadline !== undefined && {
+          responseDeadline: new Date(data.responseDeadline),
+          deadlineReminderSentAt: null,
+        }),
+      },
+    });
+
+    return (await this.getDisputeById(disputeId))!;
+  }
+
+  // Ответ магазина (можно обновлять до дедлайна)
+  async respondToDispute(
+    shopId: string,
+    disputeId: string,
+    response: string,
+    files: DisputeEvidenceFile[] = []
+  ): Promise<DisputeResponse> {
+    const dispute = await this.getOpenDispute(disputeId, shopId);
+
+    if (dispute.responseDeadline < new Date()) {
+      throw createError('Dispute response deadline has passed', 409);
+    }
+
+    await prisma.dispute.update({
+      where: { id: disputeId },
+      data: {
+        merchantResponse: response,
+        respondedAt: new Date(),
+      },
+    });
+
+    if (files.length > 0) {
+      await this.saveEvidence(disputeId, files, 'shop');
+    }
+
+    console.log(`📨 Shop ${shopId} responded to dispute ${disputeId} (${files.length} evidence files)`);
+
+    return (await this.getDisputeById(disputeId, shopId))!;
+  }
+
+  // Магазин добавляет доказательства до дедлайна, админ - пока спор открыт
+  async addEvidence(
+    disputeId: string,
+    files: DisputeEvidenceFile[],
+    uploadedBy: 'shop' | 'admin',
+    description?: string,
+    shopId?: string
+  ): Promise<DisputeResponse> {
+    const dispute = await this.getOpenDispute(disputeId, shopId);
+
+    if (uploadedBy === 'shop' && dispute.responseDeadline < new Date()) {
+      throw createError('Dispute response deadline has passed', 409);
+    }
+
+    if (files.length === 0) {
+      throw createError('At least one evidence file is required', 400);
+    }
+
+    await this.saveEvidence(disputeId, files, uploadedBy, description);
+
+    return (await this.getDisputeById(disputeId, shopId))!;
+  }
+
+  async getEvidenceFile(
+    disputeId: string,
+    evidenceId: string,
+    shopId?: string
+  ): Promise<{ fileName: string; mimeType: string; data: Buffer } | null> {
+    const evidence = await prisma.disputeEvidence.findFirst({
+      where: {
+        id: evidenceId,
+        disputeId,
+        ...(shopId && { dispute: { shopId } }),
+      },
+    });
+
+    if (!evidence) return null;
+
+    return {
+      fileName: evidence.fileName,
+      mimeType: evidence.mimeType,
+      data: Buffer.from(evidence.data),
+    };
+  }
+
+  async resolveDispute(disputeId: string, data: ResolveDisputeRequest, adminId?: string): Promise<DisputeResponse> {
+    const dispute = await this.getOpenDispute(disputeId);
+    const penalty = data.penalty ?? dispute.penalty;
+
+    // Условное обновление: спор закрывается один раз
+    const result = await prisma.dispute.updateMany({
+      where: { id: disputeId, status: 'OPEN' },
+      data: {
+        status: data.outcome,
+        penalty,
+        resolutionNotes: data.notes,
+        resolvedBy: adminId || 'admin',
+        resolvedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      throw createError('Dispute is already resolved', 409);
+    }
+
+    console.log(`⚖️ Dispute ${disputeId} resolved as ${data.outcome} (penalty: ${penalty} USDT)`);
+
+    if (data.outcome === 'LOST') {
+      await this.applyChargeback(dispute.paymentId, disputeId, penalty, data.notes);
+    }
+
+    const resolved = await prisma.dispute.findUniqueOrThrow({ where: { id: disputeId } });
+    await this.notifyShop(resolved, data.outcome === 'WON' ? 'won' : 'lost');
+
+    return (await this.getDisputeById(disputeId))!;
+  }
+
+  async sendDeadlineReminders(): Promise<number> {
+    const now = new Date();
+    const reminderFrom = new Date(now.getTime() + this.DEADLINE_REMINDER_HOURS * 60 * 60 * 1000);
+
+    const disputes = await prisma.dispute.findMany({
+      where: {
+        status: 'OPEN',
+        respondedAt: null,
+        deadlineReminderSentAt: null,
+        responseDeadline: { gt: now, lte: reminderFrom },
+      },
+    });
+
+    let sent = 0;
+
+    for (const dispute of disputes) {
+      // Отметка до отправки: при нескольких инстансах напоминание уходит один раз
+      const claimed = await prisma.dispute.updateMany({
+        where: { id: dispute.id, deadlineReminderSentAt: null },
+        data: { deadlineReminderSentAt: now },
+      });
+
+      if (claimed.count === 0) continue;
+
+      await this.notifyShop(dispute, 'deadline');
+      sent++;
+    }
+
+    if (sent > 0) {
+      console.log(`⏳ Sent ${sent} dispute deadline reminders`);
+    }
+
+    return sent;
+  }
+
+  async getDisputes(filters: DisputeFilters, shopId?: string): Promise<{
+    disputes: DisputeResponse[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const { page, limit, status, paymentId } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    // Для магазина - только его споры
+    if (shopId || filters.shopId) {
+      where.shopId = shopId || filters.shopId;
+    }
+
+    if (status) {
+      where.status = status.toUpperCase();
+    }
+
+    if (paymentId) {
+      where.paymentId = paymentId;
+    }
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { responseDeadline: 'asc' },
+        include: this.disputeInclude(),
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    return {
+      disputes: disputes.map(dispute => this.formatDispute(dispute)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getDisputeById(disputeId: string, shopId?: string): Promise<DisputeResponse | null> {
+    const dispute = await prisma.dispute.findFirst({
+      where: {
+        id: disputeId,
+        ...(shopId && { shopId }),
+      },
+      include: this.disputeInclude(),
+    });
+
+    return dispute ? this.formatDispute(dispute) : null;
+  }
+
+  private async applyChargeback(paymentId: string, disputeId: string, penalty: number, notes?: string): Promise<void> {
+    const payment = await prisma.payment.update({
+      where: { id: paymentId },
+      data: { chargebackAmount: penalty },
+      include: {
+        shop: {
+          select: {
+            id: true,
+            name: true,
+            settings: {
+              select: {
+                webhookUrl: true,
+                webhookEvents: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    // История статусов, webhook payment.chargeback (с chargeback_amount) и уведомление в Telegram
+    const transition = await this.webhookService.applyGatewayStatus(payment, 'CHARGEBACK', {
+      source: 'dispute',
+      reason: { disputeId, penalty, ...(notes && { notes }) },
+    });
+
+    if (!transition.changed) {
+      console.warn(`⚠️ Payment ${paymentId} was not moved to CHARGEBACK after lost dispute ${disputeId} (status: ${transition.oldStatus})`);
+    }
+  }
+
+  private async saveEvidence(
+    disputeId: string,
+    files: DisputeEvidenceFile[],
+    uploadedBy: 'shop' | 'admin',
+    description?: string
+  ): Promise<void> {
+    const existingCount = await prisma.disputeEvidence.count({ where: { disputeId } });
+
+    if (existingCount + files.length > this.MAX_EVIDENCE_FILES) {
+      throw createError(`A dispute can have at most ${this.MAX_EVIDENCE_FILES} evidence files`, 400);
+    }
+
+    await prisma.disputeEvidence.createMany({
+      data: files.map(file => ({
+        disputeId,
+        uploadedBy,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        data: file.buffer,
+        description,
+      })),
+    });
+  }
+
+  private async getOpenDispute(disputeId: string, shopId?: string) {
+    const dispute = await prisma.dispute.findFirst({
+      where: {
+        id: disputeId,
+        ...(shopId && { shopId }),
+      },
+    });
+
+    if (!dispute) {
+      throw createError('Dispute not found', 404);
+    }
+
+    if (dispute.status !== 'OPEN') {
+      throw createError(`Dispute is already resolved (${dispute.status})`, 409);
+    }
+
+    return dispute;
+  }
+
+  private async notifyShop(dispute: any, event: 'opened' | 'deadline' | 'won' | 'lost'): Promise<void> {
+    try {
+      await telegramBotService.sendDisputeNotification(dispute.shopId, dispute, event);
+    } catch (error) {
+      console.error(`Failed to send dispute ${event} notification for dispute ${dispute.id}:`, error);
+    }
+  }
+
+  // Содержимое файлов не загружается в списки - только метаданные
+  private disputeInclude() {
+    return {
+      evidence: {
+        select: {
+          id: true,
+          uploadedBy: true,
+          fileName: true,
+          mimeType: true,
+          size: true,
+          description: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' as const },
+      },
+      payment: {
+        select: {
+          id: true,
+          gateway: true,
+          amount: true,
+          currency: true,
+          status: true,
+          orderId: true,
+        },
+      },
+      shop: {
+        select: {
+          name: true,
+          username: true,
+        },
+      },
+    };
+  }
+
+  private formatDispute(dispute: any): DisputeResponse {
+    return {
+      id: dispute.id,
+      paymentId: dispute.paymentId,
+      shopId: dispute.shopId,
+      reasonCode: dispute.reasonCode,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      penalty: dispute.penalty,
+      status: dispute.status,
+      responseDeadline: dispute.responseDeadline,
+      isOverdue: dispute.status === 'OPEN' && dispute.responseDeadline < new Date(),
+      merchantResponse: dispute.merchantResponse,
+      respondedAt: dispute.respondedAt,
+      resolutionNotes: dispute.resolutionNotes,
+      resolvedAt: dispute.resolvedAt,
+      createdAt: dispute.createdAt,
+      updatedAt: dispute.updatedAt,
+      evidence: dispute.evidence || [],
+      ...(dispute.payment && { payment: dispute.payment }),
+      ...(dispute.shop && { shop: dispute.shop }),
+    };
+  }
+}
+
+export const disputeService = new DisputeService();
@@ -1,4 +1,6 @@
 import fetch from 'node-fetch';
+import { leaseService } from './leaseService';
+import { ServiceLeaseStatus } from '../types/job';
 
 export class DomainMonitoringService {
   private monitoringInterval: NodeJS.Timeout | null = null;
@@ -7,6 +9,7 @@ export class DomainMonitoringService {
   private readonly TIMEOUT_MS = 30000; // 30 секунд таймаут
   private consecutiveFailures = 0;
   private readonly MAX_CONSECUTIVE_FAILURES = 2; // Крашим после 2 неудачных попыток подряд
+  private readonly LEASE_NAME = 'domain_monitoring';
 
   constructor() {
     console.log('🔍 Domain monitoring service initialized');
@@ -107,6 +110,17 @@ export class DomainMonitoringService {
     }
   }
 
+  // ✅ ДОБАВЛЕНО: Плановую проверку выполняет только инстанс-владелец аренды; пропуск не считается ошибкой
+  private async runScheduledCheck(): Promise<boolean> {
+    let success = true;
+
+    await leaseService.runExclusive(this.LEASE_NAME, this.CHECK_INTERVAL_MS * 2, async () => {
+      success = await this.checkDomain();
+    });
+
+    return success;
+  }
+
   // Крашим сервер при критической ошибке
   private crashServer(reason: string): void {
     console.error(`💥 CRITICAL ERROR: ${reason}`);
@@ -134,7 +148,7 @@ export class DomainMonitoringService {
     console.log(`🚨 Max failures before crash: ${this.MAX_CONSECUTIVE_FAILURES}`);
 
     // Выполняем первую проверку сразу
-    this.checkDomain().then(success => {
+    this.runScheduledCheck().then(success => {
       if (!success && this.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
         this.crashServer(`Initial domain check failed ${this.consecutiveFailures} times`);
         return;
@@ -150,7 +164,7 @@ export class DomainMonitoringService {
     // Устанавливаем периодические проверки
     this.monitoringInterval = setInterval(async () => {
       try {
-        const success = await this.checkDomain();
+        const success = await this.runScheduledCheck();
         
         if (!success) {
           console.warn(`⚠️ Domain check failed (${this.consecutiveFailures}/${this.MAX_CONSECUTIVE_FAILURES})`);
@@ -181,14 +195,17 @@ export class DomainMonitoringService {
   }
 
   // Получаем статистику мониторинга
-  getMonitoringStats(): {
+  async getMonitoringStats(): Promise<{
     isActive: boolean;
     targetDomain: string;
     checkIntervalMinutes: number;
     consecutiveFailures: number;
     maxFailuresAllowed: number;
     nextCheckIn?: number;
-  } {
+    lock: ServiceLeaseStatus;
+  }> {
+    const lock = await leaseService.getLeaseStatus(this.LEASE_NAME);
+
     return {
       isActive: !!this.monitoringInterval,
       targetDomain: this.DOMAIN_URL,
@@ -196,6 +213,7 @@ export class DomainMonitoringService {
       consecutiveFailures: this.consecutiveFailures,
       maxFailuresAllowed: this.MAX_CONSECUTIVE_FAILURES,
       nextCheckIn: this.monitoringInterval ? this.CHECK_INTERVAL_MS : undefined,
+      lock,
     };
   }
 
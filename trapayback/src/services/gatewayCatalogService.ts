@@ -0,0 +1,306 @@
+import prisma from '../config/database';
+import {
+  AVAILABLE_GATEWAYS,
+  GATEWAY_INFO,
+  GATEWAY_ID_MAP,
+  GatewayInfo,
+  CreateGatewayRequest,
+  UpdateGatewayRequest,
+} from '../types/gateway';
+
+// ✅ ДОБАВЛЕНО: Каталог шлюзов из таблицы gateways с кэшем в памяти.
+// Кэш обновляется сразу после изменений через админку и раз в минуту из БД
+// (на случай нескольких инстансов), поэтому валидаторы Joi могут читать его синхронно.
+export class GatewayCatalogService {
+  private gateways: Map<string, GatewayInfo> = new Map();
+  private lastRefresh = 0;
+  private refreshPromise: Promise<void> | null = null;
+  private readonly CACHE_TTL = 60 * 1000; // 1 минута
+
+  constructor() {
+    // До первой загрузки из БД используем встроенные значения
+    for (const gateway of this.getDefaultGateways()) {
+      this.gateways.set(gateway.id, gateway);
+    }
+  }
+
+  private getDefaultGateways(): GatewayInfo[] {
+    return AVAILABLE_GATEWAYS.map(gateway => {
+      const info = GATEWAY_INFO[gateway.id];
+
+      return {
+        ...gateway,
+        telegramDisplayName: info?.displayName,
+        description: info?.description,
+        features: info?.features,
+        color: info?.color,
+        fee: info?.fee,
+        payout: info?.payout,
+      };
+    });
+  }
+
+  private formatGateway(gateway: any): GatewayInfo {
+    return {
+      id: gateway.id,
+      name: gateway.name,
+      displayName: gateway.displayName,
+      telegramDisplayName: gateway.telegramDisplayName || undefined,
+      region: gateway.region || undefined,
+      isActive: gateway.isActive,
+      description: gateway.description || undefined,
+      features: Array.isArray(gateway.features) ? gateway.features : undefined,
+      color: gateway.color || undefined,
+      fee: gateway.fee || undefined,
+      payout: gateway.payout || undefined,
+    };
+  }
+
+  // Создает недостающие записи для встроенных шлюзов и загружает каталог
+  async initialize(): Promise<void> {
+    try {
+      const result = await prisma.gateway.createMany({
+        data: this.getDefaultGateways().map(gateway => ({
+          id: gateway.id,
+          name: gateway.name,
+          displayName: gateway.displayName,
+          telegramDisplayName: gateway.telegramDisplayName,
+          description: gateway.description,
+          region: gateway.region,
+          features: gateway.features,
+          color: gateway.color,
+          fee: gateway.fee,
+          payout: gateway.payout,
+          isActive: gateway.isActive,
+        })),
+        skipDuplicates: true,
+      });
+
+      if (result.count > 0) {
+        console.log(`🔌 Seeded ${result.count} gateways into catalog`);
+      }
+
+      await this.refresh();
+      console.log(`🔌 Gateway catalog loaded: ${this.gateways.size} gateways`);
+    } catch (error) {
+      console.error('❌ Failed to initialize gateway catalog, using built-in defaults:', error);
+    }
+  }
+
+  // force = true после изменений: не переиспользуем загрузку, начатую до записи
+  async refresh(force: boolean = false): Promise<void> {
+    if (this.refreshPromise) {
+      if (!force) {
+        return this.refreshPromise;
+      }
+      await this.refreshPromise;
+    }
+
+    this.refreshPromise = (async () => {
+      try {
+        const rows = await prisma.gateway.findMany({
+          orderBy: { id: 'asc' },
+        });
+
+        const gateways = new Map<string, GatewayInfo>();
+        for (const row of rows) {
+          gateways.set(row.id, this.formatGateway(row));
+        }
+
+        this.gateways = gateways;
+      } catch (error) {
+        console.error('❌ Failed to refresh gateway catalog:', error);
+      } finally {
+        this.lastRefresh = Date.now();
+        this.refreshPromise = null;
+      }
+    })();
+
+    return this.refreshPromise;
+  }
+
+  // Синхронные методы отдают кэш и при необходимости обновляют его в фоне
+  private refreshIfStale(): void {
+    if (Date.now() - this.lastRefresh > this.CACHE_TTL) {
+      this.refresh().catch(() => {});
+    }
+  }
+
+  getAll(): GatewayInfo[] {
+    this.refreshIfStale();
+    return Array.from(this.gateways.values());
+  }
+
+  getActive(): GatewayInfo[] {
+    return this.getAll().filter(gateway => gateway.isActive);
+  }
+
+  getById(gatewayId: string): GatewayInfo | null {
+    this.refreshIfStale();
+    return this.gateways.get(gatewayId) || null;
+  }
+
+  getByName(gatewayName: string): GatewayInfo | null {
+    const lowerName = gatewayName.toLowerCase();
+    return this.getAll().find(gateway => gateway.name === lowerName) || null;
+  }
+
+  isActiveGatewayId(gatewayId: string): boolean {
+    return this.getById(gatewayId)?.isActive === true;
+  }
+
+  getDisplayNames(): string[] {
+    return this.getAll().map(gateway => gateway.displayName);
+  }
+
+  getDisplayName(gatewayName: string): string {
+    return this.getByName(gatewayName)?.displayName || gatewayName;
+  }
+
+  getTelegramDisplayName(gatewayName: string): string {
+    const gateway = this.getByName(gatewayName);
+
+    if (gateway) {
+      return gateway.telegramDisplayName || gateway.displayName;
+    }
+
+    return gatewayName.toUpperCase();
+  }
+
+  // Admin CRUD
+  async listGateways(): Promise<GatewayInfo[]> {
+    await this.refresh();
+    return Array.from(this.gateways.values());
+  }
+
+  async getGateway(gatewayId: string): Promise<GatewayInfo | null> {
+    const gateway = await prisma.gateway.findUnique({
+      where: { id: gatewayId },
+    });
+
+    return gateway ? this.formatGateway(gateway) : null;
+  }
+
+  async createGateway(gatewayData: CreateGatewayRequest): Promise<GatewayInfo> {
+    const gatewayName = GATEWAY_ID_MAP[gatewayData.id];
+
+    // Запись в каталоге имеет смысл только для шлюза, у которого есть реализация
+    if (!gatewayName) {
+      throw new Error(`No gateway implementation for ID: ${gatewayData.id}`);
+    }
+
+    const existingGateway = await prisma.gateway.findFirst({
+      where: {
+        OR: [
+          { id: gatewayData.id },
+          { displayName: gatewayData.displayName },
+        ],
+      },
+    });
+
+    if (existingGateway) {
+      throw new Error(existingGateway.id === gatewayData.id
+        ? `Gateway ${gatewayData.id} already exists`
+        : `Display name "${gatewayData.displayName}" is already used by gateway ${existingGateway.id}`);
+    }
+
+    const gateway = await prisma.gateway.create({
+      data: {
+        ...gatewayData,
+        name: gatewayName,
+      },
+    });
+
+    console.log(`🔌 Gateway ${gateway.id} (${gateway.name}) added to catalog`);
+
+    await this.refresh(true);
+    return this.formatGateway(gateway);
+  }
+
+  async updateGateway(gatewayId: string, updateData: UpdateGatewayRequest): Promise<GatewayInfo> {
+    const existingGateway = await prisma.gateway.findUnique({
+      where: { id: gatewayId },
+    });
+
+    if (!existingGateway) {
+      throw new Error('Gateway not found');
+    }
+
+    const oldDisplayName = existingGateway.displayName;
+    const newDisplayName = updateData.displayName;
+    const isRenamed = !!newDisplayName && newDisplayName !== oldDisplayName;
+
+    if (isRenamed) {
+      const duplicate = await prisma.gateway.findFirst({
+        where: {
+          displayName: newDisplayName,
+          id: { not: gatewayId },
+        },
+      });
+
+      if (duplicate) {
+        throw new Error(`Display name "${newDisplayName}" is already used by gateway ${duplicate.id}`);
+      }
+    }
+
+    const gateway = await prisma.$transaction(async (tx) => {
+      const updatedGateway = await tx.gateway.update({
+        where: { id: gatewayId },
+        data: updateData,
+      });
+
+      // Магазины хранят включенные шлюзы по displayName - переименовываем и у них
+      if (isRenamed) {
+        const shops = await tx.shop.findMany({
+          where: { paymentGateways: { contains: `"${oldDisplayName}"` } },
+          select: { id: true, paymentGateways: true },
+        });
+
+        for (const shop of shops) {
+          try {
+            const enabledGateways: string[] = JSON.parse(shop.paymentGateways!);
+            await tx.shop.update({
+              where: { id: shop.id },
+              data: {
+                paymentGateways: JSON.stringify(
+                  enabledGateways.map(name => name === oldDisplayName ? newDisplayName : name)
+                ),
+              },
+            });
+          } catch (error) {
+            console.error(`Error updating payment gateways for shop ${shop.id}:`, error);
+          }
+        }
+
+        console.log(`🔌 Gateway ${gatewayId} renamed "${oldDisplayName}" -> "${newDisplayName}" in ${shops.length} shops`);
+      }
+
+      return updatedGateway;
+    });
+
+    console.log(`🔌 Gateway ${gateway.id} (${gateway.name}) updated, active: ${gateway.isActive}`);
+
+    await this.refresh(true);
+    return this.formatGateway(gateway);
+  }
+
+  async deleteGateway(gatewayId: string): Promise<void> {
+    const existingGateway = await prisma.gateway.findUnique({
+      where: { id: gatewayId },
+    });
+
+    if (!existingGateway) {
+      throw new Error('Gateway not found');
+    }
+
+    await prisma.gateway.delete({
+      where: { id: gatewayId },
+    });
+
+    console.log(`🔌 Gateway ${gatewayId} (${existingGateway.name}) removed from catalog`);
+
+    await this.refresh(true);
+  }
+}
+
+export const gatewayCatalogService = new GatewayCatalogService();
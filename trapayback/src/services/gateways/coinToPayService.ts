@@ -1,4 +1,15 @@
 import { loggerService } from '../loggerService';
+import { webhookSignatureService } from '../webhookSignatureService';
+import {
+  PaymentGateway,
+  GatewayCapabilities,
+  GatewayCreatePaymentParams,
+  GatewayCreatePaymentResult,
+  GatewayVerifyResult,
+  GatewayWebhookResult,
+  GatewayPaymentStatus,
+  GatewayWebhookContext,
+} from '../../types/gateway';
 
 export interface CoinToPayPaymentLinkRequest {
   paymentId: string;
@@ -71,7 +82,20 @@ export interface CoinToPayStatusResponse {
   };
 }
 
-export class CoinToPayService {
+export class CoinToPayService implements PaymentGateway {
+  readonly id = '0100';
+  readonly name = 'cointopay';
+  readonly provider = 'cointopay';
+  readonly displayName = 'CoinToPay';
+  readonly capabilities: GatewayCapabilities = {
+    fixedCurrency: 'EUR', // ✅ CoinToPay всегда работает в EUR
+    requiresSourceCurrency: false,
+    statusPolling: true,
+    pendingOnReturn: true,
+    hostedCheckout: false,
+    paymentTtlHours: 5 * 24, // 5 дней до автоматического истечения
+  };
+
   private apiUrl: string;
   private statusUrl: string; // ✅ ДОБАВЛЕНО: URL для проверки статуса
 
@@ -84,6 +108,25 @@ export class CoinToPayService {
     console.log('📊 Status check URL:', this.statusUrl);
   }
 
+  async createPayment(params: GatewayCreatePaymentParams): Promise<GatewayCreatePaymentResult> {
+    console.log(`🪙 Creating CoinToPay payment with gateway order_id: ${params.gatewayOrderId} (8digits-8digits format)`);
+    console.log(`💰 Amount: ${params.amount} EUR (always EUR for CoinToPay)`);
+
+    const coinToPayResult = await this.createPaymentLink({
+      paymentId: params.paymentId,
+      orderId: params.gatewayOrderId,
+      amount: params.amount, // Only amount needed, always in EUR
+    });
+
+    return {
+      gatewayPaymentId: coinToPayResult.gateway_payment_id,
+      externalPaymentUrl: coinToPayResult.payment_url,
+      paymentUpdates: {
+        currency: this.capabilities.fixedCurrency, // ✅ Force EUR for CoinToPay
+      },
+    };
+  }
+
   async createPaymentLink(paymentData: CoinToPayPaymentLinkRequest): Promise<CoinToPayPaymentLinkResponse> {
     const {
       orderId,
@@ -393,11 +436,7 @@ export class CoinToPayService {
     }
   }
 
-  async verifyPayment(gatewayPaymentId: string): Promise<{
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-  }> {
+  async verifyPayment(gatewayPaymentId: string): Promise<GatewayVerifyResult> {
     // ✅ ОБНОВЛЕНО: Use the new status check method
     const statusResult = await this.checkPaymentStatus(gatewayPaymentId);
     
@@ -408,22 +447,37 @@ export class CoinToPayService {
     };
   }
 
-  // Method for processing webhook from CoinToPay (kept for compatibility, but not used)
-  async processWebhook(webhookData: any): Promise<{
-    paymentId: string;
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-  }> {
-    console.log('Processing CoinToPay webhook (deprecated - use status check instead):', webhookData);
-    
-    // ✅ ОБНОВЛЕНО: Updated status mapping for webhook (if ever used)
-    let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
-    
-    switch (webhookData.status?.toLowerCase()) {
-      case 'paid': // ✅ Только "paid" считается успешным
+  // ✅ ДОБАВЛЕНО: Callback CoinToPay приходит через прокси tesoft.uk - проверяем подпись прокси
+  verifyWebhookSignature(context: GatewayWebhookContext): boolean {
+    return webhookSignatureService.verifyGatewayProxySignature(this.provider, context);
+  }
+
+  // Разбор webhook CoinToPay (основной источник статусов - периодическая проверка статуса)
+  parseWebhook(webhookData: any): GatewayWebhookResult {
+    const {
+      order_id: orderId,
+      gateway_payment_id: gatewayPaymentId,
+      status: coinToPayStatus,
+      amount,
+      currency,
+    } = webhookData;
+
+    if (!orderId && !gatewayPaymentId) {
+      throw new Error('Missing required webhook data: order_id or gateway_payment_id');
+    }
+
+    let status: GatewayPaymentStatus;
+
+    switch (coinToPayStatus?.toLowerCase()) {
+      case 'paid':
+      case 'completed':
+      case 'confirmed':
         status = 'PAID';
         break;
+      case 'processing':
+      case 'confirming':
+        status = 'PROCESSING'; // ✅ ДОБАВЛЕНО: Промежуточные статусы -> PROCESSING
+        break;
       case 'cancelled':
       case 'failed':
       case 'error':
@@ -435,18 +489,52 @@ export class CoinToPayService {
         break;
       case 'pending':
       case 'waiting':
-      case 'awaiting fiat': // ✅ "Awaiting Fiat" остается PENDING
       case 'created':
       default:
         status = 'PENDING';
         break;
     }
-    
+
+    console.log(`🔄 CoinToPay status mapping: "${coinToPayStatus}" -> "${status}"`);
+
     return {
-      paymentId: webhookData.order_id || webhookData.merchant_reference_id || '',
+      gatewayPaymentId,
+      reference: orderId,
       status,
-      amount: webhookData.amount,
-      currency: webhookData.currency || 'EUR',
+      event: coinToPayStatus,
+      amount,
+      currency: currency || 'EUR',
     };
   }
+
+  // ✅ ДОБАВЛЕНО: Логирование статусов CoinToPay, пришедших через webhook
+  onWebhookStatus(
+    paymentId: string,
+    gatewayPaymentId: string,
+    oldStatus: string,
+    newStatus: string,
+    webhookData: any
+  ): void {
+    const logData = {
+      type: 'COINTOPAY_WEBHOOK_STATUS_CHANGE',
+      paymentId,
+      gatewayPaymentId,
+      oldStatus,
+      newStatus,
+      source: 'webhook',
+      timestamp: new Date().toISOString(),
+      webhookData: oldStatus === newStatus
+        ? { ...webhookData, statusUnchanged: true, note: 'Webhook received but status unchanged' }
+        : webhookData,
+    };
+
+    // Логируем в специальный файл для CoinToPay статусов
+    loggerService.logCoinToPayStatus(logData);
+
+    console.log(`🪙 CoinToPay Webhook Status Change: ${paymentId} (${gatewayPaymentId})`);
+    console.log(`   📊 Status: ${oldStatus} -> ${newStatus}`);
+    console.log(`   📍 Source: webhook`);
+    console.log(`   📅 Time: ${logData.timestamp}`);
+    console.log(`   📝 Webhook Data:`, logData.webhookData);
+  }
 }
\ No newline at end of file
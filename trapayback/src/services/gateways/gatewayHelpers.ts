@@ -0,0 +1,186 @@
+import prisma from '../../config/database';
+import { PaymentGateway, GatewayCreatePaymentParams, GatewayCreatePaymentResult } from '../../types/gateway';
+import { coinToPayStatusService } from '../coinToPayStatusService';
+import { gatewayCatalogService } from '../gatewayCatalogService';
+
+// Общие помощники для создания платежей через любой шлюз из gatewayRegistry
+
+// Generate gateway order ID in format xxxxxxxx-xxxxxxxx (8digits-8digits) for ALL gateways with uniqueness check
+export async function generateGatewayOrderId(): Promise<string> {
+  let gatewayOrderId: string;
+  let attempts = 0;
+  const maxAttempts = 10;
+
+  do {
+    const generateSegment = () => {
+      return Math.floor(Math.random() * 100000000).toString().padStart(8, '0');
+    };
+
+    gatewayOrderId = `${generateSegment()}-${generateSegment()}`;
+
+    const existingPayment = await prisma.payment.findFirst({
+      where: { gatewayOrderId },
+    });
+
+    if (!existingPayment) {
+      break;
+    }
+
+    attempts++;
+    console.log(`⚠️ Gateway order ID ${gatewayOrderId} already exists, generating new one (attempt ${attempts})`);
+
+  } while (attempts < maxAttempts);
+
+  if (attempts >= maxAttempts) {
+    throw new Error('Failed to generate unique gateway order ID after maximum attempts');
+  }
+
+  return gatewayOrderId;
+}
+
+// Success/Fail URL для шлюза (finalXxxUrl) и для сохранения в БД (dbXxxUrl)
+export function generateGatewayUrls(gateway: PaymentGateway, paymentId: string, baseUrl: string, successUrl?: string, failUrl?: string): {
+  finalSuccessUrl: string;
+  finalFailUrl: string;
+  dbSuccessUrl: string;
+  dbFailUrl: string;
+} {
+  if (successUrl && failUrl) {
+    return {
+      finalSuccessUrl: successUrl,
+      finalFailUrl: failUrl,
+      dbSuccessUrl: successUrl,
+      dbFailUrl: failUrl,
+    };
+  }
+
+  let finalSuccessUrl: string;
+  let dbSuccessUrl: string;
+
+  if (successUrl) {
+    finalSuccessUrl = successUrl;
+    dbSuccessUrl = successUrl;
+  } else if (gateway.capabilities.pendingOnReturn) {
+    // ✅ Для Noda, KLYME и CoinToPay: /payment/pending после возврата клиента
+    finalSuccessUrl = `${baseUrl}/gateway/pending.php?id=${paymentId}`;
+    dbSuccessUrl = `https://app.trapay.uk/payment/pending?id=${paymentId}`;
+  } else {
+    finalSuccessUrl = `${baseUrl}/gateway/success.php?id=${paymentId}`;
+    dbSuccessUrl = `https://app.trapay.uk/payment/success?id=${paymentId}`;
+  }
+
+  const finalFailUrl = failUrl || `${baseUrl}/gateway/fail.php?id=${paymentId}`;
+  const dbFailUrl = failUrl || `https://app.trapay.uk/payment/fail?id=${paymentId}`;
+
+  console.log(`🔗 Generated URLs for ${gateway.name} with payment ID ${paymentId}:`);
+  console.log(`   🌐 Gateway Success URL: ${finalSuccessUrl}`);
+  console.log(`   🌐 Gateway Fail URL: ${finalFailUrl}`);
+  console.log(`   💾 DB Success URL: ${dbSuccessUrl}`);
+  console.log(`   💾 DB Fail URL: ${dbFailUrl}`);
+
+  return { finalSuccessUrl, finalFailUrl, dbSuccessUrl, dbFailUrl };
+}
+
+// Ссылка на страницу оплаты, которую мы отдаем мерчанту
+export function getPaymentPageUrl(gateway: PaymentGateway | null, paymentId: string): string {
+  if (gateway?.capabilities.hostedCheckout) {
+    return `https://app.trapay.uk/payment/${paymentId}`;
+  }
+
+  return `https://tesoft.uk/gateway/payment.php?id=${paymentId}`;
+}
+
+export function validateGatewayCurrency(gateway: PaymentGateway, currency: string): void {
+  const { supportedCurrencies } = gateway.capabilities;
+  if (!supportedCurrencies) return;
+
+  const upperCurrency = currency.toUpperCase();
+
+  if (!supportedCurrencies.includes(upperCurrency)) {
+    throw new Error(`${gateway.displayName} accepts only ${supportedCurrencies.join(', ')} currency, got: ${upperCurrency}`);
+  }
+}
+
+// Helper to check if gateway is allowed for shop
+export async function checkGatewayPermission(shopId: string, gateway: PaymentGateway): Promise<void> {
+  console.log(`🔐 Checking gateway permission for shop ${shopId}: ${gateway.name}`);
+
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      paymentGateways: true,
+    },
+  });
+
+  if (!shop) {
+    throw new Error('Shop not found');
+  }
+
+  // Parse enabled gateways from JSON string
+  let enabledGateways: string[] = [];
+
+  if (shop.paymentGateways) {
+    try {
+      enabledGateways = JSON.parse(shop.paymentGateways);
+      console.log(`🔐 Shop ${shop.username} enabled gateways:`, enabledGateways);
+    } catch (error) {
+      console.error('Error parsing payment gateways:', error);
+      // Fallback to default gateways if parsing fails
+      enabledGateways = ['Plisio'];
+    }
+  } else {
+    // Default gateway if none configured
+    enabledGateways = ['Plisio'];
+    console.log(`🔐 Shop ${shop.username} using default gateways:`, enabledGateways);
+  }
+
+  // ✅ ОБНОВЛЕНО: Название и статус шлюза берем из каталога (таблица gateways)
+  const catalogGateway = gatewayCatalogService.getById(gateway.id);
+  const gatewayDisplayName = catalogGateway?.displayName || gateway.displayName;
+
+  if (!catalogGateway?.isActive) {
+    console.error(`❌ Gateway "${gatewayDisplayName}" is disabled in gateway catalog`);
+    throw new Error(`Gateway "${gatewayDisplayName}" is currently unavailable. Please choose another gateway.`);
+  }
+
+  if (!enabledGateways.includes(gatewayDisplayName)) {
+    console.error(`❌ Gateway "${gatewayDisplayName}" not allowed for shop ${shop.username}`);
+    console.error(`❌ Enabled gateways: ${enabledGateways.join(', ')}`);
+
+    throw new Error(
+      `Gateway "${gatewayDisplayName}" is not enabled for your shop. ` +
+      `Enabled gateways: ${enabledGateways.join(', ')}. ` +
+      `Please contact support to enable additional gateways.`
+    );
+  }
+
+  console.log(`✅ Gateway "${gatewayDisplayName}" is allowed for shop ${shop.username}`);
+}
+
+// Создает платеж на стороне шлюза и сохраняет результат в уже созданный платеж
+export async function initiateGatewayPayment(
+  gateway: PaymentGateway,
+  params: GatewayCreatePaymentParams
+): Promise<GatewayCreatePaymentResult> {
+  const result = await gateway.createPayment(params);
+
+  await prisma.payment.update({
+    where: { id: params.paymentId },
+    data: {
+      externalPaymentUrl: result.externalPaymentUrl,
+      gatewayPaymentId: result.gatewayPaymentId,
+      ...result.paymentUpdates,
+    },
+  });
+
+  // Шлюзы без надежных webhook опрашиваем по расписанию
+  if (gateway.capabilities.statusPolling && result.gatewayPaymentId) {
+    console.log(`🪙 Scheduling individual status checks for ${gateway.displayName} payment: ${params.paymentId} (${result.gatewayPaymentId})`);
+    await coinToPayStatusService.schedulePaymentChecks(params.paymentId, result.gatewayPaymentId);
+  }
+
+  return result;
+}
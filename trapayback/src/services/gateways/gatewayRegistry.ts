@@ -0,0 +1,75 @@
+import { PaymentGateway, GATEWAY_ID_MAP, getGatewayNameById, isValidGatewayId } from '../../types/gateway';
+import { PlisioService } from './plisioService';
+import { RapydService } from './rapydService';
+import { NodaService } from './nodaService';
+import { CoinToPayService } from './coinToPayService';
+import { KlymeService } from './klymeService';
+
+// ✅ ДОБАВЛЕНО: Реестр платежных шлюзов по ID из GATEWAY_ID_MAP.
+// Чтобы подключить новый шлюз, достаточно реализовать PaymentGateway и зарегистрировать его здесь.
+export class GatewayRegistry {
+  private gateways = new Map<string, PaymentGateway>();
+
+  register(gateway: PaymentGateway): void {
+    if (GATEWAY_ID_MAP[gateway.id] !== gateway.name) {
+      throw new Error(`Gateway ${gateway.name} is not mapped to ID ${gateway.id} in GATEWAY_ID_MAP`);
+    }
+
+    this.gateways.set(gateway.id, gateway);
+  }
+
+  getById(gatewayId: string): PaymentGateway | null {
+    return this.gateways.get(gatewayId) || null;
+  }
+
+  getByName(gatewayName: string): PaymentGateway | null {
+    const lowerName = gatewayName.toLowerCase();
+
+    for (const gateway of this.gateways.values()) {
+      if (gateway.name === lowerName) {
+        return gateway;
+      }
+    }
+
+    return null;
+  }
+
+  // Для входящих webhook: несколько шлюзов могут делить одного провайдера (KLYME EU/GB/DE)
+  getByProvider(provider: string): PaymentGateway | null {
+    for (const gateway of this.gateways.values()) {
+      if (gateway.provider === provider) {
+        return gateway;
+      }
+    }
+
+    return null;
+  }
+
+  // Принимает ID шлюза ('0001') или его имя ('plisio')
+  resolve(gatewayIdOrName: string): PaymentGateway {
+    const gateway = isValidGatewayId(gatewayIdOrName)
+      ? this.getById(gatewayIdOrName)
+      : this.getByName(gatewayIdOrName);
+
+    if (!gateway) {
+      const gatewayName = getGatewayNameById(gatewayIdOrName) || gatewayIdOrName;
+      throw new Error(`Unsupported gateway: ${gatewayName}`);
+    }
+
+    return gateway;
+  }
+
+  getAll(): PaymentGateway[] {
+    return Array.from(this.gateways.values());
+  }
+}
+
+export const gatewayRegistry = new GatewayRegistry();
+
+gatewayRegistry.register(new PlisioService());
+gatewayRegistry.register(new RapydService());
+gatewayRegistry.register(new CoinToPayService());
+gatewayRegistry.register(new NodaService());
+gatewayRegistry.register(new KlymeService('EU'));
+gatewayRegistry.register(new KlymeService('GB'));
+gatewayRegistry.register(new KlymeService('DE'));
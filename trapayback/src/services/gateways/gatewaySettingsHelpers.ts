@@ -0,0 +1,32 @@
+import { GatewaySettings } from '../../types/shop';
+
+// ✅ ДОБАВЛЕНО: Настройки шлюзов магазина и округление сумм - общие для ShopService,
+// расчета выплат, ledger и rolling reserve
+
+// Настройки шлюза из shop.gatewaySettings (ключ - название шлюза с заглавной буквы).
+// Нет настроек или JSON поврежден - нулевые комиссия, задержка и резерв
+export function getShopGatewaySettings(gatewaySettingsJson: string | null, gateway: string): Required<GatewaySettings> {
+  const gatewayName = gateway.charAt(0).toUpperCase() + gateway.slice(1).toLowerCase();
+
+  try {
+    const gatewaySettings = gatewaySettingsJson ? JSON.parse(gatewaySettingsJson) : null;
+
+    if (gatewaySettings && gatewaySettings[gatewayName]) {
+      return {
+        commission: gatewaySettings[gatewayName].commission ?? 0,
+        payoutDelay: gatewaySettings[gatewayName].payoutDelay ?? 0,
+        reservePercent: gatewaySettings[gatewayName].reservePercent ?? 0,
+        reserveDays: gatewaySettings[gatewayName].reserveDays ?? 0,
+      };
+    }
+  } catch (error) {
+    console.error('Error parsing gateway settings:', error);
+  }
+
+  return { commission: 0, payoutDelay: 0, reservePercent: 0, reserveDays: 0 };
+}
+
+// Суммы расчетов (USDT и валюта платежа) округляются до центов
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -1,4 +1,16 @@
 import { loggerService } from '../loggerService';
+import { webhookSignatureService } from '../webhookSignatureService';
+import {
+  PaymentGateway,
+  GatewayCapabilities,
+  GatewayCreatePaymentParams,
+  GatewayCreatePaymentResult,
+  GatewayVerifyResult,
+  GatewayWebhookResult,
+  GatewayPaymentStatus,
+  GatewayWebhookContext,
+  getGatewayIdByName,
+} from '../../types/gateway';
 
 export interface KlymePaymentLinkRequest {
   paymentId: string;
@@ -25,14 +37,35 @@ export interface KlymeApiResponse {
   statusCode?: number;
 }
 
-export class KlymeService {
+export class KlymeService implements PaymentGateway {
+  readonly id: string;
+  readonly name: string;
+  readonly provider = 'klyme';
+  readonly displayName: string;
+  readonly capabilities: GatewayCapabilities;
+
+  private region: 'EU' | 'GB' | 'DE';
+
   private apiUrl: string; // ✅ ОБНОВЛЕНО: Один URL для всех регионов
 
-  constructor() {
+  constructor(region: 'EU' | 'GB' | 'DE') {
+    this.region = region;
+    this.name = `klyme_${region.toLowerCase()}`;
+    this.id = getGatewayIdByName(this.name)!;
+    this.displayName = `KLYME ${region}`;
+    this.capabilities = {
+      supportedCurrencies: [region === 'GB' ? 'GBP' : 'EUR'],
+      requiresSourceCurrency: false,
+      statusPolling: false,
+      pendingOnReturn: true,
+      hostedCheckout: true,
+      paymentTtlHours: 24,
+    };
+
     // ✅ ОБНОВЛЕНО: Единый маршрут для всех KLYME регионов
     this.apiUrl = 'https://tesoft.uk/gateway/klyme/';
     
-    console.log('💳 KLYME service initialized with unified white domain proxy for all regions');
+    console.log(`💳 KLYME ${region} service initialized with unified white domain proxy`);
   }
 
   // ✅ Валидация валют для KLYME регионов
@@ -97,6 +130,27 @@ export class KlymeService {
     return reference;
   }
 
+  async createPayment(params: GatewayCreatePaymentParams): Promise<GatewayCreatePaymentResult> {
+    console.log(`💳 Creating KLYME ${this.region} payment with gateway order_id: ${params.gatewayOrderId} (8digits-8digits format)`);
+    console.log(`💰 Amount: ${params.amount} ${params.currency} (validated for ${this.region})`);
+
+    const klymeResult = await this.createPaymentLink({
+      paymentId: params.paymentId,
+      orderId: params.gatewayOrderId,
+      amount: params.amount,
+      currency: params.currency,
+      region: this.region,
+      redirectUrl: params.successUrl,
+    });
+
+    console.log(`✅ KLYME ${this.region} payment created successfully with gateway order_id: ${params.gatewayOrderId}`);
+
+    return {
+      gatewayPaymentId: klymeResult.gateway_payment_id,
+      externalPaymentUrl: klymeResult.payment_url,
+    };
+  }
+
   async createPaymentLink(paymentData: KlymePaymentLinkRequest): Promise<KlymePaymentLinkResponse> {
     const {
       orderId,
@@ -269,11 +323,7 @@ export class KlymeService {
     }
   }
 
-  async verifyPayment(gatewayPaymentId: string, region: 'EU' | 'GB' | 'DE'): Promise<{
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-  }> {
+  async verifyPayment(gatewayPaymentId: string, region: 'EU' | 'GB' | 'DE' = this.region): Promise<GatewayVerifyResult> {
     const startTime = Date.now();
 
     try {
@@ -315,7 +365,7 @@ export class KlymeService {
       }
 
       // Map KLYME status to our status
-      let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
+      let status: GatewayPaymentStatus = 'PENDING';
       
       // Since we don't have status in verify response, return PENDING by default
       return {
@@ -329,24 +379,31 @@ export class KlymeService {
     }
   }
 
-  // Method for processing webhook from KLYME
-  async processWebhook(webhookData: any): Promise<{
-    paymentId: string;
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-    region?: string;
-    additionalInfo?: {
-      payment_method?: string;
-      transaction_id?: string;
-    };
-  }> {
-    console.log('Processing KLYME webhook:', webhookData);
-    
-    // Map KLYME webhook status to our status
-    let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
-    
-    switch (webhookData.status?.toLowerCase()) {
+  // ✅ ДОБАВЛЕНО: Callback KLYME приходит через прокси tesoft.uk - проверяем подпись прокси
+  verifyWebhookSignature(context: GatewayWebhookContext): boolean {
+    return webhookSignatureService.verifyGatewayProxySignature(this.provider, context);
+  }
+
+  // Разбор webhook KLYME (один endpoint для всех регионов)
+  parseWebhook(webhookData: any): GatewayWebhookResult {
+    const {
+      payment_id: klymePaymentId,
+      order_id: orderId,
+      status: klymeStatus,
+      amount,
+      currency,
+      region,
+      payment_method,
+      transaction_id,
+    } = webhookData;
+
+    if (!orderId && !klymePaymentId) {
+      throw new Error('Missing required webhook data: order_id or payment_id');
+    }
+
+    let status: GatewayPaymentStatus;
+
+    switch (klymeStatus?.toLowerCase()) {
       case 'paid':
       case 'completed':
       case 'confirmed':
@@ -354,6 +411,11 @@ export class KlymeService {
       case 'successful':
         status = 'PAID';
         break;
+      case 'processing':
+      case 'active':
+      case 'in_progress':
+        status = 'PROCESSING'; // ✅ ДОБАВЛЕНО: Промежуточные статусы -> PROCESSING
+        break;
       case 'cancelled':
       case 'canceled':
       case 'failed':
@@ -367,23 +429,30 @@ export class KlymeService {
         break;
       case 'pending':
       case 'created':
-      case 'active':
-      case 'processing':
-      case 'in_progress':
       default:
         status = 'PENDING';
         break;
     }
-    
+
     return {
-      paymentId: webhookData.reference || webhookData.order_id || webhookData.payment_id,
+      gatewayPaymentId: klymePaymentId,
+      reference: orderId,
       status,
-      amount: webhookData.amount,
-      currency: webhookData.currency,
-      region: webhookData.region,
-      additionalInfo: {
-        payment_method: webhookData.payment_method,
-        transaction_id: webhookData.transaction_id,
+      event: `${region?.toLowerCase()}_${klymeStatus}`,
+      amount,
+      currency,
+      paymentUpdates: {
+        paymentMethod: payment_method || undefined,
+      },
+      details: {
+        klymePaymentId,
+        orderId,
+        status: klymeStatus,
+        amount,
+        currency,
+        region,
+        payment_method,
+        transaction_id,
       },
     };
   }
@@ -1,4 +1,16 @@
+import crypto from 'crypto';
 import { loggerService } from '../loggerService';
+import { webhookSignatureService } from '../webhookSignatureService';
+import {
+  PaymentGateway,
+  GatewayCapabilities,
+  GatewayCreatePaymentParams,
+  GatewayCreatePaymentResult,
+  GatewayVerifyResult,
+  GatewayWebhookResult,
+  GatewayPaymentStatus,
+  GatewayWebhookContext,
+} from '../../types/gateway';
 
 export interface NodaPaymentLinkRequest {
   paymentId: string;
@@ -64,16 +76,54 @@ export interface NodaWebhookData {
   SettlementDate: string; // ISO date string
 }
 
-export class NodaService {
+export class NodaService implements PaymentGateway {
+  readonly id = '1000';
+  readonly name = 'noda';
+  readonly provider = 'noda';
+  readonly displayName = 'Noda';
+  readonly capabilities: GatewayCapabilities = {
+    requiresSourceCurrency: false,
+    statusPolling: false,
+    pendingOnReturn: true,
+    hostedCheckout: false,
+    paymentTtlHours: 24,
+  };
+
   private apiUrl: string;
+  private signatureKey: string;
 
   constructor() {
     // ИСПРАВЛЕНО: Правильный URL без .php
     this.apiUrl = 'https://tesoft.uk/gateway/noda/';
+    this.signatureKey = process.env.NODA_SIGNATURE_KEY || '';
     
     console.log('🌐 Noda service initialized with white domain proxy');
   }
 
+  async createPayment(params: GatewayCreatePaymentParams): Promise<GatewayCreatePaymentResult> {
+    console.log(`🔄 Creating Noda payment with gateway order_id: ${params.gatewayOrderId} (8digits-8digits format)`);
+
+    const nodaResult = await this.createPaymentLink({
+      paymentId: params.paymentId,
+      orderId: params.gatewayOrderId,
+      name: params.description,
+      paymentDescription: params.description,
+      amount: params.amount,
+      currency: params.currency,
+      webhookUrl: `https://tesoft.uk/gateways/noda/webhook`,
+      returnUrl: params.successUrl,
+      expiryDate: params.expiresAt,
+    });
+
+    return {
+      gatewayPaymentId: nodaResult.gateway_payment_id,
+      externalPaymentUrl: nodaResult.payment_url,
+      paymentUpdates: {
+        qrUrl: nodaResult.qr_code_url,
+      },
+    };
+  }
+
   async createPaymentLink(paymentData: NodaPaymentLinkRequest): Promise<NodaPaymentLinkResponse> {
     const {
       orderId,
@@ -231,12 +281,7 @@ export class NodaService {
     }
   }
 
-  async verifyPayment(gatewayPaymentId: string): Promise<{
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-    isActive?: boolean;
-  }> {
+  async verifyPayment(gatewayPaymentId: string): Promise<GatewayVerifyResult & { isActive?: boolean }> {
     const startTime = Date.now();
 
     try {
@@ -273,7 +318,7 @@ export class NodaService {
       }
 
       // Map Noda status to our status
-      let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
+      let status: GatewayPaymentStatus = 'PENDING';
       
       if (result.isActive === false) {
         // If link is not active, check expiry date
@@ -309,40 +354,45 @@ export class NodaService {
     }
   }
 
-  // Updated method for processing webhook from Noda based on the provided example
-  async processWebhook(webhookData: NodaWebhookData): Promise<{
-    paymentId: string;
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-    additionalInfo?: {
-      method?: string;
-      bankId?: string;
-      settled?: string;
-      settlementDate?: string;
-      remitterName?: string;
-      remitterIban?: string;
-      bankTransactionId?: string;
-    };
-  }> {
-    console.log('Processing Noda webhook:', webhookData);
-    
-    // Map Noda webhook status to our status based on the provided example
-    let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
-    
-    switch (webhookData.Status?.toLowerCase()) {
+  // ✅ ОБНОВЛЕНО: Разбор webhook Noda с поддержкой Processing и Awaiting confirmation
+  parseWebhook(webhookData: NodaWebhookData): GatewayWebhookResult {
+    const {
+      PaymentId: nodaPaymentId,
+      Status: nodaStatus,
+      MerchantPaymentId: merchantPaymentId,
+      Amount: amount,
+      Currency: currency,
+      Remitter: remitter,
+      Method: method,
+      BankId: bankId,
+      Settled: settled,
+      SettlementDate: settlementDate,
+    } = webhookData;
+
+    if (!nodaPaymentId && !merchantPaymentId) {
+      throw new Error('Missing required webhook data: PaymentId or MerchantPaymentId');
+    }
+
+    let status: GatewayPaymentStatus;
+
+    switch (nodaStatus?.toLowerCase()) {
       case 'done':
       case 'completed':
       case 'paid':
       case 'success':
       case 'successful':
         // Additional check: if Settled is "Yes", consider it fully paid
-        if (webhookData.Settled === 'Yes') {
+        if (settled === 'Yes' || (settled as unknown) === true) {
           status = 'PAID';
         } else {
-          status = 'PENDING'; // Payment done but not yet settled
+          status = 'PROCESSING'; // ✅ ИЗМЕНЕНО: Payment done but not yet settled -> PROCESSING
         }
         break;
+      case 'processing': // ✅ ДОБАВЛЕНО: Явно обрабатываем processing статус
+      case 'awaiting confirmation': // ✅ ДОБАВЛЕНО: Обрабатываем awaiting confirmation
+      case 'in_progress':
+        status = 'PROCESSING';
+        break;
       case 'cancelled':
       case 'canceled':
       case 'failed':
@@ -357,41 +407,63 @@ export class NodaService {
       case 'pending':
       case 'created':
       case 'active':
-      case 'processing':
-      case 'in_progress':
       default:
         status = 'PENDING';
         break;
     }
-    
+
+    console.log(`🔄 Noda status mapping: "${nodaStatus}" -> "${status}"`);
+
     return {
-      paymentId: webhookData.MerchantPaymentId || webhookData.PaymentId,
+      gatewayPaymentId: nodaPaymentId,
+      reference: merchantPaymentId,
       status,
-      amount: webhookData.Amount,
-      currency: webhookData.Currency,
-      additionalInfo: {
-        method: webhookData.Method,
-        bankId: webhookData.BankId,
-        settled: webhookData.Settled,
-        settlementDate: webhookData.SettlementDate,
-        remitterName: webhookData.Remitter?.Name,
-        remitterIban: webhookData.Remitter?.Iban,
-        bankTransactionId: webhookData.BankTransactionId,
+      event: nodaStatus,
+      amount,
+      currency,
+      paymentUpdates: {
+        remitterIban: remitter?.Iban || undefined,
+        remitterName: remitter?.Name || undefined,
+        bankId: bankId || undefined,
+        paymentMethod: method || undefined,
+      },
+      details: {
+        nodaPaymentId,
+        merchantPaymentId,
+        status: nodaStatus,
+        amount,
+        currency,
+        method,
+        bankId,
+        settled,
+        settlementDate,
+        remitterName: remitter?.Name,
+        remitterIban: remitter?.Iban,
       },
     };
   }
 
-  // Method to verify webhook signature (if Noda provides signature verification)
-  verifyWebhookSignature(webhookData: NodaWebhookData, receivedSignature: string): boolean {
-    // This would need to be implemented based on Noda's signature verification method
-    // For now, we'll just log the signature and return true
-    console.log('Noda webhook signature verification:', {
-      receivedSignature,
-      paymentId: webhookData.PaymentId,
-      merchantPaymentId: webhookData.MerchantPaymentId,
-    });
-    
-    // TODO: Implement actual signature verification when Noda provides the method
-    return true;
+  // ✅ ОБНОВЛЕНО: Проверка подписи webhook Noda.
+  // Нативная подпись: Signature = SHA256(PaymentId + Status + NODA_SIGNATURE_KEY) в hex.
+  // Если ключ не задан или подпись не совпала - принимаем только callback с валидной подписью прокси.
+  verifyWebhookSignature(context: GatewayWebhookContext): boolean {
+    const webhookData: NodaWebhookData = context.body;
+
+    if (this.signatureKey && webhookData && typeof webhookData.Signature === 'string') {
+      const expectedSignature = crypto
+        .createHash('sha256')
+        .update(`${webhookData.PaymentId}${webhookData.Status}${this.signatureKey}`, 'utf8')
+        .digest('hex');
+      const receivedSignature = webhookData.Signature.toLowerCase();
+
+      if (expectedSignature.length === receivedSignature.length &&
+        crypto.timingSafeEqual(Buffer.from(expectedSignature), Buffer.from(receivedSignature))) {
+        return true;
+      }
+
+      console.warn(`⚠️ Noda native signature mismatch for payment ${webhookData.PaymentId}, checking proxy signature`);
+    }
+
+    return webhookSignatureService.verifyGatewayProxySignature(this.provider, context);
   }
 }
\ No newline at end of file
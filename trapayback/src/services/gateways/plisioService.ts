@@ -1,4 +1,15 @@
+import crypto from 'crypto';
 import { loggerService } from '../loggerService';
+import {
+  PaymentGateway,
+  GatewayCapabilities,
+  GatewayCreatePaymentParams,
+  GatewayCreatePaymentResult,
+  GatewayVerifyResult,
+  GatewayWebhookResult,
+  GatewayPaymentStatus,
+  GatewayWebhookContext,
+} from '../../types/gateway';
 
 export interface PlisioPaymentRequest {
   paymentId: string;
@@ -31,12 +42,27 @@ export interface PlisioApiResponse {
     invoice_total_sum?: number;
     qr_code?: string;
     qr_url?: string;
+    status?: string;   // Статус операции (GET /operations/:id)
+    amount?: string;
+    currency?: string;
   };
   error?: string;
   message?: string;
 }
 
-export class PlisioService {
+export class PlisioService implements PaymentGateway {
+  readonly id = '0001';
+  readonly name = 'plisio';
+  readonly provider = 'plisio';
+  readonly displayName = 'Plisio';
+  readonly capabilities: GatewayCapabilities = {
+    requiresSourceCurrency: true,
+    statusPolling: false,
+    pendingOnReturn: false,
+    hostedCheckout: true,
+    paymentTtlHours: 24, // Неоплаченный инвойс истекает через сутки
+  };
+
   private apiUrl: string;
   private apiKey: string;
 
@@ -52,7 +78,35 @@ export class PlisioService {
     }
   }
 
-  async createPayment(paymentData: PlisioPaymentRequest): Promise<PlisioPaymentResponse> {
+  async createPayment(params: GatewayCreatePaymentParams): Promise<GatewayCreatePaymentResult> {
+    // Для payment links сумма указана в фиатной валюте и конвертируется Plisio в криптовалюту,
+    // для API платежей sourceCurrency - это криптовалюта, в которой указана сумма
+    const plisioResult = await this.createInvoice({
+      paymentId: params.paymentId,
+      orderId: params.gatewayOrderId,
+      amount: params.amount,
+      currency: params.priceInFiat ? params.currency : (params.sourceCurrency || params.currency),
+      sourceCurrency: params.priceInFiat ? params.sourceCurrency : undefined,
+      productName: params.description,
+      description: params.description,
+      successUrl: params.successUrl,
+      failUrl: params.failUrl,
+      customerEmail: params.customerEmail,
+      customerName: params.customerName,
+    });
+
+    return {
+      gatewayPaymentId: plisioResult.gateway_payment_id,
+      externalPaymentUrl: plisioResult.payment_url,
+      paymentUpdates: {
+        invoiceTotalSum: Number(plisioResult.invoice_total_sum),
+        qrCode: plisioResult.qr_code,
+        qrUrl: plisioResult.qr_url,
+      },
+    };
+  }
+
+  async createInvoice(paymentData: PlisioPaymentRequest): Promise<PlisioPaymentResponse> {
     const {
       orderId,
       amount,
@@ -79,7 +133,7 @@ export class PlisioService {
       description: description,
       success_url: successUrl,
       fail_url: failUrl,
-      callback_url: 'https://api.trapay.uk/api/webhooks/gateway/plisio',
+      callback_url: 'https://api.trapay.uk/api/webhooks/gateway/plisio?json=true', // ✅ ОБНОВЛЕНО: JSON callback для проверки verify_hash
     });
 
     // ✅ ДОБАВЛЕНО: Логика для source_currency и currency
@@ -216,11 +270,7 @@ export class PlisioService {
     }
   }
 
-  async verifyPayment(gatewayPaymentId: string): Promise<{
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-  }> {
+  async verifyPayment(gatewayPaymentId: string): Promise<GatewayVerifyResult> {
     const startTime = Date.now();
 
     try {
@@ -262,10 +312,13 @@ export class PlisioService {
         throw new Error(`Plisio API error: ${result.message || result.error || 'Unknown error'}`);
       }
 
-      let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
-      
+      // ✅ ИСПРАВЛЕНО: Статус операции Plisio вместо постоянного PENDING (сверка статусов)
+      const status = this.mapPlisioStatus(result.data?.status);
+
       return {
         status,
+        amount: this.parseAmount(result.data?.amount),
+        currency: result.data?.currency,
       };
 
     } catch (error) {
@@ -275,21 +328,121 @@ export class PlisioService {
     }
   }
 
-  async processWebhook(webhookData: any): Promise<{
-    paymentId: string;
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-  }> {
-    console.log('Processing Plisio webhook:', webhookData);
-    
-    let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
-    
-    switch (webhookData.status?.toLowerCase()) {
+  // ✅ ОБНОВЛЕНО: Разбор webhook Plisio с поддержкой PROCESSING статуса
+  // ✅ ДОБАВЛЕНО: Проверка verify_hash (HMAC-SHA1 секретным ключом Plisio).
+  // JSON callback (?json=true): хэш от JSON.stringify данных без verify_hash.
+  // Form callback (старые инвойсы): хэш от PHP serialize() отсортированных по ключу данных.
+  verifyWebhookSignature(context: GatewayWebhookContext): boolean {
+    const data = context.body;
+
+    if (!data || typeof data !== 'object' || typeof data.verify_hash !== 'string') {
+      console.warn('⚠️ Plisio webhook has no verify_hash');
+      return false;
+    }
+
+    if (!this.apiKey) {
+      console.error('❌ Cannot verify Plisio webhook: PLISIO_API_KEY is not configured');
+      return false;
+    }
+
+    const { verify_hash: verifyHash, ...callbackData } = data;
+    const contentType = String(context.headers['content-type'] || '');
+
+    let signedString: string;
+
+    if (contentType.includes('application/json')) {
+      if (callbackData.expire_utc !== undefined) {
+        callbackData.expire_utc = String(callbackData.expire_utc);
+      }
+      if (typeof callbackData.tx_urls === 'string') {
+        callbackData.tx_urls = this.decodeHtmlEntities(callbackData.tx_urls);
+      }
+      signedString = JSON.stringify(callbackData);
+    } else {
+      signedString = this.phpSerialize(callbackData);
+    }
+
+    const expectedHash = crypto.createHmac('sha1', this.apiKey).update(signedString, 'utf8').digest('hex');
+
+    return expectedHash.length === verifyHash.length &&
+      crypto.timingSafeEqual(Buffer.from(expectedHash), Buffer.from(verifyHash));
+  }
+
+  // Аналог PHP ksort() + serialize() для плоского массива строк из form callback
+  private phpSerialize(data: Record<string, any>): string {
+    const keys = Object.keys(data).sort();
+    const serializeString = (value: string) => `s:${Buffer.byteLength(value, 'utf8')}:"${value}";`;
+
+    const items = keys.map(key => serializeString(key) + serializeString(String(data[key] ?? '')));
+
+    return `a:${keys.length}:{${items.join('')}}`;
+  }
+
+  // Суммы в form callback приходят строками
+  private parseAmount(value: any): number | undefined {
+    const parsed = Number(value);
+    return value !== undefined && value !== null && value !== '' && Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  private decodeHtmlEntities(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&#0?39;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+
+  parseWebhook(webhookData: any): GatewayWebhookResult {
+    const {
+      txn_id: gatewayPaymentId,
+      order_number: orderId,
+      status: plisioStatus,
+      amount,
+      currency,
+      invoice_total_sum: invoiceTotalSum,
+    } = webhookData;
+
+    if (!gatewayPaymentId || !orderId) {
+      throw new Error('Missing required webhook data: txn_id or order_number');
+    }
+
+    const status = this.mapPlisioStatus(plisioStatus);
+
+    console.log(`🔄 Plisio status mapping: "${plisioStatus}" -> "${status}"`);
+
+    return {
+      gatewayPaymentId,
+      reference: orderId,
+      status,
+      event: plisioStatus,
+      amount,
+      currency,
+      paymentUpdates: {
+        // amount в callback - фактически полученная сумма в криптовалюте инвойса
+        receivedAmount: this.parseAmount(amount),
+        receivedCurrency: currency,
+        invoiceTotalSum: this.parseAmount(invoiceTotalSum),
+      },
+    };
+  }
+
+  // Статус Plisio (callback и GET /operations/:id) -> статус платежа
+  private mapPlisioStatus(plisioStatus: string | undefined): GatewayPaymentStatus {
+    let status: GatewayPaymentStatus;
+
+    switch (plisioStatus?.toLowerCase()) {
       case 'completed':
-      case 'mismatch':
         status = 'PAID';
         break;
+      // ✅ ОБНОВЛЕНО: mismatch удерживается как UNDERPAID до проверки суммы. WebhookService переводит его в PAID,
+      // только если полученная сумма сверена с invoice_total_sum и укладывается в допуск (или это переплата)
+      case 'mismatch':
+        status = 'UNDERPAID';
+        break;
+      case 'pending': // ✅ ДОБАВЛЕНО: pending (не new) -> PROCESSING
+        status = 'PROCESSING';
+        break;
       case 'expired':
         status = 'EXPIRED';
         break;
@@ -298,17 +451,12 @@ export class PlisioService {
         status = 'FAILED';
         break;
       case 'new':
-      case 'pending':
+      case 'pending internal':
       default:
         status = 'PENDING';
         break;
     }
-    
-    return {
-      paymentId: webhookData.order_number || '',
-      status,
-      amount: webhookData.amount,
-      currency: webhookData.currency,
-    };
+
+    return status;
   }
-}
\ No newline at end of file
+}
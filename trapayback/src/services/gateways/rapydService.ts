@@ -1,4 +1,15 @@
 import { loggerService } from '../loggerService';
+import { webhookSignatureService } from '../webhookSignatureService';
+import {
+  PaymentGateway,
+  GatewayCapabilities,
+  GatewayCreatePaymentParams,
+  GatewayCreatePaymentResult,
+  GatewayVerifyResult,
+  GatewayWebhookResult,
+  GatewayPaymentStatus,
+  GatewayWebhookContext,
+} from '../../types/gateway';
 
 export interface RapydPaymentLinkRequest {
   paymentId: string;
@@ -39,7 +50,20 @@ export interface RapydApiResponse {
   };
 }
 
-export class RapydService {
+export class RapydService implements PaymentGateway {
+  readonly id = '0010';
+  readonly name = 'rapyd';
+  readonly provider = 'rapyd';
+  readonly displayName = 'Rapyd';
+  readonly capabilities: GatewayCapabilities = {
+    fixedCountry: 'GB', // ✅ Всегда Британия
+    requiresSourceCurrency: false,
+    statusPolling: false,
+    pendingOnReturn: false,
+    hostedCheckout: false,
+    paymentTtlHours: 24,
+  };
+
   private apiUrl: string;
 
   constructor() {
@@ -49,6 +73,35 @@ export class RapydService {
     console.log('🌐 Rapyd service initialized with white domain proxy');
   }
 
+  async createPayment(params: GatewayCreatePaymentParams): Promise<GatewayCreatePaymentResult> {
+    const country = this.capabilities.fixedCountry!;
+    console.log(`🇬🇧 Using ${country} as country for Rapyd payment`);
+
+    const rapydResult = await this.createPaymentLink({
+      paymentId: params.paymentId,
+      orderId: params.gatewayOrderId,
+      orderName: params.description,
+      amount: params.amount,
+      currency: params.currency,
+      country,
+      language: params.language || 'EN',
+      amountIsEditable: params.amountIsEditable || false,
+      usage: params.usage || 'ONCE',
+      maxPayments: params.maxPayments,
+      customer: params.customer,
+      successUrl: params.successUrl,
+      failUrl: params.failUrl,
+    });
+
+    return {
+      gatewayPaymentId: rapydResult.gateway_payment_id,
+      externalPaymentUrl: rapydResult.payment_url,
+      paymentUpdates: {
+        country,
+      },
+    };
+  }
+
   async createPaymentLink(paymentData: RapydPaymentLinkRequest): Promise<RapydPaymentLinkResponse> {
     const {
       orderId,
@@ -203,11 +256,7 @@ export class RapydService {
     }
   }
 
-  async verifyPayment(gatewayPaymentId: string): Promise<{
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-  }> {
+  async verifyPayment(gatewayPaymentId: string): Promise<GatewayVerifyResult> {
     const startTime = Date.now();
 
     try {
@@ -242,7 +291,7 @@ export class RapydService {
       }
 
       // Map Rapyd status to our status based on webhook examples
-      let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
+      let status: GatewayPaymentStatus = 'PENDING';
       
       if (result.data?.status) {
         switch (result.data.status.toUpperCase()) {
@@ -279,46 +328,53 @@ export class RapydService {
     }
   }
 
-  // Method for processing webhook from Rapyd with updated status mapping
-  async processWebhook(webhookData: any): Promise<{
-    paymentId: string;
-    status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED';
-    amount?: number;
-    currency?: string;
-  }> {
-    console.log('Processing Rapyd webhook:', webhookData);
-    
-    // Map Rapyd webhook status to our status based on examples
-    let status: 'PENDING' | 'PAID' | 'EXPIRED' | 'FAILED' = 'PENDING';
-    
+  // ✅ ДОБАВЛЕНО: Callback Rapyd приходит через прокси tesoft.uk - проверяем подпись прокси
+  verifyWebhookSignature(context: GatewayWebhookContext): boolean {
+    return webhookSignatureService.verifyGatewayProxySignature(this.provider, context);
+  }
+
+  // Разбор webhook Rapyd с извлечением данных карты
+  parseWebhook(webhookData: any): GatewayWebhookResult {
+    const {
+      type: eventType,
+      data: eventData,
+    } = webhookData;
+
+    if (!eventData?.id) {
+      throw new Error('Missing required webhook data: data.id');
+    }
+
+    // Map Rapyd event type and status to our status
+    let status: GatewayPaymentStatus;
+
     // First check event type
-    switch (webhookData.type?.toUpperCase()) {
+    switch (eventType?.toUpperCase()) {
       case 'PAYMENT_COMPLETED':
         // Check if payment is actually paid
-        if (webhookData.data?.paid === true && webhookData.data?.status === 'CLO') {
+        if (eventData.paid === true && eventData.status === 'CLO') {
           status = 'PAID';
         } else {
-          status = 'PENDING';
+          status = 'PROCESSING'; // ✅ ИЗМЕНЕНО: PENDING -> PROCESSING для промежуточных состояний
         }
         break;
-      
+
       case 'PAYMENT_CANCELED':
         status = 'FAILED';
         break;
-      
+
       case 'PAYMENT_EXPIRED':
         status = 'EXPIRED';
         break;
-      
+
       case 'PAYMENT_FAILED':
         status = 'FAILED';
         break;
-      
+
       default:
         // For other events, check the data.status field
-        switch (webhookData.data?.status?.toUpperCase()) {
+        switch (eventData.status?.toUpperCase()) {
           case 'CLO': // Closed - completed
-            if (webhookData.data?.paid === true) {
+            if (eventData.paid === true) {
               status = 'PAID';
             } else {
               status = 'FAILED';
@@ -333,20 +389,28 @@ export class RapydService {
           case 'ERR': // Error
             status = 'FAILED';
             break;
+          case 'ACT': // Active - processing
+            status = 'PROCESSING'; // ✅ ДОБАВЛЕНО: ACT -> PROCESSING
+            break;
           case 'NEW':
-          case 'ACT': // Active
           default:
             status = 'PENDING';
             break;
         }
         break;
     }
-    
+
     return {
-      paymentId: webhookData.data?.merchant_reference_id || '',
+      gatewayPaymentId: eventData.id,
+      reference: eventData.merchant_reference_id,
       status,
-      amount: webhookData.data?.amount,
-      currency: webhookData.data?.currency,
+      event: eventType,
+      amount: eventData.amount,
+      currency: eventData.currency,
+      paymentUpdates: {
+        cardLast4: eventData.payment_method_data?.last4 || undefined,
+        paymentMethod: eventData.payment_method_data?.type || eventData.payment_method_type || undefined,
+      },
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { leaseService } from './leaseService';
+
+// ✅ ДОБАВЛЕНО: Idempotency-Key для создания платежей.
+// Первый запрос с ключом сохраняет отпечаток (метод + путь + тело) и ответ на 24 часа;
+// повтор с тем же телом получает сохраненный ответ, с другим телом - 409.
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotent-Replayed';
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000; // 24 часа
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+export type IdempotencyBeginResult =
+  | { type: 'started'; recordId: string }
+  | { type: 'replay'; statusCode: number; body: any }
+  | { type: 'mismatch' }
+  | { type: 'in_progress' };
+
+export class IdempotencyService {
+  private readonly CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 час
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  computeRequestHash(method: string, path: string, body: any): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${method.toUpperCase()} ${path}\n${this.stableStringify(body ?? {})}`, 'utf8')
+      .digest('hex');
+  }
+
+  async begin(shopId: string, key: string, requestHash: string): Promise<IdempotencyBeginResult> {
+    // Вторая попытка нужна, если найденный ключ истек и был удален
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const record = await prisma.idempotencyKey.create({
+          data: {
+            shopId,
+            key,
+            requestHash,
+            expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS),
+          },
+          select: { id: true },
+        });
+
+        return { type: 'started', recordId: record.id };
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+      }
+
+      const existing = await prisma.idempotencyKey.findUnique({
+        where: {
+          shopId_key: { shopId, key },
+        },
+      });
+
+      if (!existing) {
+        continue;
+      }
+
+      if (existing.expiresAt < new Date()) {
+        await prisma.idempotencyKey.deleteMany({
+          where: {
+            id: existing.id,
+            expiresAt: { lt: new Date() },
+          },
+        });
+        continue;
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return { type: 'mismatch' };
+      }
+
+      if (existing.status === 'COMPLETED') {
+        return {
+          type: 'replay',
+          statusCode: existing.responseCode ?? 200,
+          body: existing.responseBody ? JSON.parse(existing.responseBody) : null,
+        };
+      }
+
+      return { type: 'in_progress' };
+    }
+
+    throw new Error('Failed to acquire idempotency key');
+  }
+
+  async complete(recordId: string, statusCode: number, body: any): Promise<void> {
+    await prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        status: 'COMPLETED',
+        responseCode: statusCode,
+        responseBody: JSON.stringify(body ?? null),
+      },
+    });
+  }
+
+  // Ключ освобождается, если запрос завершился ошибкой сервера - клиент может повторить его
+  async release(recordId: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({
+      where: { id: recordId },
+    });
+  }
+
+  async cleanupExpired(): Promise<number> {
+    const result = await prisma.idempotencyKey.deleteMany({
+      where: {
+        expiresAt: { lt: new Date() },
+      },
+    });
+
+    if (result.count > 0) {
+      console.log(`🧹 Removed ${result.count} expired idempotency keys`);
+    }
+
+    return result.count;
+  }
+
+  startCleanup(): void {
+    if (this.cleanupInterval) {
+      return;
+    }
+
+    this.cleanupInterval = setInterval(() => {
+      leaseService.runExclusive('idempotency_cleanup', this.CLEANUP_INTERVAL_MS * 2, async () => {
+        await this.cleanupExpired();
+      }).catch(error => {
+        console.error('❌ Failed to clean up idempotency keys:', error);
+      });
+    }, this.CLEANUP_INTERVAL_MS);
+
+    console.log('🔑 Idempotency key cleanup started');
+  }
+
+  stopCleanup(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+      console.log('🔑 Idempotency key cleanup stopped');
+    }
+  }
+
+  // JSON с отсортированными ключами - порядок полей в теле не влияет на отпечаток
+  private stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const keys = Object.keys(value).sort();
+      return `{${keys.map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+
+    return JSON.stringify(value) ?? 'null';
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { GatewayWebhookContext } from '../types/gateway';
+import { InboundWebhookFilters, InboundWebhookResponse } from '../types/webhook';
+
+// ✅ ДОБАВЛЕНО: Inbox входящих webhook от шлюзов.
+// Каждый callback сохраняется в БД до обработки; повтор уже успешно обработанного
+// webhook (тот же source и то же тело) помечается DUPLICATE и не обрабатывается.
+// ✅ ОБНОВЛЕНО: Webhook с неверной подписью (REJECTED) хранится без тела и заголовков:
+// только размер, IP, причина и хеш тела (dedupeKey). Повторная обработка для них запрещена.
+export class InboundWebhookService {
+  // Заголовки, которые не нужно хранить в БД
+  private readonly EXCLUDED_HEADERS = ['authorization', 'cookie'];
+
+  computeDedupeKey(source: string, context: GatewayWebhookContext): string {
+    const body = context.rawBody ?? JSON.stringify(context.body ?? {});
+
+    return crypto.createHash('sha256').update(`${source}:${body}`, 'utf8').digest('hex');
+  }
+
+  async record(
+    provider: string,
+    source: string,
+    context: GatewayWebhookContext,
+    status: 'RECEIVED' | 'REJECTED' = 'RECEIVED',
+    error?: string
+  ): Promise<{ id: string; dedupeKey: string }> {
+    const dedupeKey = this.computeDedupeKey(source, context);
+    const payload = JSON.stringify(context.body ?? {});
+    const rejected = status === 'REJECTED';
+
+    const inboundWebhook = await prisma.inboundWebhook.create({
+      data: {
+        provider,
+        source,
+        dedupeKey,
+        headers: rejected ? undefined : this.sanitizeHeaders(context.headers),
+        payload: rejected ? null : payload,
+        rawBody: rejected ? null : context.rawBody,
+        size: Buffer.byteLength(context.rawBody ?? payload, 'utf8'),
+        ip: context.ip,
+        status,
+        error,
+      },
+      select: { id: true, dedupeKey: true },
+    });
+
+    return inboundWebhook;
+  }
+
+  // Уже успешно обработанный webhook с тем же ключом (кроме текущего)
+  async findProcessedDuplicate(dedupeKey: string, excludeId: string): Promise<{ id: string; paymentId: string | null } | null> {
+    return prisma.inboundWebhook.findFirst({
+      where: {
+        dedupeKey,
+        status: 'PROCESSED',
+        id: { not: excludeId },
+      },
+      select: { id: true, paymentId: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async markProcessed(id: string, paymentId?: string): Promise<void> {
+    await prisma.inboundWebhook.update({
+      where: { id },
+      data: {
+        status: 'PROCESSED',
+        paymentId,
+        error: null,
+        attempts: { increment: 1 },
+        processedAt: new Date(),
+      },
+    });
+  }
+
+  async markFailed(id: string, error: unknown): Promise<void> {
+    await prisma.inboundWebhook.update({
+      where: { id },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : String(error),
+        attempts: { increment: 1 },
+      },
+    });
+  }
+
+  async markDuplicate(id: string, duplicateOf: string, paymentId: string | null): Promise<void> {
+    await prisma.inboundWebhook.update({
+      where: { id },
+      data: {
+        status: 'DUPLICATE',
+        duplicateOf,
+        paymentId,
+      },
+    });
+  }
+
+  async markReplayed(id: string): Promise<void> {
+    await prisma.inboundWebhook.update({
+      where: { id },
+      data: { replayedAt: new Date() },
+    });
+  }
+
+  async getInboundWebhooks(filters: InboundWebhookFilters): Promise<{
+    webhooks: InboundWebhookResponse[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const { page, limit, provider, status, paymentId, dateFrom, dateTo } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (provider) {
+      where.provider = provider.toLowerCase();
+    }
+
+    if (status) {
+      where.status = status.toUpperCase();
+    }
+
+    if (paymentId) {
+      where.paymentId = paymentId;
+    }
+
+    if (dateFrom || dateTo) {
+      where.createdAt = {};
+      if (dateFrom) {
+        where.createdAt.gte = new Date(dateFrom);
+      }
+      if (dateTo) {
+        where.createdAt.lte = new Date(dateTo);
+      }
+    }
+
+    const [webhooks, total] = await Promise.all([
+      prisma.inboundWebhook.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.inboundWebhook.count({ where }),
+    ]);
+
+    return {
+      webhooks: webhooks.map(webhook => this.formatInboundWebhook(webhook, false)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getInboundWebhookById(id: string): Promise<InboundWebhookResponse | null> {
+    const webhook = await prisma.inboundWebhook.findUnique({
+      where: { id },
+    });
+
+    return webhook ? this.formatInboundWebhook(webhook, true) : null;
+  }
+
+  // Данные для повторной обработки
+  async getReplayData(id: string): Promise<{ provider: string; source: string; body: any }> {
+    const webhook = await prisma.inboundWebhook.findUnique({
+      where: { id },
+      select: { provider: true, source: true, payload: true, status: true },
+    });
+
+    if (!webhook) {
+      throw new Error('Inbound webhook not found');
+    }
+
+    // Подпись отклоненного webhook не проверена - повторять его нельзя (тело и не хранится)
+    if (webhook.status === 'REJECTED' || webhook.payload === null) {
+      throw new Error('Rejected inbound webhook cannot be replayed');
+    }
+
+    return {
+      provider: webhook.provider,
+      source: webhook.source,
+      body: JSON.parse(webhook.payload),
+    };
+  }
+
+  private sanitizeHeaders(headers: GatewayWebhookContext['headers']): Record<string, string | string[]> {
+    const sanitized: Record<string, string | string[]> = {};
+
+    for (const [key, value] of Object.entries(headers || {})) {
+      if (value === undefined || this.EXCLUDED_HEADERS.includes(key.toLowerCase())) continue;
+      sanitized[key] = value;
+    }
+
+    return sanitized;
+  }
+
+  private formatInboundWebhook(webhook: any, withBody: boolean): InboundWebhookResponse {
+    const response: InboundWebhookResponse = {
+      id: webhook.id,
+      provider: webhook.provider,
+      source: webhook.source,
+      dedupeKey: webhook.dedupeKey,
+      status: webhook.status,
+      paymentId: webhook.paymentId,
+      duplicateOf: webhook.duplicateOf,
+      size: webhook.size,
+      ip: webhook.ip,
+      error: webhook.error,
+      attempts: webhook.attempts,
+      processedAt: webhook.processedAt,
+      replayedAt: webhook.replayedAt,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt,
+    };
+
+    if (withBody) {
+      let payload: any = webhook.payload;
+      try {
+        payload = JSON.parse(webhook.payload);
+      } catch {
+        // Оставляем как строку
+      }
+
+      response.headers = webhook.headers;
+      response.payload = payload;
+      response.rawBody = webhook.rawBody;
+    }
+
+    return response;
+  }
+}
+
+export const inboundWebhookService = new InboundWebhookService();
@@ -1,7 +1,36 @@
 import prisma from '../config/database';
-import { IntegrationsResponse, UpdateWebhookSettingsRequest } from '../types/integrations';
+import { webhookSignatureService } from './webhookSignatureService';
+import {
+  IntegrationsResponse,
+  UpdateWebhookSettingsRequest,
+  WebhookEndpointResponse,
+  CreateWebhookEndpointRequest,
+  UpdateWebhookEndpointRequest,
+  WebhookDeliveryResponse,
+  WebhookDeliveryFilters,
+} from '../types/integrations';
 
 export class IntegrationsService {
+  private readonly MAX_WEBHOOK_ENDPOINTS = 10;
+
+  private generateEndpointSecret(): string {
+    return webhookSignatureService.generateSecret();
+  }
+
+  private formatEndpoint(endpoint: any): WebhookEndpointResponse {
+    return {
+      id: endpoint.id,
+      name: endpoint.name,
+      url: endpoint.url,
+      events: this.parseWebhookEvents(endpoint.events),
+      secret: endpoint.secret,
+      description: endpoint.description,
+      isActive: endpoint.isActive,
+      createdAt: endpoint.createdAt,
+      updatedAt: endpoint.updatedAt,
+    };
+  }
+
   // ✅ ДОБАВЛЕНО: Helper method to handle JSON arrays for MySQL
   private parseWebhookEvents(webhookEvents: any): string[] {
     if (!webhookEvents) return [];
@@ -40,11 +69,17 @@ export class IntegrationsService {
       throw new Error('Shop settings not found');
     }
 
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { shopId },
+      orderBy: { createdAt: 'asc' },
+    });
+
     return {
       webhook: {
         url: settings.webhookUrl,
         events: this.parseWebhookEvents(settings.webhookEvents), // ✅ ИСПРАВЛЕНО: Parse JSON for MySQL
       },
+      endpoints: endpoints.map(endpoint => this.formatEndpoint(endpoint)),
     };
   }
 
@@ -69,6 +104,178 @@ export class IntegrationsService {
     });
   }
 
+  // ✅ ДОБАВЛЕНО: Webhook endpoints CRUD
+  async getWebhookEndpoints(shopId: string): Promise<WebhookEndpointResponse[]> {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { shopId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return endpoints.map(endpoint => this.formatEndpoint(endpoint));
+  }
+
+  async getWebhookEndpointById(shopId: string, endpointId: string): Promise<WebhookEndpointResponse | null> {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: {
+        id: endpointId,
+        shopId,
+      },
+    });
+
+    return endpoint ? this.formatEndpoint(endpoint) : null;
+  }
+
+  async createWebhookEndpoint(shopId: string, endpointData: CreateWebhookEndpointRequest): Promise<WebhookEndpointResponse> {
+    const endpointsCount = await prisma.webhookEndpoint.count({
+      where: { shopId },
+    });
+
+    if (endpointsCount >= this.MAX_WEBHOOK_ENDPOINTS) {
+      throw new Error(`Maximum ${this.MAX_WEBHOOK_ENDPOINTS} webhook endpoints per shop`);
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        shopId,
+        name: endpointData.name,
+        url: endpointData.url,
+        events: endpointData.events,
+        description: endpointData.description,
+        isActive: endpointData.isActive ?? true,
+        secret: this.generateEndpointSecret(),
+      },
+    });
+
+    console.log(`🧩 Webhook endpoint ${endpoint.id} (${endpoint.name}) created for shop ${shopId}`);
+
+    return this.formatEndpoint(endpoint);
+  }
+
+  async updateWebhookEndpoint(shopId: string, endpointId: string, updateData: UpdateWebhookEndpointRequest): Promise<WebhookEndpointResponse> {
+    const existingEndpoint = await prisma.webhookEndpoint.findFirst({
+      where: {
+        id: endpointId,
+        shopId,
+      },
+    });
+
+    if (!existingEndpoint) {
+      throw new Error('Webhook endpoint not found');
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: updateData,
+    });
+
+    return this.formatEndpoint(endpoint);
+  }
+
+  async rotateWebhookEndpointSecret(shopId: string, endpointId: string): Promise<WebhookEndpointResponse> {
+    const existingEndpoint = await prisma.webhookEndpoint.findFirst({
+      where: {
+        id: endpointId,
+        shopId,
+      },
+    });
+
+    if (!existingEndpoint) {
+      throw new Error('Webhook endpoint not found');
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: { secret: this.generateEndpointSecret() },
+    });
+
+    console.log(`🔑 Webhook endpoint ${endpointId} secret rotated for shop ${shopId}`);
+
+    return this.formatEndpoint(endpoint);
+  }
+
+  async deleteWebhookEndpoint(shopId: string, endpointId: string): Promise<void> {
+    const existingEndpoint = await prisma.webhookEndpoint.findFirst({
+      where: {
+        id: endpointId,
+        shopId,
+      },
+    });
+
+    if (!existingEndpoint) {
+      throw new Error('Webhook endpoint not found');
+    }
+
+    await prisma.webhookEndpoint.delete({
+      where: { id: endpointId },
+    });
+  }
+
+  // История доставок конкретного endpoint
+  async getWebhookEndpointDeliveries(shopId: string, endpointId: string, filters: WebhookDeliveryFilters): Promise<{
+    deliveries: WebhookDeliveryResponse[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: {
+        id: endpointId,
+        shopId,
+      },
+      select: { id: true },
+    });
+
+    if (!endpoint) {
+      throw new Error('Webhook endpoint not found');
+    }
+
+    const { page, limit, status } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = { shopId, endpointId };
+
+    if (status) {
+      where.status = status.toUpperCase();
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      deliveries: deliveries.map(delivery => ({
+        id: delivery.id,
+        paymentId: delivery.paymentId,
+        event: delivery.event,
+        url: delivery.url,
+        status: delivery.status,
+        manual: delivery.manual,
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt,
+        lastStatusCode: delivery.lastStatusCode,
+        lastError: delivery.lastError,
+        deliveredAt: delivery.deliveredAt,
+        failedAt: delivery.failedAt,
+        createdAt: delivery.createdAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
   private async ensureSettingsExist(shopId: string): Promise<void> {
     const existingSettings = await prisma.shopSettings.findUnique({
       where: { shopId },
@@ -0,0 +1,662 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { leaseService } from './leaseService';
+import {
+  JobHandler,
+  JobWorkerStats,
+  ScheduleJobOptions,
+  ScheduledJobFilters,
+  ScheduledJobResponse,
+} from '../types/job';
+
+// ✅ ДОБАВЛЕНО: Фоновые задачи в БД (таблица scheduled_jobs) вместо таймеров в памяти.
+// Сервисы регистрируют обработчики по типу задачи, воркер забирает задачи с наступившим runAt.
+// Захват задачи атомарный (PENDING -> RUNNING с lockedBy), поэтому одну задачу не выполнят дважды.
+// ✅ ОБНОВЛЕНО: Воркер продлевает блокировку выполняющихся задач (lockedAt) каждые HEARTBEAT_INTERVAL_MS,
+// поэтому в очередь после LOCK_TIMEOUT_MS возвращаются только задачи упавшего процесса, а не долгие задачи.
+export class JobService {
+  private handlers = new Map<string, JobHandler>();
+  private recurring = new Map<string, number>(); // type -> intervalMs
+  private runningJobs = new Set<string>();
+  private pollInterval: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private readonly workerId = leaseService.instanceId;
+  private readonly POLL_INTERVAL_MS = 5 * 1000; // 5 секунд
+  private readonly MAX_CONCURRENT_JOBS = 5;
+  private readonly HEARTBEAT_INTERVAL_MS = 30 * 1000; // 30 секунд
+  private readonly LOCK_TIMEOUT_MS = 5 * 60 * 1000; // 5 минут без продления блокировки
+  private readonly BASE_RETRY_DELAY_MS = 60 * 1000; // 1 минута
+  private readonly MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 час
+  private readonly CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // 1 день
+  private readonly RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Завершенные задачи хранятся 7 дней
+  private readonly SCHEDULE_RACE_RETRIES = 3;
+
+  constructor() {
+    this.registerRecurring('jobs.cleanup', this.CLEANUP_INTERVAL_MS, async () => {
+      await this.cleanupFinishedJobs();
+    });
+  }
+
+  registerHandler(type: string, handler: JobHandler): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`Job handler for ${type} is already registered`);
+    }
+
+    this.handlers.set(type, handler);
+  }
+
+  // Периодическая задача: одна строка в БД (uniqueKey recurring:<type>), после каждого запуска runAt сдвигается на intervalMs
+  registerRecurring(type: string, intervalMs: number, handler: JobHandler): void {
+    this.registerHandler(type, handler);
+    this.recurring.set(type, intervalMs);
+  }
+
+  // tx - задача создается вместе с изменением, которое ее порождает (и откатывается вместе с ним)
+  async schedule(
+    type: string,
+    payload: any,
+    runAt: Date,
+    options: ScheduleJobOptions = {},
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<string> {
+    const data = {
+      type,
+      payload: JSON.stringify(payload ?? {}),
+      runAt,
+      maxAttempts: options.maxAttempts ?? 5,
+    };
+
+    if (!options.uniqueKey) {
+      const job = await tx.scheduledJob.create({ data, select: { id: true } });
+      return job.id;
+    }
+
+    const job = await tx.scheduledJob.upsert({
+      where: { uniqueKey: options.uniqueKey },
+      create: { ...data, uniqueKey: options.uniqueKey },
+      update: {},
+      select: { id: true },
+    });
+
+    // ✅ ИСПРАВЛЕНО: Выполняющуюся задачу не сбрасываем, а запоминаем запуск в pendingRunAt/pendingPayload -
+    // finishJob применит его после завершения. Если задача завершилась между запросами, повторяем сброс
+    for (let attempt = 0; attempt < this.SCHEDULE_RACE_RETRIES; attempt++) {
+      const rescheduled = await tx.scheduledJob.updateMany({
+        where: {
+          id: job.id,
+          status: { not: 'RUNNING' },
+        },
+        data: {
+          ...data,
+          status: 'PENDING',
+          attempts: 0,
+          lockedBy: null,
+          lockedAt: null,
+          lastError: null,
+          completedAt: null,
+          pendingRunAt: null,
+          pendingPayload: null,
+        },
+      });
+
+      if (rescheduled.count > 0) {
+        return job.id;
+      }
+
+      const deferred = await tx.scheduledJob.updateMany({
+        where: {
+          id: job.id,
+          status: 'RUNNING',
+        },
+        data: {
+          pendingRunAt: runAt,
+          pendingPayload: data.payload,
+        },
+      });
+
+      if (deferred.count > 0) {
+        console.log(`⚙️ Job ${options.uniqueKey} is running, next run deferred to ${runAt.toISOString()}`);
+        return job.id;
+      }
+    }
+
+    throw new Error(`Failed to schedule job ${options.uniqueKey}: status kept changing`);
+  }
+
+  // Отмена ожидающей задачи (выполняющуюся задачу ее обработчик завершает сам)
+  async cancel(uniqueKey: string): Promise<boolean> {
+    const result = await prisma.scheduledJob.updateMany({
+      where: {
+        uniqueKey,
+        status: 'PENDING',
+      },
+      data: { status: 'CANCELLED' },
+    });
+
+    return result.count > 0;
+  }
+
+  async getActiveUniqueKeys(type: string): Promise<Set<string>> {
+    const jobs = await prisma.scheduledJob.findMany({
+      where: {
+        type,
+        status: { in: ['PENDING', 'RUNNING'] },
+        uniqueKey: { not: null },
+      },
+      select: { uniqueKey: true },
+    });
+
+    return new Set(jobs.map(job => job.uniqueKey as string));
+  }
+
+  async getJobByUniqueKey(uniqueKey: string): Promise<ScheduledJobResponse | null> {
+    const job = await prisma.scheduledJob.findUnique({
+      where: { uniqueKey },
+    });
+
+    return job ? this.formatJob(job) : null;
+  }
+
+  async startWorker(): Promise<void> {
+    if (this.pollInterval) {
+      console.log('⚙️ Job worker is already running');
+      return;
+    }
+
+    await this.ensureRecurringJobs();
+
+    console.log(`⚙️ Starting job worker ${this.workerId} (every ${this.POLL_INTERVAL_MS / 1000}s, types: ${Array.from(this.handlers.keys()).join(', ')})`);
+
+    this.pollInterval = setInterval(() => {
+      this.pollDueJobs().catch(error => {
+        console.error('❌ Job worker error:', error);
+      });
+    }, this.POLL_INTERVAL_MS);
+
+    this.heartbeatInterval = setInterval(() => {
+      this.renewLocks().catch(error => {
+        console.error('❌ Job lock heartbeat error:', error);
+      });
+    }, this.HEARTBEAT_INTERVAL_MS);
+
+    // Задачи, срок которых наступил, пока сервер был остановлен
+    this.pollDueJobs().catch(error => {
+      console.error('❌ Job worker error:', error);
+    });
+  }
+
+  stopWorker(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+
+      if (this.heartbeatInterval) {
+        clearInterval(this.heartbeatInterval);
+        this.heartbeatInterval = null;
+      }
+
+      console.log(`⚙️ Job worker stopped (${this.runningJobs.size} jobs still running)`);
+    }
+  }
+
+  async pollDueJobs(): Promise<number> {
+    if (this.isPolling) {
+      return 0;
+    }
+
+    this.isPolling = true;
+
+    try {
+      await this.releaseStaleLocks();
+
+      const capacity = this.MAX_CONCURRENT_JOBS - this.runningJobs.size;
+      if (capacity <= 0) {
+        return 0;
+      }
+
+      const now = new Date();
+      const dueJobs = await prisma.scheduledJob.findMany({
+        where: {
+          status: 'PENDING',
+          runAt: { lte: now },
+          type: { in: Array.from(this.handlers.keys()) },
+        },
+        orderBy: { runAt: 'asc' },
+        take: capacity,
+        select: { id: true },
+      });
+
+      let started = 0;
+
+      for (const { id } of dueJobs) {
+        // Захватываем задачу атомарно - другой воркер мог забрать ее раньше
+        const claimed = await prisma.scheduledJob.updateMany({
+          where: {
+            id,
+            status: 'PENDING',
+            runAt: { lte: now },
+          },
+          data: {
+            status: 'RUNNING',
+            lockedBy: this.workerId,
+            lockedAt: now,
+            lastRunAt: now,
+            attempts: { increment: 1 },
+          },
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        started++;
+        this.runningJobs.add(id);
+        this.runJob(id)
+          .catch(error => {
+            console.error(`❌ Job ${id} failed to finish:`, error);
+          })
+          .finally(() => {
+            this.runningJobs.delete(id);
+          });
+      }
+
+      return started;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  async getJobs(filters: ScheduledJobFilters): Promise<{
+    jobs: ScheduledJobResponse[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const { page, limit, type, status, uniqueKey } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (status) {
+      where.status = status.toUpperCase();
+    }
+
+    if (uniqueKey) {
+      where.uniqueKey = uniqueKey;
+    }
+
+    const [jobs, total] = await Promise.all([
+      prisma.scheduledJob.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { runAt: 'asc' },
+      }),
+      prisma.scheduledJob.count({ where }),
+    ]);
+
+    return {
+      jobs: jobs.map(job => this.formatJob(job)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getJobById(id: string): Promise<ScheduledJobResponse | null> {
+    const job = await prisma.scheduledJob.findUnique({
+      where: { id },
+    });
+
+    return job ? this.formatJob(job) : null;
+  }
+
+  // Ручной перезапуск (админ): задача выполнится при следующем опросе
+  async retryJob(id: string): Promise<ScheduledJobResponse> {
+    const result = await prisma.scheduledJob.updateMany({
+      where: {
+        id,
+        status: { not: 'RUNNING' },
+      },
+      data: {
+        status: 'PENDING',
+        runAt: new Date(),
+        attempts: 0,
+        completedAt: null,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Job not found or currently running');
+    }
+
+    return (await this.getJobById(id)) as ScheduledJobResponse;
+  }
+
+  async cancelJob(id: string): Promise<ScheduledJobResponse> {
+    const result = await prisma.scheduledJob.updateMany({
+      where: {
+        id,
+        status: 'PENDING',
+      },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Only pending jobs can be cancelled');
+    }
+
+    return (await this.getJobById(id)) as ScheduledJobResponse;
+  }
+
+  async getWorkerStats(): Promise<JobWorkerStats> {
+    const [grouped, overdueJobs] = await Promise.all([
+      prisma.scheduledJob.groupBy({
+        by: ['type', 'status'],
+        _count: { _all: true },
+      }),
+      prisma.scheduledJob.count({
+        where: {
+          status: 'PENDING',
+          runAt: { lt: new Date(Date.now() - this.POLL_INTERVAL_MS * 12) },
+        },
+      }),
+    ]);
+
+    const countsByStatus: Record<string, number> = {};
+    for (const group of grouped) {
+      countsByStatus[group.status] = (countsByStatus[group.status] || 0) + group._count._all;
+    }
+
+    return {
+      workerId: this.workerId,
+      isRunning: this.pollInterval !== null,
+      runningJobs: this.runningJobs.size,
+      registeredTypes: Array.from(this.handlers.keys()),
+      countsByStatus,
+      countsByType: grouped.map(group => ({
+        type: group.type,
+        status: group.status,
+        count: group._count._all,
+      })),
+      overdueJobs,
+    };
+  }
+
+  private async runJob(id: string): Promise<void> {
+    const job = await prisma.scheduledJob.findUnique({
+      where: { id },
+    });
+
+    if (!job) {
+      return;
+    }
+
+    const handler = this.handlers.get(job.type);
+    const now = new Date();
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      const result = await handler(JSON.parse(job.payload), {
+        id: job.id,
+        type: job.type,
+        attempts: job.attempts,
+      });
+
+      if (result?.rescheduleAt) {
+        await this.finishJob(id, {
+          status: 'PENDING',
+          runAt: result.rescheduleAt,
+          ...(result.payload !== undefined && { payload: JSON.stringify(result.payload) }),
+          attempts: 0,
+          lastError: null,
+        });
+      } else if (job.intervalMs) {
+        await this.finishJob(id, {
+          status: 'PENDING',
+          runAt: new Date(Date.now() + job.intervalMs),
+          attempts: 0,
+          lastError: null,
+        });
+      } else {
+        await this.finishJob(id, {
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          lastError: null,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Job ${job.type} (${id}) failed on attempt ${job.attempts}:`, error);
+
+      if (job.intervalMs) {
+        // Периодическая задача не останавливается - следующий запуск по расписанию
+        await this.finishJob(id, {
+          status: 'PENDING',
+          runAt: new Date(now.getTime() + job.intervalMs),
+          lastError: message,
+        });
+      } else if (job.attempts >= job.maxAttempts) {
+        await this.finishJob(id, {
+          status: 'FAILED',
+          lastError: message,
+        });
+      } else {
+        await this.finishJob(id, {
+          status: 'PENDING',
+          runAt: new Date(now.getTime() + this.getRetryDelay(job.attempts)),
+          lastError: message,
+        });
+      }
+    }
+  }
+
+  // Результат записывается, только если задачу не вернули в очередь, пока она выполнялась.
+  // ✅ ОБНОВЛЕНО: Запуск, запрошенный через schedule() во время выполнения (pendingRunAt), важнее результата обработчика
+  private async finishJob(id: string, data: Prisma.ScheduledJobUpdateManyMutationInput): Promise<void> {
+    for (let attempt = 0; attempt < this.SCHEDULE_RACE_RETRIES; attempt++) {
+      const job = await prisma.scheduledJob.findFirst({
+        where: {
+          id,
+          status: 'RUNNING',
+          lockedBy: this.workerId,
+        },
+        select: { pendingRunAt: true, pendingPayload: true },
+      });
+
+      if (!job) {
+        return;
+      }
+
+      const result = await prisma.scheduledJob.updateMany({
+        where: {
+          id,
+          status: 'RUNNING',
+          lockedBy: this.workerId,
+          // schedule() мог записать новый запуск после чтения - тогда читаем заново
+          pendingRunAt: job.pendingRunAt,
+        },
+        data: {
+          ...(job.pendingRunAt
+            ? {
+                status: 'PENDING',
+                runAt: job.pendingRunAt,
+                ...(job.pendingPayload !== null && { payload: job.pendingPayload }),
+                attempts: 0,
+                lastError: null,
+                completedAt: null,
+              }
+            : data),
+          pendingRunAt: null,
+          pendingPayload: null,
+          lockedBy: null,
+          lockedAt: null,
+        },
+      });
+
+      if (result.count > 0) {
+        if (job.pendingRunAt) {
+          console.log(`⚙️ Job ${id} finished, deferred run scheduled at ${job.pendingRunAt.toISOString()}`);
+        }
+        return;
+      }
+    }
+
+    console.warn(`⚠️ Job ${id} result was not saved: reschedule requests kept arriving`);
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(this.BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), this.MAX_RETRY_DELAY_MS);
+  }
+
+  // Продление блокировки задач, которые выполняет этот процесс
+  private async renewLocks(): Promise<void> {
+    if (this.runningJobs.size === 0) {
+      return;
+    }
+
+    await prisma.scheduledJob.updateMany({
+      where: {
+        id: { in: Array.from(this.runningJobs) },
+        status: 'RUNNING',
+        lockedBy: this.workerId,
+      },
+      data: { lockedAt: new Date() },
+    });
+  }
+
+  private async releaseStaleLocks(): Promise<void> {
+    const result = await prisma.scheduledJob.updateMany({
+      where: {
+        status: 'RUNNING',
+        lockedAt: { lt: new Date(Date.now() - this.LOCK_TIMEOUT_MS) },
+      },
+      data: {
+        status: 'PENDING',
+        lockedBy: null,
+        lockedAt: null,
+        lastError: 'Job lock expired (worker stopped or crashed, no heartbeat)',
+      },
+    });
+
+    if (result.count > 0) {
+      console.warn(`⚠️ Released ${result.count} stale job locks`);
+    }
+  }
+
+  private async ensureRecurringJobs(): Promise<void> {
+    // Периодические задачи, которые больше не зарегистрированы (тип удален из кода), отменяем
+    const removed = await prisma.scheduledJob.updateMany({
+      where: {
+        intervalMs: { not: null },
+        status: 'PENDING',
+        type: { notIn: Array.from(this.recurring.keys()) },
+      },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (removed.count > 0) {
+      console.log(`⚙️ Cancelled ${removed.count} recurring jobs without registered handlers`);
+    }
+
+    for (const [type, intervalMs] of this.recurring) {
+      const uniqueKey = `recurring:${type}`;
+
+      try {
+        await prisma.scheduledJob.create({
+          data: {
+            type,
+            uniqueKey,
+            payload: '{}',
+            runAt: new Date(),
+            intervalMs,
+          },
+        });
+
+        console.log(`⚙️ Recurring job ${type} scheduled (every ${intervalMs / 1000}s)`);
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+
+        // Задача уже есть - обновляем интервал и возвращаем отмененную/упавшую в расписание
+        await prisma.scheduledJob.update({
+          where: { uniqueKey },
+          data: { intervalMs },
+        });
+
+        await prisma.scheduledJob.updateMany({
+          where: {
+            uniqueKey,
+            status: { in: ['COMPLETED', 'FAILED', 'CANCELLED'] },
+          },
+          data: {
+            status: 'PENDING',
+            runAt: new Date(),
+            attempts: 0,
+          },
+        });
+      }
+    }
+  }
+
+  private async cleanupFinishedJobs(): Promise<number> {
+    const result = await prisma.scheduledJob.deleteMany({
+      where: {
+        status: { in: ['COMPLETED', 'CANCELLED'] },
+        updatedAt: { lt: new Date(Date.now() - this.RETENTION_MS) },
+      },
+    });
+
+    if (result.count > 0) {
+      console.log(`🧹 Removed ${result.count} finished jobs`);
+    }
+
+    return result.count;
+  }
+
+  private formatJob(job: any): ScheduledJobResponse {
+    let payload: any = job.payload;
+    try {
+      payload = JSON.parse(job.payload);
+    } catch {
+      // Оставляем как строку
+    }
+
+    return {
+      id: job.id,
+      type: job.type,
+      uniqueKey: job.uniqueKey,
+      payload,
+      status: job.status,
+      runAt: job.runAt,
+      intervalMs: job.intervalMs,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lockedBy: job.lockedBy,
+      lockedAt: job.lockedAt,
+      lastError: job.lastError,
+      lastRunAt: job.lastRunAt,
+      completedAt: job.completedAt,
+      pendingRunAt: job.pendingRunAt,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+}
+
+export const jobService = new JobService();
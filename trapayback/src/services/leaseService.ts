@@ -0,0 +1,148 @@
+import os from 'os';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { ServiceLeaseStatus } from '../types/job';
+
+// ✅ ДОБАВЛЕНО: Аренда (lease) периодических задач в БД.
+// Таймеры запускаются в каждом инстансе API, но задача выполняется только у владельца аренды:
+// владелец продлевает ее при каждом запуске, остальные пропускают запуск. Если владелец
+// остановился или упал, аренду забирает другой инстанс после истечения ttl.
+export class LeaseService {
+  readonly instanceId = `${os.hostname()}:${process.pid}`;
+  private heldLeases = new Set<string>();
+
+  async acquire(name: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    // Продление своей аренды
+    const renewed = await prisma.serviceLease.updateMany({
+      where: { name, owner: this.instanceId },
+      data: { expiresAt },
+    });
+
+    if (renewed.count > 0) {
+      this.markHeld(name, true);
+      return true;
+    }
+
+    // Захват истекшей аренды другого инстанса
+    const taken = await prisma.serviceLease.updateMany({
+      where: { name, expiresAt: { lt: now } },
+      data: { owner: this.instanceId, acquiredAt: now, expiresAt },
+    });
+
+    if (taken.count > 0) {
+      this.markHeld(name, true);
+      return true;
+    }
+
+    try {
+      await prisma.serviceLease.create({
+        data: { name, owner: this.instanceId, acquiredAt: now, expiresAt },
+      });
+
+      this.markHeld(name, true);
+      return true;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+
+      this.markHeld(name, false);
+      return false;
+    }
+  }
+
+  // Выполняет задачу, только если этот инстанс владеет арендой. false - запуск пропущен.
+  async runExclusive(name: string, ttlMs: number, task: () => Promise<void>): Promise<boolean> {
+    let acquired: boolean;
+
+    try {
+      acquired = await this.acquire(name, ttlMs);
+    } catch (error) {
+      console.error(`❌ Failed to acquire lease ${name}, skipping run:`, error);
+      return false;
+    }
+
+    if (!acquired) {
+      return false;
+    }
+
+    await task();
+    return true;
+  }
+
+  async release(name: string): Promise<void> {
+    await prisma.serviceLease.deleteMany({
+      where: { name, owner: this.instanceId },
+    });
+
+    this.heldLeases.delete(name);
+  }
+
+  // При остановке сервера - другой инстанс сразу забирает задачи
+  async releaseAll(): Promise<void> {
+    const result = await prisma.serviceLease.deleteMany({
+      where: { owner: this.instanceId },
+    });
+
+    this.heldLeases.clear();
+
+    if (result.count > 0) {
+      console.log(`🔓 Released ${result.count} service leases held by ${this.instanceId}`);
+    }
+  }
+
+  async getLeaseStatus(name: string): Promise<ServiceLeaseStatus> {
+    const lease = await prisma.serviceLease.findUnique({
+      where: { name },
+    });
+
+    return this.formatLease(name, lease);
+  }
+
+  async getLeases(): Promise<ServiceLeaseStatus[]> {
+    const leases = await prisma.serviceLease.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return leases.map(lease => this.formatLease(lease.name, lease));
+  }
+
+  private markHeld(name: string, held: boolean): void {
+    if (held && !this.heldLeases.has(name)) {
+      this.heldLeases.add(name);
+      console.log(`🔒 Lease ${name} acquired by ${this.instanceId}`);
+    } else if (!held && this.heldLeases.has(name)) {
+      this.heldLeases.delete(name);
+      console.log(`🔓 Lease ${name} lost by ${this.instanceId}`);
+    }
+  }
+
+  private formatLease(name: string, lease: { owner: string; acquiredAt: Date; expiresAt: Date } | null): ServiceLeaseStatus {
+    if (!lease) {
+      return {
+        name,
+        owner: null,
+        heldByThisInstance: false,
+        isExpired: true,
+        acquiredAt: null,
+        expiresAt: null,
+      };
+    }
+
+    const isExpired = lease.expiresAt < new Date();
+
+    return {
+      name,
+      owner: lease.owner,
+      heldByThisInstance: lease.owner === this.instanceId && !isExpired,
+      isExpired,
+      acquiredAt: lease.acquiredAt,
+      expiresAt: lease.expiresAt,
+    };
+  }
+}
+
+export const leaseService = new LeaseService();
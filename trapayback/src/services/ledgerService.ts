@@ -0,0 +1,869 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { currencyService } from './currencyService';
+import { jobService } from './jobService';
+import { getShopGatewaySettings, roundAmount } from './gateways/gatewaySettingsHelpers';
+import { createError } from '../middleware/errorHandler';
+import { ACTIVE_REFUND_STATUSES } from '../types/refund';
+import {
+  LEDGER_ACCOUNT_TYPES,
+  LedgerAccountTypeValue,
+  LEDGER_TRANSACTION_TYPES,
+  LedgerTransactionTypeValue,
+  LedgerEntryInput,
+  LedgerPostingInput,
+  LedgerPaymentMetadata,
+  LedgerPaymentAmount,
+  ShopBalanceResponse,
+  LedgerStatementFilters,
+  LedgerStatementEntry,
+  CreateLedgerAdjustmentRequest,
+} from '../types/ledger';
+
+type TransactionClient = Prisma.TransactionClient;
+
+const PAYMENT_STATUS_JOB = 'ledger.payment_status';
+
+// Оплата остается на балансе магазина, пока платеж в PAID (частичные возвраты - отдельные проводки).
+// Уход из PAID (REFUND, CHARGEBACK) сторнирует остаток, как и в статистике выплат.
+const SETTLED_PAYMENT_STATUS = 'PAID';
+
+// ✅ ДОБАВЛЕНО: Баланс магазина по двойной записи (все суммы в USDT).
+// Каждое событие (оплата, окончание задержки выплаты, возврат, chargeback, выплата, корректировка)
+// пишет проводку с нулевой суммой записей: деньги только перемещаются между счетами магазина,
+// внешняя сторона - счет CLEARING. Проводки событий идемпотентны (idempotencyKey), поэтому
+// периодическая досинхронизация (ledger.backfill) безопасно дописывает пропущенные и исторические события.
+// PAID_OUT всегда равен сумме выполненных выплат, RESERVED - сумме запрошенных.
+export class LedgerService {
+  private readonly RELEASE_INTERVAL_MS = 10 * 60 * 1000; // 10 минут
+  private readonly BACKFILL_INTERVAL_MS = 60 * 60 * 1000; // 1 час
+  private readonly BATCH_SIZE = 200;
+
+  constructor() {
+    jobService.registerRecurring('ledger.release_pending', this.RELEASE_INTERVAL_MS, async () => {
+      await this.releaseDueFunds();
+    });
+
+    jobService.registerRecurring('ledger.backfill', this.BACKFILL_INTERVAL_MS, async () => {
+      await this.backfill();
+    });
+
+    // Ошибка (например, недоступен курс валюты) - повтор по расписанию воркера
+    jobService.registerHandler(PAYMENT_STATUS_JOB, async (payload) => {
+      await this.handlePaymentStatusChange(payload.paymentId, payload.oldStatus, payload.newStatus);
+    });
+  }
+
+  // Пишет проводку. Возвращает ID проводки или null, если проводка с таким ключом уже есть.
+  // Проводка события без ненулевых сумм сохраняется без записей - как отметка, что событие учтено.
+  async post(input: LedgerPostingInput, tx?: TransactionClient): Promise<string | null> {
+    const entries = input.entries
+      .map(entry => ({ account: entry.account, amount: roundAmount(entry.amount) }))
+      .filter(entry => entry.amount !== 0);
+
+    const total = roundAmount(entries.reduce((sum, entry) => sum + entry.amount, 0));
+    if (total !== 0) {
+      throw new Error(`Unbalanced ledger transaction ${input.type} for shop ${input.shopId}: entries sum to ${total}`);
+    }
+
+    if (entries.length === 0 && !input.idempotencyKey) {
+      return null;
+    }
+
+    if (!tx) {
+      try {
+        return await prisma.$transaction(transaction => this.post(input, transaction));
+      } catch (error) {
+        // Параллельная запись той же проводки
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002' && input.idempotencyKey) {
+          return null;
+        }
+        throw error;
+      }
+    }
+
+    if (input.idempotencyKey) {
+      const existing = await tx.ledgerTransaction.findUnique({
+        where: { idempotencyKey: input.idempotencyKey },
+        select: { id: true },
+      });
+
+      if (existing) {
+        return null;
+      }
+    }
+
+    const transaction = await tx.ledgerTransaction.create({
+      data: {
+        shopId: input.shopId,
+        type: input.type,
+        idempotencyKey: input.idempotencyKey,
+        description: input.description,
+        paymentId: input.paymentId,
+        payoutId: input.payoutId,
+        refundId: input.refundId,
+        availableAt: input.availableAt,
+        metadata: input.metadata,
+        createdBy: input.createdBy,
+      },
+    });
+
+    await tx.ledgerAccount.createMany({
+      data: entries.map(entry => ({ shopId: input.shopId, type: entry.account })),
+      skipDuplicates: true,
+    });
+
+    // Счета обновляются в фиксированном порядке, чтобы параллельные проводки не блокировали друг друга
+    const sortedEntries = [...entries].sort(
+      (a, b) => LEDGER_ACCOUNT_TYPES.indexOf(a.account) - LEDGER_ACCOUNT_TYPES.indexOf(b.account)
+    );
+
+    for (const entry of sortedEntries) {
+      const account = await tx.ledgerAccount.update({
+        where: { shopId_type: { shopId: input.shopId, type: entry.account } },
+        data: { balance: { increment: entry.amount } },
+      });
+
+      await tx.ledgerEntry.create({
+        data: {
+          transactionId: transaction.id,
+          accountId: account.id,
+          amount: entry.amount,
+          balanceAfter: roundAmount(account.balance),
+        },
+      });
+    }
+
+    return transaction.id;
+  }
+
+  // ✅ ОБНОВЛЕНО: PaymentStatusService ставит проводку в очередь в транзакции смены статуса,
+  // поэтому примененный переход не может остаться без проводки
+  async schedulePaymentStatusChange(tx: TransactionClient, paymentId: string, oldStatus: string, newStatus: string): Promise<void> {
+    await jobService.schedule(PAYMENT_STATUS_JOB, { paymentId, oldStatus, newStatus }, new Date(), { maxAttempts: 10 }, tx);
+  }
+
+  // Выполняется задачей ledger.payment_status после каждого примененного перехода статуса
+  async handlePaymentStatusChange(paymentId: string, oldStatus: string, newStatus: string): Promise<void> {
+    if (newStatus === SETTLED_PAYMENT_STATUS) {
+      await this.recordPaymentSettled(paymentId);
+    } else if (oldStatus === SETTLED_PAYMENT_STATUS) {
+      await this.recordPaymentReversal(paymentId);
+    }
+  }
+
+  // Оплата: CLEARING -> PENDING (за вычетом комиссии) + FEES. Доступна к выплате после payoutDelay шлюза.
+  // ✅ ОБНОВЛЕНО: Rolling reserve платежа удерживается на ROLLING_RESERVE до даты освобождения
+  async recordPaymentSettled(paymentId: string): Promise<void> {
+    const idempotencyKey = `payment:${paymentId}:paid`;
+
+    if (await this.hasTransaction(idempotencyKey)) {
+      return;
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: {
+        id: true,
+        shopId: true,
+        amount: true,
+        creditedAmount: true,
+        currency: true,
+        gateway: true,
+        status: true,
+        paidAt: true,
+        reservePercent: true,
+        reserveReleasedAt: true,
+        shop: {
+          select: { gatewaySettings: true },
+        },
+      },
+    });
+
+    if (!payment || payment.status !== SETTLED_PAYMENT_STATUS) {
+      return;
+    }
+
+    const amount = payment.creditedAmount ?? payment.amount;
+    const grossAmount = roundAmount(await currencyService.convertToUSDT(amount, payment.currency));
+    const { commission, payoutDelay } = getShopGatewaySettings(payment.shop.gatewaySettings, payment.gateway);
+    const fee = roundAmount(grossAmount * commission / 100);
+    const paidAt = payment.paidAt || new Date();
+    // Уже освобожденный резерв (проводка дописана ledger.backfill) сразу идет в PENDING
+    const reserve = payment.reserveReleasedAt ? 0 : roundAmount((grossAmount - fee) * (payment.reservePercent || 0) / 100);
+
+    await this.post({
+      shopId: payment.shopId,
+      type: 'PAYMENT',
+      idempotencyKey,
+      description: `Payment ${payment.id}: ${amount} ${payment.currency} via ${payment.gateway}`,
+      paymentId: payment.id,
+      availableAt: new Date(paidAt.getTime() + payoutDelay * 24 * 60 * 60 * 1000),
+      metadata: { amount, currency: payment.currency, gateway: payment.gateway, grossAmount, commission },
+      entries: [
+        { account: 'CLEARING', amount: -grossAmount },
+        { account: 'PENDING', amount: grossAmount - fee - reserve },
+        { account: 'ROLLING_RESERVE', amount: reserve },
+        { account: 'FEES', amount: fee },
+      ],
+    });
+  }
+
+  // Изменение зачтенной суммы уже проведенного платежа (решение по переплате) по курсу исходной проводки
+  async recordCreditAdjustment(paymentId: string): Promise<void> {
+    const idempotencyKey = `payment:${paymentId}:credit`;
+    const paymentTransaction = await this.getPaymentTransaction(paymentId);
+
+    if (!paymentTransaction || await this.hasTransaction(idempotencyKey)) {
+      return;
+    }
+
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: { amount: true, creditedAmount: true, currency: true },
+    });
+
+    const metadata = this.getPaymentMetadata(paymentTransaction);
+    const rate = metadata.amount > 0 ? metadata.grossAmount / metadata.amount : 0;
+    const delta = roundAmount((payment.creditedAmount ?? payment.amount) * rate - metadata.grossAmount);
+    const fee = roundAmount(delta * metadata.commission / 100);
+
+    await this.post({
+      shopId: paymentTransaction.shopId,
+      type: 'PAYMENT_ADJUSTMENT',
+      idempotencyKey,
+      description: `Credited amount of payment ${paymentId} changed to ${payment.creditedAmount ?? payment.amount} ${payment.currency}`,
+      paymentId,
+      entries: [
+        { account: 'CLEARING', amount: -delta },
+        { account: this.getMerchantAccount(paymentTransaction), amount: delta - fee },
+        { account: 'FEES', amount: fee },
+      ],
+    });
+  }
+
+  // Платеж ушел из PAID (полный возврат, chargeback, принудительная смена статуса): все его проводки сторнируются,
+  // остаток снимается со счетов, где он сейчас (в том числе уже выплаченный - AVAILABLE уходит в минус).
+  // После полного возврата через API остаток нулевой, и проводка только отмечает платеж закрытым.
+  async recordPaymentReversal(paymentId: string): Promise<void> {
+    const idempotencyKey = `payment:${paymentId}:reversal`;
+    const paymentTransaction = await this.getPaymentTransaction(paymentId);
+
+    if (paymentTransaction && !await this.hasTransaction(idempotencyKey)) {
+      const entries = await this.sumEntriesByAccount({
+        paymentId,
+        type: { in: ['PAYMENT', 'PAYMENT_RELEASE', 'RESERVE_RELEASE', 'PAYMENT_ADJUSTMENT', 'REFUND', 'REFUND_REVERSAL'] },
+      });
+
+      await prisma.$transaction(async (tx) => {
+        await this.post({
+          shopId: paymentTransaction.shopId,
+          type: 'PAYMENT_REVERSAL',
+          idempotencyKey,
+          description: `Payment ${paymentId} reversed`,
+          paymentId,
+          entries: entries.map(entry => ({ account: entry.account, amount: -entry.amount })),
+        }, tx);
+
+        // Сторнированный платеж больше не переходит из PENDING в AVAILABLE
+        await tx.ledgerTransaction.updateMany({
+          where: { id: paymentTransaction.id, releasedAt: null },
+          data: { releasedAt: new Date() },
+        });
+      });
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { shopId: true, status: true, chargebackAmount: true },
+    });
+
+    // Штраф по chargeback (USDT) удерживается из доступного баланса
+    if (payment?.status === 'CHARGEBACK' && payment.chargebackAmount && payment.chargebackAmount > 0) {
+      await this.post({
+        shopId: payment.shopId,
+        type: 'CHARGEBACK_PENALTY',
+        idempotencyKey: `payment:${paymentId}:penalty`,
+        description: `Chargeback penalty for payment ${paymentId}`,
+        paymentId,
+        entries: [
+          { account: 'AVAILABLE', amount: -payment.chargebackAmount },
+          { account: 'PENALTIES', amount: payment.chargebackAmount },
+        ],
+      });
+    }
+  }
+
+  // Возврат (в том числе ожидающий обработки): сумма возврата с комиссией исходной оплаты возвращается в CLEARING
+  async recordRefund(refundId: string): Promise<void> {
+    const idempotencyKey = `refund:${refundId}`;
+
+    if (await this.hasTransaction(idempotencyKey)) {
+      return;
+    }
+
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      select: { id: true, paymentId: true, shopId: true, amount: true, currency: true, status: true },
+    });
+
+    if (!refund || !ACTIVE_REFUND_STATUSES.includes(refund.status)) {
+      return;
+    }
+
+    // Платеж еще не проведен - возврат допишет ledger.backfill после проводки платежа
+    const paymentTransaction = await this.getPaymentTransaction(refund.paymentId);
+    if (!paymentTransaction || await this.hasTransaction(`payment:${refund.paymentId}:reversal`)) {
+      return;
+    }
+
+    const metadata = this.getPaymentMetadata(paymentTransaction);
+    const refundAmount = roundAmount(await currencyService.convertToUSDT(refund.amount, refund.currency));
+    const fee = roundAmount(refundAmount * metadata.commission / 100);
+
+    await this.post({
+      shopId: refund.shopId,
+      type: 'REFUND',
+      idempotencyKey,
+      description: `Refund ${refund.id} of payment ${refund.paymentId}: ${refund.amount} ${refund.currency}`,
+      paymentId: refund.paymentId,
+      refundId: refund.id,
+      entries: [
+        { account: this.getMerchantAccount(paymentTransaction), amount: -(refundAmount - fee) },
+        { account: 'FEES', amount: -fee },
+        { account: 'CLEARING', amount: refundAmount },
+      ],
+    });
+  }
+
+  // Отклоненный или неудавшийся возврат возвращает средства магазину
+  async recordRefundReversal(refundId: string): Promise<void> {
+    const idempotencyKey = `refund:${refundId}:reversal`;
+    const refundTransaction = await prisma.ledgerTransaction.findUnique({
+      where: { idempotencyKey: `refund:${refundId}` },
+    });
+
+    if (!refundTransaction || await this.hasTransaction(idempotencyKey)) {
+      return;
+    }
+
+    // Платеж уже сторнирован целиком вместе с этим возвратом
+    if (await this.hasTransaction(`payment:${refundTransaction.paymentId}:reversal`)) {
+      return;
+    }
+
+    const paymentTransaction = await this.getPaymentTransaction(refundTransaction.paymentId!);
+    const entries = await this.sumEntriesByAccount({ id: refundTransaction.id });
+
+    await this.post({
+      shopId: refundTransaction.shopId,
+      type: 'REFUND_REVERSAL',
+      idempotencyKey,
+      description: `Refund ${refundId} was not completed`,
+      paymentId: refundTransaction.paymentId || undefined,
+      refundId,
+      entries: entries.map(entry => ({
+        // Если платеж уже стал доступен к выплате, средства возвращаются в AVAILABLE
+        account: entry.account === 'PENDING' && paymentTransaction ? this.getMerchantAccount(paymentTransaction) : entry.account,
+        amount: -entry.amount,
+      })),
+    });
+  }
+
+  // ✅ ДОБАВЛЕНО: Rolling reserve освобожден (в транзакции RollingReserveService): ROLLING_RESERVE -> AVAILABLE
+  async recordReserveRelease(tx: TransactionClient, payment: { id: string; shopId: string }): Promise<void> {
+    const reserve = await tx.ledgerEntry.aggregate({
+      where: {
+        account: { type: 'ROLLING_RESERVE' },
+        transaction: { paymentId: payment.id },
+      },
+      _sum: { amount: true },
+    });
+    const amount = reserve._sum.amount || 0;
+
+    await this.post({
+      shopId: payment.shopId,
+      type: 'RESERVE_RELEASE',
+      idempotencyKey: `payment:${payment.id}:reserve_release`,
+      description: `Rolling reserve of payment ${payment.id} released`,
+      paymentId: payment.id,
+      entries: [
+        { account: 'ROLLING_RESERVE', amount: -amount },
+        { account: 'AVAILABLE', amount },
+      ],
+    }, tx);
+  }
+
+  // Выплаты проводятся в транзакции, которая меняет статус выплаты
+  async recordPayoutRequested(tx: TransactionClient, payout: { id: string; shopId: string; amount: number }): Promise<void> {
+    await this.post({
+      shopId: payout.shopId,
+      type: 'PAYOUT_REQUEST',
+      idempotencyKey: `payout:${payout.id}:requested`,
+      description: `Payout ${payout.id} requested`,
+      payoutId: payout.id,
+      entries: [
+        { account: 'AVAILABLE', amount: -payout.amount },
+        { account: 'RESERVED', amount: payout.amount },
+      ],
+    }, tx);
+  }
+
+  async recordPayoutCompleted(tx: TransactionClient, payout: { id: string; shopId: string; amount: number }): Promise<void> {
+    const request = await tx.ledgerTransaction.findUnique({
+      where: { idempotencyKey: `payout:${payout.id}:requested` },
+      select: { id: true },
+    });
+
+    await this.post({
+      shopId: payout.shopId,
+      type: 'PAYOUT',
+      idempotencyKey: `payout:${payout.id}:completed`,
+      description: `Payout ${payout.id} completed`,
+      payoutId: payout.id,
+      entries: [
+        { account: request ? 'RESERVED' : 'AVAILABLE', amount: -payout.amount },
+        { account: 'PAID_OUT', amount: payout.amount },
+      ],
+    }, tx);
+  }
+
+  async recordPayoutRejected(tx: TransactionClient, payout: { id: string; shopId: string; amount: number }): Promise<void> {
+    await this.post({
+      shopId: payout.shopId,
+      type: 'PAYOUT_REJECTION',
+      idempotencyKey: `payout:${payout.id}:rejected`,
+      description: `Payout ${payout.id} rejected`,
+      payoutId: payout.id,
+      entries: [
+        { account: 'RESERVED', amount: -payout.amount },
+        { account: 'AVAILABLE', amount: payout.amount },
+      ],
+    }, tx);
+  }
+
+  // Удаленная выплата: все ее проводки сторнируются, средства возвращаются в AVAILABLE
+  async recordPayoutDeleted(tx: TransactionClient, payout: { id: string; shopId: string }): Promise<void> {
+    const entries = await this.sumEntriesByAccount({ payoutId: payout.id }, tx);
+    const reserved = entries.find(entry => entry.account === 'RESERVED')?.amount || 0;
+    const paidOut = entries.find(entry => entry.account === 'PAID_OUT')?.amount || 0;
+
+    await this.post({
+      shopId: payout.shopId,
+      type: 'PAYOUT_REVERSAL',
+      idempotencyKey: `payout:${payout.id}:deleted`,
+      description: `Payout ${payout.id} deleted`,
+      entries: [
+        { account: 'RESERVED', amount: -reserved },
+        { account: 'PAID_OUT', amount: -paidOut },
+        { account: 'AVAILABLE', amount: reserved + paidOut },
+      ],
+    }, tx);
+  }
+
+  // Ручная корректировка админом: выбранный счет магазина против CLEARING
+  async recordAdjustment(shopId: string, data: CreateLedgerAdjustmentRequest, adminId?: string): Promise<ShopBalanceResponse> {
+    await this.ensureShopExists(shopId);
+
+    const account = data.account || 'AVAILABLE';
+
+    await this.post({
+      shopId,
+      type: 'ADJUSTMENT',
+      description: data.description,
+      createdBy: adminId,
+      metadata: { account },
+      entries: [
+        { account, amount: data.amount },
+        { account: 'CLEARING', amount: -data.amount },
+      ],
+    });
+
+    console.log(`🧾 Ledger adjustment for shop ${shopId}: ${data.amount} USDT on ${account} (${data.description})`);
+
+    return this.getBalance(shopId);
+  }
+
+  // Средства платежей, у которых прошла задержка выплаты: PENDING -> AVAILABLE
+  async releaseDueFunds(): Promise<number> {
+    const due = await prisma.ledgerTransaction.findMany({
+      where: {
+        type: 'PAYMENT',
+        releasedAt: null,
+        availableAt: { lte: new Date() },
+      },
+      select: { id: true, shopId: true, paymentId: true },
+      orderBy: { availableAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    let releasedCount = 0;
+
+    for (const paymentTransaction of due) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          const claimed = await tx.ledgerTransaction.updateMany({
+            where: { id: paymentTransaction.id, releasedAt: null },
+            data: { releasedAt: new Date() },
+          });
+
+          if (claimed.count === 0) {
+            return;
+          }
+
+          // Остаток на PENDING после возвратов, проведенных до окончания задержки
+          const pending = await tx.ledgerEntry.aggregate({
+            where: {
+              account: { type: 'PENDING' },
+              transaction: { paymentId: paymentTransaction.paymentId },
+            },
+            _sum: { amount: true },
+          });
+          const amount = pending._sum.amount || 0;
+
+          await this.post({
+            shopId: paymentTransaction.shopId,
+            type: 'PAYMENT_RELEASE',
+            idempotencyKey: `payment:${paymentTransaction.paymentId}:release`,
+            description: `Payment ${paymentTransaction.paymentId} available for payout`,
+            paymentId: paymentTransaction.paymentId || undefined,
+            entries: [
+              { account: 'PENDING', amount: -amount },
+              { account: 'AVAILABLE', amount },
+            ],
+          }, tx);
+        });
+
+        releasedCount++;
+      } catch (error) {
+        console.error(`❌ [LEDGER] Failed to release funds of payment ${paymentTransaction.paymentId}:`, error);
+      }
+    }
+
+    if (releasedCount > 0) {
+      console.log(`🧾 [LEDGER] Released ${releasedCount} payments to available balance`);
+    }
+
+    return releasedCount;
+  }
+
+  // Дописывает проводки для событий, которые произошли до появления ledger или не были проведены из-за ошибки
+  async backfill(): Promise<void> {
+    const take = this.BATCH_SIZE;
+
+    // Проведенный и не сторнированный платеж - только к нему относятся возвраты
+    const openPaymentFilter: Prisma.PaymentWhereInput = {
+      AND: [
+        { ledgerTransactions: { some: { type: 'PAYMENT' } } },
+        { ledgerTransactions: { none: { type: 'PAYMENT_REVERSAL' } } },
+      ],
+    };
+
+    const unpostedPayments = await prisma.payment.findMany({
+      where: {
+        status: SETTLED_PAYMENT_STATUS,
+        ledgerTransactions: { none: { type: 'PAYMENT' } },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take,
+    });
+
+    const reversedPayments = await prisma.payment.findMany({
+      where: {
+        status: { not: SETTLED_PAYMENT_STATUS },
+        AND: [
+          { ledgerTransactions: { some: { type: 'PAYMENT' } } },
+          { ledgerTransactions: { none: { type: 'PAYMENT_REVERSAL' } } },
+        ],
+      },
+      select: { id: true },
+      take,
+    });
+
+    const unpostedRefunds = await prisma.refund.findMany({
+      where: {
+        status: { in: ACTIVE_REFUND_STATUSES },
+        ledgerTransactions: { none: { type: 'REFUND' } },
+        payment: openPaymentFilter,
+      },
+      select: { id: true },
+      take,
+    });
+
+    const failedRefunds = await prisma.refund.findMany({
+      where: {
+        status: { in: ['FAILED', 'REJECTED'] },
+        AND: [
+          { ledgerTransactions: { some: { type: 'REFUND' } } },
+          { ledgerTransactions: { none: { type: 'REFUND_REVERSAL' } } },
+        ],
+        payment: openPaymentFilter,
+      },
+      select: { id: true },
+      take,
+    });
+
+    const payouts = await prisma.payout.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING', ledgerTransactions: { none: { type: 'PAYOUT_REQUEST' } } },
+          { status: 'COMPLETED', ledgerTransactions: { none: { type: 'PAYOUT' } } },
+          {
+            status: 'REJECTED',
+            AND: [
+              { ledgerTransactions: { some: { type: 'PAYOUT_REQUEST' } } },
+              { ledgerTransactions: { none: { type: 'PAYOUT_REJECTION' } } },
+            ],
+          },
+        ],
+      },
+      select: { id: true, shopId: true, amount: true, status: true },
+      orderBy: { createdAt: 'asc' },
+      take,
+    });
+
+    const tasks: Array<[string, () => Promise<void>]> = [
+      ...unpostedPayments.map(payment => [`payment ${payment.id}`, () => this.recordPaymentSettled(payment.id)] as [string, () => Promise<void>]),
+      ...reversedPayments.map(payment => [`reversal of payment ${payment.id}`, () => this.recordPaymentReversal(payment.id)] as [string, () => Promise<void>]),
+      ...unpostedRefunds.map(refund => [`refund ${refund.id}`, () => this.recordRefund(refund.id)] as [string, () => Promise<void>]),
+      ...failedRefunds.map(refund => [`reversal of refund ${refund.id}`, () => this.recordRefundReversal(refund.id)] as [string, () => Promise<void>]),
+      ...payouts.map(payout => [`payout ${payout.id}`, () => prisma.$transaction(async (tx) => {
+        if (payout.status === 'PENDING') {
+          await this.recordPayoutRequested(tx, payout);
+        } else if (payout.status === 'COMPLETED') {
+          await this.recordPayoutCompleted(tx, payout);
+        } else {
+          await this.recordPayoutRejected(tx, payout);
+        }
+      })] as [string, () => Promise<void>]),
+    ];
+
+    if (tasks.length === 0) {
+      return;
+    }
+
+    console.log(`🧾 [LEDGER] Backfilling ${tasks.length} unposted events`);
+
+    for (const [label, task] of tasks) {
+      try {
+        await task();
+      } catch (error) {
+        console.error(`❌ [LEDGER] Failed to post ${label}:`, error);
+      }
+    }
+  }
+
+  // tx - чтобы прочитать баланс под блокировкой вызывающей транзакции (запрос выплаты)
+  async getBalance(shopId: string, tx: TransactionClient = prisma): Promise<ShopBalanceResponse> {
+    await this.ensureShopExists(shopId, tx);
+
+    const accounts = await tx.ledgerAccount.findMany({
+      where: { shopId },
+    });
+
+    const balance = (type: LedgerAccountTypeValue) =>
+      roundAmount(accounts.find(account => account.type === type)?.balance || 0);
+
+    const updatedAt = accounts.reduce<Date | null>(
+      (latest, account) => (!latest || account.updatedAt > latest ? account.updatedAt : latest),
+      null
+    );
+
+    return {
+      currency: 'USDT',
+      pending: balance('PENDING'),
+      available: balance('AVAILABLE'),
+      reserved: balance('RESERVED'),
+      paidOut: balance('PAID_OUT'),
+      fees: balance('FEES'),
+      penalties: balance('PENALTIES'),
+      rollingReserve: balance('ROLLING_RESERVE'),
+      updatedAt,
+    };
+  }
+
+  // ✅ ДОБАВЛЕНО: Суммы платежей, как их провел ledger (курс и комиссия на момент оплаты, возвраты - по их проводкам).
+  // Встречный счет CLEARING каждой проводки платежа несет ее сумму до комиссии. Платежи без проводки PAYMENT не возвращаются.
+  async getRecordedPaymentAmounts(tx: TransactionClient, paymentIds: string[]): Promise<Map<string, LedgerPaymentAmount>> {
+    const amounts = new Map<string, LedgerPaymentAmount>();
+
+    if (paymentIds.length === 0) {
+      return amounts;
+    }
+
+    const [paymentTransactions, clearingEntries] = await Promise.all([
+      tx.ledgerTransaction.findMany({
+        where: { paymentId: { in: paymentIds }, type: 'PAYMENT' },
+        select: { paymentId: true, metadata: true },
+      }),
+      tx.ledgerEntry.findMany({
+        where: {
+          account: { type: 'CLEARING' },
+          transaction: {
+            paymentId: { in: paymentIds },
+            type: { in: ['PAYMENT', 'PAYMENT_ADJUSTMENT', 'REFUND', 'REFUND_REVERSAL'] },
+          },
+        },
+        select: { amount: true, transaction: { select: { paymentId: true } } },
+      }),
+    ]);
+
+    for (const transaction of paymentTransactions) {
+      const metadata = this.getPaymentMetadata(transaction);
+      amounts.set(transaction.paymentId!, { grossAmount: 0, commission: metadata.commission });
+    }
+
+    for (const entry of clearingEntries) {
+      const amount = amounts.get(entry.transaction.paymentId!);
+      if (amount) {
+        amount.grossAmount = roundAmount(amount.grossAmount - entry.amount);
+      }
+    }
+
+    return amounts;
+  }
+
+  // Выписка по счетам магазина (по умолчанию - все счета, кроме встречного CLEARING)
+  async getStatement(shopId: string, filters: LedgerStatementFilters): Promise<{
+    entries: LedgerStatementEntry[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    await this.ensureShopExists(shopId);
+
+    const { page, limit, account, type, dateFrom, dateTo } = filters;
+    const skip = (page - 1) * limit;
+
+    if (account && !LEDGER_ACCOUNT_TYPES.includes(account.toUpperCase() as LedgerAccountTypeValue)) {
+      throw createError(`Unknown ledger account: ${account}`, 400);
+    }
+
+    if (type && !LEDGER_TRANSACTION_TYPES.includes(type.toUpperCase() as LedgerTransactionTypeValue)) {
+      throw createError(`Unknown ledger transaction type: ${type}`, 400);
+    }
+
+    const where: Prisma.LedgerEntryWhereInput = {
+      account: {
+        shopId,
+        type: account ? account.toUpperCase() as LedgerAccountTypeValue : { not: 'CLEARING' },
+      },
+    };
+
+    if (type) {
+      where.transaction = { type: type.toUpperCase() as LedgerTransactionTypeValue };
+    }
+
+    if (dateFrom || dateTo) {
+      where.createdAt = {
+        ...(dateFrom && { gte: new Date(dateFrom) }),
+        ...(dateTo && { lte: new Date(dateTo) }),
+      };
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.ledgerEntry.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        include: {
+          account: { select: { type: true } },
+          transaction: {
+            select: {
+              type: true,
+              description: true,
+              paymentId: true,
+              payoutId: true,
+              refundId: true,
+            },
+          },
+        },
+      }),
+      prisma.ledgerEntry.count({ where }),
+    ]);
+
+    return {
+      entries: entries.map(entry => ({
+        id: entry.id,
+        transactionId: entry.transactionId,
+        type: entry.transaction.type,
+        description: entry.transaction.description,
+        account: entry.account.type,
+        amount: entry.amount,
+        balanceAfter: entry.balanceAfter,
+        paymentId: entry.transaction.paymentId,
+        payoutId: entry.transaction.payoutId,
+        refundId: entry.transaction.refundId,
+        createdAt: entry.createdAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async ensureShopExists(shopId: string, tx: TransactionClient = prisma): Promise<void> {
+    const shop = await tx.shop.findUnique({
+      where: { id: shopId },
+      select: { id: true },
+    });
+
+    if (!shop) {
+      throw createError('Shop not found', 404);
+    }
+  }
+
+  private async hasTransaction(idempotencyKey: string): Promise<boolean> {
+    const existing = await prisma.ledgerTransaction.findUnique({
+      where: { idempotencyKey },
+      select: { id: true },
+    });
+
+    return !!existing;
+  }
+
+  private async getPaymentTransaction(paymentId: string) {
+    return prisma.ledgerTransaction.findUnique({
+      where: { idempotencyKey: `payment:${paymentId}:paid` },
+    });
+  }
+
+  private getPaymentMetadata(paymentTransaction: { metadata: Prisma.JsonValue }): LedgerPaymentMetadata {
+    return paymentTransaction.metadata as unknown as LedgerPaymentMetadata;
+  }
+
+  // Счет, на котором сейчас находятся средства платежа
+  private getMerchantAccount(paymentTransaction: { releasedAt: Date | null }): LedgerAccountTypeValue {
+    return paymentTransaction.releasedAt ? 'AVAILABLE' : 'PENDING';
+  }
+
+  private async sumEntriesByAccount(
+    transactionWhere: Prisma.LedgerTransactionWhereInput,
+    tx: TransactionClient = prisma
+  ): Promise<LedgerEntryInput[]> {
+    const entries = await tx.ledgerEntry.findMany({
+      where: { transaction: transactionWhere },
+      select: {
+        amount: true,
+        account: { select: { type: true } },
+      },
+    });
+
+    const sums = new Map<LedgerAccountTypeValue, number>();
+    for (const entry of entries) {
+      sums.set(entry.account.type, (sums.get(entry.account.type) || 0) + entry.amount);
+    }
+
+    return Array.from(sums, ([account, amount]) => ({ account, amount: roundAmount(amount) }));
+  }
+}
+
+export const ledgerService = new LedgerService();
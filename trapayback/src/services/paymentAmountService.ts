@@ -0,0 +1,167 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { WebhookService } from './webhookService';
+import { webhookDeliveryService } from './webhookDeliveryService';
+import { ledgerService } from './ledgerService';
+import { roundAmount } from './gateways/gatewaySettingsHelpers';
+import { createError } from '../middleware/errorHandler';
+import { ResolveAmountMismatchRequest } from '../types/payment';
+
+// ✅ ДОБАВЛЕНО: Решения админа по недоплате / переплате крипто-инвойса.
+// Недоплата (статус UNDERPAID): ACCEPT - зачесть как полную оплату, PARTIAL_CREDIT - зачесть часть суммы,
+// REFUND - вернуть полученное клиенту (статус REFUND). Переплата (статус PAID): ACCEPT - зачесть сумму заказа,
+// PARTIAL_CREDIT - зачесть больше суммы заказа, REFUND - вернуть излишек клиенту.
+// Возврат средств клиенту админ выполняет вручную, здесь фиксируется только решение.
+export class PaymentAmountService {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  async resolveMismatch(paymentId: string, data: ResolveAmountMismatchRequest, adminId?: string): Promise<any> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        shop: {
+          select: {
+            id: true,
+            name: true,
+            settings: {
+              select: {
+                webhookUrl: true,
+                webhookEvents: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw createError('Payment not found', 404);
+    }
+
+    if (!payment.amountMismatch) {
+      throw createError('Payment has no amount mismatch', 409);
+    }
+
+    if (payment.mismatchResolution) {
+      throw createError(`Amount mismatch is already resolved (${payment.mismatchResolution})`, 409);
+    }
+
+    const expectedStatus = payment.amountMismatch === 'UNDERPAID' ? 'UNDERPAID' : 'PAID';
+    if (payment.status !== expectedStatus) {
+      throw createError(`Payment with ${payment.amountMismatch} mismatch must be in ${expectedStatus} status (current: ${payment.status})`, 409);
+    }
+
+    const resolutionData: Prisma.PaymentUpdateManyMutationInput = {
+      mismatchResolution: data.action === 'ACCEPT' ? 'ACCEPTED' : data.action === 'REFUND' ? 'REFUNDED' : 'PARTIAL_CREDIT',
+      mismatchResolvedAt: new Date(),
+      ...(data.notes && { adminNotes: data.notes }),
+    };
+
+    const creditedAmount = data.action === 'PARTIAL_CREDIT' ? this.getCreditAmount(payment, data.creditAmount) : undefined;
+    if (creditedAmount !== undefined) {
+      resolutionData.creditedAmount = creditedAmount;
+    }
+
+    const reason = {
+      amountMismatch: payment.amountMismatch,
+      action: data.action,
+      receivedAmount: payment.receivedAmount,
+      receivedCurrency: payment.receivedCurrency,
+      expectedAmount: payment.invoiceTotalSum,
+      ...(creditedAmount !== undefined && { creditedAmount }),
+      ...(data.notes && { notes: data.notes }),
+    };
+
+    if (payment.amountMismatch === 'UNDERPAID') {
+      // ✅ ИСПРАВЛЕНО: Решение пишется вместе с переходом статуса (одно условное обновление) -
+      // если статус успели изменить параллельно, решение не сохраняется.
+      // Статус, webhook (payment.success / payment.refunded) и Telegram - общим путем
+      const transition = await this.webhookService.applyGatewayStatus(payment, data.action === 'REFUND' ? 'REFUND' : 'PAID', {
+        source: 'admin:amount_mismatch',
+        actor: adminId,
+        reason,
+        statusData: resolutionData,
+      });
+
+      if (!transition.changed) {
+        throw createError('Payment status changed concurrently, amount mismatch is not resolved', 409);
+      }
+
+      console.log(`⚖️ Amount mismatch of payment ${paymentId} (UNDERPAID) resolved by ${adminId || 'admin'}: ${data.action}`);
+    } else {
+      // Условное обновление: решение принимается один раз
+      const result = await prisma.payment.updateMany({
+        where: { id: paymentId, status: 'PAID', mismatchResolution: null },
+        data: resolutionData,
+      });
+
+      if (result.count === 0) {
+        throw createError('Amount mismatch is already resolved', 409);
+      }
+
+      console.log(`⚖️ Amount mismatch of payment ${paymentId} (OVERPAID) resolved by ${adminId || 'admin'}: ${data.action}`);
+
+      const updatedPayment = { ...payment, ...resolutionData };
+
+      // Переплата зачтена сверх суммы заказа - доначисление на баланс магазина
+      if (data.action === 'PARTIAL_CREDIT') {
+        await ledgerService.recordCreditAdjustment(paymentId).catch(error => {
+          console.error(`❌ [LEDGER] Failed to post credit adjustment of payment ${paymentId}:`, error);
+        });
+      }
+
+      // Переплата: статус остается PAID, магазин получает payment.overpaid с решением
+      await webhookDeliveryService.sendOverpaidWebhook(updatedPayment).catch(error => {
+        console.error(`Failed to queue payment.overpaid webhook for payment ${paymentId}:`, error);
+      });
+    }
+
+    return prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: {
+        id: true,
+        status: true,
+        amount: true,
+        currency: true,
+        invoiceTotalSum: true,
+        receivedAmount: true,
+        receivedCurrency: true,
+        amountMismatch: true,
+        mismatchResolution: true,
+        mismatchResolvedAt: true,
+        creditedAmount: true,
+        adminNotes: true,
+      },
+    });
+  }
+
+  // Зачтенная сумма в валюте платежа. По умолчанию - пропорционально полученной сумме, больше нее зачесть нельзя.
+  // ✅ ИСПРАВЛЕНО: Без сумм от шлюза (mismatch без сумм) частичное зачисление невозможно; недоплату нельзя зачесть
+  // больше суммы заказа (сверх суммы заказа зачисляется только переплата)
+  private getCreditAmount(payment: any, creditAmount?: number): number {
+    const { receivedAmount, invoiceTotalSum } = payment;
+
+    if (!Number.isFinite(receivedAmount) || receivedAmount <= 0 || !Number.isFinite(invoiceTotalSum) || invoiceTotalSum <= 0) {
+      throw createError('Partial credit requires the received and invoice amounts reported by the gateway', 409);
+    }
+
+    const receivedValue = roundAmount(payment.amount * (receivedAmount / invoiceTotalSum));
+    const maxCredit = payment.amountMismatch === 'UNDERPAID' ? Math.min(receivedValue, payment.amount) : receivedValue;
+
+    if (creditAmount === undefined) {
+      return maxCredit;
+    }
+
+    if (creditAmount > maxCredit) {
+      throw createError(`Credit amount cannot exceed ${maxCredit} ${payment.currency}`, 400);
+    }
+
+    return creditAmount;
+  }
+}
+
+export const paymentAmountService = new PaymentAmountService();
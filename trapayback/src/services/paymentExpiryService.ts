@@ -0,0 +1,126 @@
+import prisma from '../config/database';
+import { gatewayRegistry } from './gateways/gatewayRegistry';
+import { WebhookService } from './webhookService';
+import { jobService } from './jobService';
+
+// ✅ ДОБАВЛЕНО: Истечение неоплаченных платежей для всех шлюзов.
+// PENDING платеж истекает по expires_at из запроса на создание, а если он не указан -
+// через capabilities.paymentTtlHours шлюза. Статус меняется тем же путем, что и webhook
+// (WebhookService.applyGatewayStatus): история статусов, webhook магазину, уведомление в Telegram.
+export class PaymentExpiryService {
+  private webhookService: WebhookService;
+  private readonly SWEEP_INTERVAL_MS = 5 * 60 * 1000; // 5 минут
+  private readonly BATCH_SIZE = 200;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+
+    jobService.registerRecurring('payments.expiry_sweep', this.SWEEP_INTERVAL_MS, async () => {
+      await this.expireDuePayments();
+    });
+  }
+
+  async expireDuePayments(): Promise<number> {
+    const now = new Date();
+
+    const duePayments = await prisma.payment.findMany({
+      where: {
+        status: 'PENDING',
+        OR: this.buildExpiryConditions(now),
+      },
+      include: {
+        shop: {
+          select: {
+            id: true,
+            name: true,
+            settings: {
+              select: {
+                webhookUrl: true,
+                webhookEvents: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    if (duePayments.length === 0) {
+      return 0;
+    }
+
+    console.log(`⏰ [EXPIRY] Found ${duePayments.length} unpaid payments past their expiry`);
+
+    let expiredCount = 0;
+
+    for (const payment of duePayments) {
+      try {
+        if (await this.expirePayment(payment)) {
+          expiredCount++;
+        }
+      } catch (error) {
+        console.error(`❌ [EXPIRY] Failed to expire payment ${payment.id}:`, error);
+      }
+    }
+
+    console.log(`✅ [EXPIRY] Expired ${expiredCount} of ${duePayments.length} payments`);
+
+    return expiredCount;
+  }
+
+  private async expirePayment(payment: any): Promise<boolean> {
+    const reason = payment.expiresAt
+      ? { rule: 'expires_at', expiresAt: payment.expiresAt }
+      : { rule: 'gateway_ttl', ttlHours: this.getTtlHours(payment.gateway), createdAt: payment.createdAt };
+
+    const transition = await this.webhookService.applyGatewayStatus(payment, 'EXPIRED', {
+      source: 'expiry_sweep',
+      reason,
+    });
+
+    if (!transition.changed) {
+      return false;
+    }
+
+    await prisma.webhookLog.create({
+      data: {
+        paymentId: payment.id,
+        shopId: payment.shopId,
+        event: `${payment.gateway}_auto_expired`,
+        statusCode: 200,
+        responseBody: JSON.stringify({
+          ...reason,
+          expiredAt: new Date().toISOString(),
+        }),
+      },
+    });
+
+    console.log(`⏰ [EXPIRY] Payment ${payment.id} (${payment.gateway}) marked as EXPIRED (${reason.rule})`);
+
+    return true;
+  }
+
+  // expires_at из запроса важнее срока по умолчанию шлюза
+  private buildExpiryConditions(now: Date): any[] {
+    const conditions: any[] = [
+      { expiresAt: { lte: now } },
+    ];
+
+    for (const gateway of gatewayRegistry.getAll()) {
+      conditions.push({
+        expiresAt: null,
+        gateway: gateway.name,
+        createdAt: { lte: new Date(now.getTime() - gateway.capabilities.paymentTtlHours * 60 * 60 * 1000) },
+      });
+    }
+
+    return conditions;
+  }
+
+  private getTtlHours(gatewayName: string): number | null {
+    return gatewayRegistry.getByName(gatewayName)?.capabilities.paymentTtlHours ?? null;
+  }
+}
+
+export const paymentExpiryService = new PaymentExpiryService();
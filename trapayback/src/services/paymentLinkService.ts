@@ -9,206 +9,42 @@ import {
   InitiatePaymentFromLinkRequest,
   InitiatePaymentFromLinkResponse
 } from '../types/paymentLink';
-import { PlisioService } from './gateways/plisioService';
-import { RapydService } from './gateways/rapydService';
-import { NodaService } from './gateways/nodaService';
-import { CoinToPayService } from './gateways/coinToPayService';
-import { KlymeService } from './gateways/klymeService';
-import { coinToPayStatusService } from './coinToPayStatusService'; // ✅ ДОБАВЛЕНО
-import { getGatewayNameById, isValidGatewayId, getKlymeRegionFromGatewayName } from '../types/gateway';
+import { gatewayRegistry } from './gateways/gatewayRegistry';
+import { webhookDeliveryService } from './webhookDeliveryService';
+import {
+  generateGatewayOrderId,
+  generateGatewayUrls,
+  getPaymentPageUrl,
+  validateGatewayCurrency,
+  checkGatewayPermission,
+  initiateGatewayPayment,
+} from './gateways/gatewayHelpers';
+import { getGatewayNameById, isValidGatewayId } from '../types/gateway';
 import { currencyService } from './currencyService';
+import { paymentStatusService } from './paymentStatusService';
 
 export class PaymentLinkService {
-  private plisioService: PlisioService;
-  private rapydService: RapydService;
-  private nodaService: NodaService;
-  private coinToPayService: CoinToPayService;
-  private klymeService: KlymeService;
-
-  constructor() {
-    this.plisioService = new PlisioService();
-    this.rapydService = new RapydService();
-    this.nodaService = new NodaService();
-    this.coinToPayService = new CoinToPayService();
-    this.klymeService = new KlymeService();
-  }
-
-  private generateGatewayOrderId(): string {
-    const generateSegment = () => {
-      return Math.floor(Math.random() * 100000000).toString().padStart(8, '0');
-    };
-    
-    return `${generateSegment()}-${generateSegment()}`;
-  }
-
-  // ✅ ИСПРАВЛЕНО: Теперь принимает paymentId вместо orderId
-  private generateGatewayUrls(gatewayName: string, paymentId: string, baseUrl: string, successUrl?: string, failUrl?: string): {
-    finalSuccessUrl: string;
-    finalFailUrl: string;
-    dbSuccessUrl: string;
-    dbFailUrl: string;
-  } {
-    if (successUrl && failUrl) {
-      return {
-        finalSuccessUrl: successUrl,
-        finalFailUrl: failUrl,
-        dbSuccessUrl: successUrl,
-        dbFailUrl: failUrl,
-      };
-    }
-
-    let finalSuccessUrl: string;
-    let finalFailUrl: string;
-    let dbSuccessUrl: string;
-    let dbFailUrl: string;
-
-    if (gatewayName === 'noda' || gatewayName.startsWith('klyme_') || gatewayName === 'cointopay') {
-      finalSuccessUrl = `${baseUrl}/gateway/pending.php?id=${paymentId}`;
-      dbSuccessUrl = `https://app.trapay.uk/payment/pending?id=${paymentId}`;
-    } else {
-      finalSuccessUrl = `${baseUrl}/gateway/success.php?id=${paymentId}`;
-      dbSuccessUrl = `https://app.trapay.uk/payment/success?id=${paymentId}`;
-    }
-
-    finalFailUrl = `${baseUrl}/gateway/fail.php?id=${paymentId}`;
-    dbFailUrl = `https://app.trapay.uk/payment/fail?id=${paymentId}`;
-
-    console.log(`🔗 Generated URLs for ${gatewayName} with payment ID ${paymentId}:`);
-    console.log(`   🌐 Gateway Success URL: ${finalSuccessUrl}`);
-    console.log(`   🌐 Gateway Fail URL: ${finalFailUrl}`);
-    console.log(`   💾 DB Success URL: ${dbSuccessUrl}`);
-    console.log(`   💾 DB Fail URL: ${dbFailUrl}`);
-
-    return { finalSuccessUrl, finalFailUrl, dbSuccessUrl, dbFailUrl };
-  }
-
-  private validateKlymeCurrency(gatewayName: string, currency: string): void {
-    if (!gatewayName.startsWith('klyme_')) return;
-
-    const region = getKlymeRegionFromGatewayName(gatewayName);
-    const upperCurrency = currency.toUpperCase();
-
-    switch (region) {
-      case 'EU':
-        if (upperCurrency !== 'EUR') {
-          throw new Error(`KLYME EU accepts only EUR currency, got: ${upperCurrency}`);
-        }
-        break;
-      case 'GB':
-        if (upperCurrency !== 'GBP') {
-          throw new Error(`KLYME GB accepts only GBP currency, got: ${upperCurrency}`);
-        }
-        break;
-      case 'DE':
-        if (upperCurrency !== 'EUR') {
-          throw new Error(`KLYME DE accepts only EUR currency, got: ${upperCurrency}`);
-        }
-        break;
-      default:
-        throw new Error(`Unsupported KLYME region: ${region}`);
-    }
-  }
-
-  // ✅ ДОБАВЛЕНО: Helper method to check if gateway is allowed for shop
-  private async checkGatewayPermission(shopId: string, gatewayName: string): Promise<void> {
-    console.log(`🔐 Checking gateway permission for shop ${shopId}: ${gatewayName}`);
-
-    // Get shop's configured payment gateways
-    const shop = await prisma.shop.findUnique({
-      where: { id: shopId },
-      select: {
-        id: true,
-        name: true,
-        username: true,
-        paymentGateways: true,
-      },
-    });
-
-    if (!shop) {
-      throw new Error('Shop not found');
-    }
-
-    // Parse enabled gateways from JSON string
-    let enabledGateways: string[] = [];
-    
-    if (shop.paymentGateways) {
-      try {
-        enabledGateways = JSON.parse(shop.paymentGateways);
-        console.log(`🔐 Shop ${shop.username} enabled gateways:`, enabledGateways);
-      } catch (error) {
-        console.error('Error parsing payment gateways:', error);
-        // Fallback to default gateways if parsing fails
-        enabledGateways = ['Plisio'];
-      }
-    } else {
-      // Default gateway if none configured
-      enabledGateways = ['Plisio'];
-      console.log(`🔐 Shop ${shop.username} using default gateways:`, enabledGateways);
-    }
-
-    // Map gateway name to display name for comparison
-    const gatewayDisplayName = this.getGatewayDisplayName(gatewayName);
-    
-    console.log(`🔐 Checking if "${gatewayDisplayName}" is in enabled gateways:`, enabledGateways);
-
-    // Check if the gateway is enabled for this shop
-    if (!enabledGateways.includes(gatewayDisplayName)) {
-      console.error(`❌ Gateway "${gatewayDisplayName}" not allowed for shop ${shop.username}`);
-      console.error(`❌ Enabled gateways: ${enabledGateways.join(', ')}`);
-      
-      throw new Error(
-        `Gateway "${gatewayDisplayName}" is not enabled for your shop. ` +
-        `Enabled gateways: ${enabledGateways.join(', ')}. ` +
-        `Please contact support to enable additional gateways.`
-      );
-    }
-
-    console.log(`✅ Gateway "${gatewayDisplayName}" is allowed for shop ${shop.username}`);
-  }
-
-  // ✅ ДОБАВЛЕНО: Helper method to get gateway display name
-  private getGatewayDisplayName(gatewayName: string): string {
-    const gatewayDisplayNames: Record<string, string> = {
-      'plisio': 'Plisio',
-      'rapyd': 'Rapyd',
-      'noda': 'Noda',
-      'cointopay': 'CoinToPay',
-      'klyme_eu': 'KLYME EU',
-      'klyme_gb': 'KLYME GB',
-      'klyme_de': 'KLYME DE',
-    };
-
-    return gatewayDisplayNames[gatewayName] || gatewayName;
-  }
-
   async createPaymentLink(shopId: string, linkData: CreatePaymentLinkRequest): Promise<PaymentLinkResponse> {
     if (!isValidGatewayId(linkData.gateway)) {
       throw new Error(`Invalid gateway ID: ${linkData.gateway}. Valid IDs are: 0001 (Plisio), 0010 (Rapyd), 0100 (CoinToPay), 1000 (Noda), 1001 (KLYME EU), 1010 (KLYME GB), 1100 (KLYME DE)`);
     }
 
-    const gatewayName = getGatewayNameById(linkData.gateway);
-    if (!gatewayName) {
-      throw new Error(`Gateway not found for ID: ${linkData.gateway}`);
-    }
+    const gateway = gatewayRegistry.resolve(linkData.gateway);
+    const gatewayName = gateway.name;
 
     console.log(`🔗 Creating payment link for gateway: ${gatewayName}`);
 
     // ✅ ДОБАВЛЕНО: Проверяем разрешения на использование шлюза
-    await this.checkGatewayPermission(shopId, gatewayName);
-
-    if (gatewayName === 'plisio' && !linkData.sourceCurrency) {
-      throw new Error('sourceCurrency is required for Plisio payment links');
-    }
+    await checkGatewayPermission(shopId, gateway);
 
-    if (gatewayName.startsWith('klyme_')) {
-      const region = getKlymeRegionFromGatewayName(gatewayName);
-      console.log(`💳 Creating KLYME ${region} payment link`);
+    if (gateway.capabilities.requiresSourceCurrency && !linkData.sourceCurrency) {
+      throw new Error(`sourceCurrency is required for ${gateway.displayName} payment links`);
     }
 
-    let rapydCountry = linkData.country;
-    if (gatewayName === 'rapyd') {
-      rapydCountry = 'GB';
-      console.log(`🇬🇧 Using GB (Britain) as country for Rapyd payment link`);
+    let linkCountry = linkData.country;
+    if (gateway.capabilities.fixedCountry) {
+      linkCountry = gateway.capabilities.fixedCountry;
+      console.log(`🌍 Using ${linkCountry} as country for ${gateway.displayName} payment link`);
     }
 
     if (!linkData.amount || linkData.amount <= 0) {
@@ -216,12 +52,12 @@ export class PaymentLinkService {
     }
 
     let finalCurrency = linkData.currency || 'USD';
-    if (gatewayName === 'cointopay') {
-      finalCurrency = 'EUR';
-      console.log(`🪙 Using EUR as currency for CoinToPay payment link`);
+    if (gateway.capabilities.fixedCurrency) {
+      finalCurrency = gateway.capabilities.fixedCurrency;
+      console.log(`💱 Using ${finalCurrency} as currency for ${gateway.displayName} payment link`);
     }
 
-    this.validateKlymeCurrency(gatewayName, finalCurrency);
+    validateGatewayCurrency(gateway, finalCurrency);
 
     // ✅ ИСПРАВЛЕНО: Создаем payment link с временными URL, которые будут обновлены при создании платежа
     const paymentLink = await prisma.paymentLink.create({
@@ -238,7 +74,7 @@ export class PaymentLinkService {
         // ✅ ИСПРАВЛЕНО: Сохраняем пользовательские URL или null (будут заполнены при создании платежа)
         successUrl: linkData.successUrl || null,
         failUrl: linkData.failUrl || null,
-        country: rapydCountry,
+        country: linkCountry,
         language: linkData.language || 'EN',
       },
       include: {
@@ -376,32 +212,25 @@ export class PaymentLinkService {
     const updatePayload: any = { ...updateData };
     
     if (updateData.gateway) {
-      if (isValidGatewayId(updateData.gateway)) {
-        const gatewayName = getGatewayNameById(updateData.gateway);
-        if (gatewayName) {
-          // ✅ ДОБАВЛЕНО: Проверяем разрешения при обновлении шлюза
-          await this.checkGatewayPermission(shopId, gatewayName);
-          updatePayload.gateway = gatewayName;
-        }
-      } else {
-        updatePayload.gateway = updateData.gateway.toLowerCase();
-      }
-    }
+      const gateway = gatewayRegistry.resolve(updateData.gateway);
+
+      // ✅ ДОБАВЛЕНО: Проверяем разрешения при обновлении шлюза
+      await checkGatewayPermission(shopId, gateway);
+      updatePayload.gateway = gateway.name;
 
-    if (updatePayload.gateway === 'rapyd' || (updateData.country && updatePayload.gateway !== 'rapyd')) {
-      if (updatePayload.gateway === 'rapyd') {
-        updatePayload.country = 'GB';
-        console.log(`🇬🇧 Forcing GB (Britain) as country for Rapyd payment link update`);
+      if (gateway.capabilities.fixedCountry) {
+        updatePayload.country = gateway.capabilities.fixedCountry;
+        console.log(`🌍 Forcing ${updatePayload.country} as country for ${gateway.displayName} payment link update`);
       }
-    }
 
-    if (updatePayload.gateway === 'cointopay') {
-      updatePayload.currency = 'EUR';
-      console.log(`🪙 Forcing EUR as currency for CoinToPay payment link update`);
-    }
+      if (gateway.capabilities.fixedCurrency) {
+        updatePayload.currency = gateway.capabilities.fixedCurrency;
+        console.log(`💱 Forcing ${updatePayload.currency} as currency for ${gateway.displayName} payment link update`);
+      }
 
-    if (updatePayload.gateway && updatePayload.currency) {
-      this.validateKlymeCurrency(updatePayload.gateway, updatePayload.currency);
+      if (updatePayload.currency) {
+        validateGatewayCurrency(gateway, updatePayload.currency);
+      }
     }
 
     if (updateData.expiresAt) {
@@ -532,16 +361,17 @@ export class PaymentLinkService {
     }
 
     // ✅ ДОБАВЛЕНО: Проверяем разрешения на использование шлюза при инициации платежа
-    await this.checkGatewayPermission(link.shopId, link.gateway);
+    const gateway = gatewayRegistry.resolve(link.gateway);
+    await checkGatewayPermission(link.shopId, gateway);
 
     const paymentAmount = link.amount;
 
     console.log(`💳 Initiating payment from link ${linkId}: ${paymentAmount} ${link.currency}`);
     console.log(`👤 Customer: ${customerName || 'Anonymous'} (${customerEmail || 'no email'})`);
 
-    this.validateKlymeCurrency(link.gateway, link.currency);
+    validateGatewayCurrency(gateway, link.currency);
 
-    const gatewayOrderId = this.generateGatewayOrderId();
+    const gatewayOrderId = await generateGatewayOrderId();
     console.log(`🎯 Generated gateway order_id: ${gatewayOrderId} (8digits-8digits format for ${link.gateway})`);
 
     // ✅ ИСПРАВЛЕНО: Сначала создаем платеж, чтобы получить его ID
@@ -574,8 +404,8 @@ export class PaymentLinkService {
 
     // ✅ ИСПРАВЛЕНО: Теперь генерируем URL с реальным ID платежа
     const baseUrl = process.env.BASE_URL || 'https://tesoft.uk';
-    const { finalSuccessUrl, finalFailUrl, dbSuccessUrl, dbFailUrl } = this.generateGatewayUrls(
-      link.gateway, 
+    const { finalSuccessUrl, finalFailUrl, dbSuccessUrl, dbFailUrl } = generateGatewayUrls(
+      gateway,
       payment.id, // ✅ Используем ID платежа, а не ссылки
       baseUrl, 
       link.successUrl || undefined, 
@@ -596,207 +426,40 @@ export class PaymentLinkService {
     console.log(`💾 DB Success URL: ${dbSuccessUrl}`);
     console.log(`💾 DB Fail URL: ${dbFailUrl}`);
 
-    let gatewayPaymentId: string | undefined;
-    let externalPaymentUrl: string | undefined;
-
     try {
-      if (link.gateway === 'plisio') {
-        console.log(`💰 Plisio payment link mapping:`);
-        console.log(`   - link.currency (merchant fiat currency): ${link.currency}`);
-        console.log(`   - link.sourceCurrency (crypto currency for payment): ${link.sourceCurrency}`);
-
-        const plisioResult = await this.plisioService.createPayment({
-          paymentId: payment.id,
-          orderId: gatewayOrderId,
-          amount: paymentAmount,
-          currency: link.currency,
-          productName: `Payment ${paymentAmount} ${link.currency}`,
-          description: `Payment ${paymentAmount} ${link.currency}`,
-          successUrl: finalSuccessUrl,
-          failUrl: finalFailUrl,
-          customerEmail: customerEmail || undefined,
-          customerName: customerName || undefined,
-          isSourceCurrency: true,
-          sourceCurrency: link.sourceCurrency || undefined,
-        });
-
-        gatewayPaymentId = plisioResult.gateway_payment_id;
-        externalPaymentUrl = plisioResult.payment_url;
-
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl,
-            gatewayPaymentId: gatewayPaymentId,
-            invoiceTotalSum: Number(plisioResult.invoice_total_sum),
-            qrCode: plisioResult.qr_code,
-            qrUrl: plisioResult.qr_url,
-          },
-        });
-
-        const paymentUrl = `https://app.trapay.uk/payment/${payment.id}`;
-        console.log(`🔗 Plisio payment URL: ${paymentUrl}`);
-
-        return {
-          paymentId: payment.id,
-          paymentUrl: paymentUrl,
-          expiresAt: payment.expiresAt || undefined,
-        };
-
-      } else if (link.gateway === 'rapyd') {
-        const rapydResult = await this.rapydService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId,
-          orderName: `Payment ${paymentAmount} ${link.currency}`,
-          amount: paymentAmount,
-          currency: link.currency,
-          country: link.country!,
-          language: link.language || 'EN',
-          amountIsEditable: false,
-          usage: 'ONCE',
-          maxPayments: 1,
-          successUrl: finalSuccessUrl,
-          failUrl: finalFailUrl,
-        });
-
-        gatewayPaymentId = rapydResult.gateway_payment_id;
-        externalPaymentUrl = rapydResult.payment_url;
-
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl,
-            gatewayPaymentId: gatewayPaymentId,
-          },
-        });
-
-        const paymentUrl = `https://tesoft.uk/gateway/payment.php?id=${payment.id}`;
-        console.log(`🔗 Rapyd payment URL: ${paymentUrl}`);
-
-        return {
-          paymentId: payment.id,
-          paymentUrl: paymentUrl,
-          expiresAt: payment.expiresAt || undefined,
-        };
-
-      } else if (link.gateway === 'noda') {
-        const nodaResult = await this.nodaService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId,
-          name: `Payment ${paymentAmount} ${link.currency}`,
-          paymentDescription: `Payment ${paymentAmount} ${link.currency}`,
-          amount: paymentAmount,
-          currency: link.currency,
-          webhookUrl: `https://tesoft.uk/gateways/noda/webhook`,
-          returnUrl: finalSuccessUrl,
-          expiryDate: link.expiresAt?.toISOString(),
-        });
-
-        gatewayPaymentId = nodaResult.gateway_payment_id;
-        externalPaymentUrl = nodaResult.payment_url;
-
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl,
-            gatewayPaymentId: gatewayPaymentId,
-            qrUrl: nodaResult.qr_code_url,
-          },
-        });
-
-        const paymentUrl = `https://tesoft.uk/gateway/payment.php?id=${payment.id}`;
-        console.log(`🔗 Noda payment URL: ${paymentUrl}`);
-
-        return {
-          paymentId: payment.id,
-          paymentUrl: paymentUrl,
-          expiresAt: payment.expiresAt || undefined,
-        };
-
-      } else if (link.gateway === 'cointopay') {
-        console.log(`🪙 Creating CoinToPay payment from link with gateway order_id: ${gatewayOrderId} (8digits-8digits format)`);
-        console.log(`💰 Amount: ${paymentAmount} EUR (always EUR for CoinToPay)`);
-
-        const coinToPayResult = await this.coinToPayService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId,
-          amount: paymentAmount,
-        });
-
-        gatewayPaymentId = coinToPayResult.gateway_payment_id;
-        externalPaymentUrl = coinToPayResult.payment_url;
-
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl,
-            gatewayPaymentId: gatewayPaymentId,
-          },
-        });
-
-        // ✅ ДОБАВЛЕНО: Запускаем индивидуальные проверки для CoinToPay платежа
-        if (gatewayPaymentId) {
-          console.log(`🪙 Scheduling individual status checks for CoinToPay payment: ${payment.id} (${gatewayPaymentId})`);
-          coinToPayStatusService.schedulePaymentChecks(payment.id, gatewayPaymentId);
-        }
-
-        const paymentUrl = `https://tesoft.uk/gateway/payment.php?id=${payment.id}`;
-        console.log(`🔗 CoinToPay payment URL: ${paymentUrl}`);
-
-        return {
-          paymentId: payment.id,
-          paymentUrl: paymentUrl,
-          expiresAt: payment.expiresAt || undefined,
-        };
-
-      } else if (link.gateway.startsWith('klyme_')) {
-        const region = getKlymeRegionFromGatewayName(link.gateway);
-        
-        if (!region) {
-          throw new Error(`Invalid KLYME gateway: ${link.gateway}`);
-        }
-
-        console.log(`💳 Creating KLYME ${region} payment from link with gateway order_id: ${gatewayOrderId} (8digits-8digits format)`);
-        console.log(`💰 Amount: ${paymentAmount} ${link.currency} (validated for ${region})`);
-
-        const klymeResult = await this.klymeService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId,
-          amount: paymentAmount,
-          currency: link.currency,
-          region,
-          redirectUrl: finalSuccessUrl,
-        });
-
-        gatewayPaymentId = klymeResult.gateway_payment_id;
-        externalPaymentUrl = klymeResult.payment_url;
-
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl,
-            gatewayPaymentId: gatewayPaymentId,
-          },
-        });
-
-        const paymentUrl = `https://app.trapay.uk/payment/${payment.id}`;
-        console.log(`✅ KLYME ${region} payment created successfully with gateway order_id: ${gatewayOrderId}`);
-        console.log(`🔗 KLYME ${region} payment URL: ${paymentUrl}`);
+      await initiateGatewayPayment(gateway, {
+        paymentId: payment.id,
+        gatewayOrderId,
+        amount: paymentAmount,
+        currency: link.currency,
+        sourceCurrency: link.sourceCurrency || undefined,
+        priceInFiat: true, // Сумма ссылки фиксирована в фиатной валюте
+        description: `Payment ${paymentAmount} ${link.currency}`,
+        successUrl: finalSuccessUrl,
+        failUrl: finalFailUrl,
+        customerEmail: customerEmail || undefined,
+        customerName: customerName || undefined,
+        country: link.country || undefined,
+        language: link.language || undefined,
+        amountIsEditable: false,
+        usage: 'ONCE',
+        maxPayments: 1,
+        expiresAt: link.expiresAt?.toISOString(),
+      });
 
-        return {
-          paymentId: payment.id,
-          paymentUrl: paymentUrl,
-          expiresAt: payment.expiresAt || undefined,
-        };
+      const paymentUrl = getPaymentPageUrl(gateway, payment.id);
+      console.log(`🔗 ${gateway.displayName} payment URL: ${paymentUrl}`);
 
-      } else {
-        throw new Error(`Unsupported gateway: ${link.gateway}`);
-      }
+      return {
+        paymentId: payment.id,
+        paymentUrl: paymentUrl,
+        expiresAt: payment.expiresAt || undefined,
+      };
 
     } catch (gatewayError) {
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: { status: 'FAILED' },
+      await paymentStatusService.transition(payment.id, 'FAILED', {
+        source: 'system',
+        reason: `Gateway error: ${gatewayError instanceof Error ? gatewayError.message : 'Unknown error'}`,
       });
       
       throw new Error(`Gateway error: ${gatewayError instanceof Error ? gatewayError.message : 'Unknown error'}`);
@@ -853,7 +516,7 @@ export class PaymentLinkService {
         // ✅ ДОБАВЛЕНО: Проверяем, что счетчик еще не достиг максимума
         if (currentLink.currentPayments >= currentLink.maxPayments) {
           console.log(`📈 Payment link ${payment.paymentLinkId} already at max payments (${currentLink.currentPayments}/${currentLink.maxPayments}), skipping increment`);
-          return currentLink;
+          return { ...currentLink, justCompleted: false };
         }
 
         // ✅ ДОБАВЛЕНО: Проверяем, что этот конкретный платеж еще не был учтен
@@ -874,20 +537,43 @@ export class PaymentLinkService {
           where: { id: payment.paymentLinkId! },
           data: {
             currentPayments: expectedCurrentPayments,
-            // Если достигли максимума, помечаем как завершенный
-            status: expectedCurrentPayments >= currentLink.maxPayments ? 'COMPLETED' : currentLink.status,
           },
         });
 
         console.log(`📈 Payment link ${payment.paymentLinkId} counter updated: ${currentLink.currentPayments} -> ${expectedCurrentPayments}/${currentLink.maxPayments}`);
 
-        return updatedLink;
+        // ✅ ОБНОВЛЕНО: Если достигли максимума, помечаем как завершенный условным обновлением,
+        // чтобы при параллельных платежах переход в COMPLETED (и webhook) произошел ровно один раз
+        let justCompleted = false;
+        if (expectedCurrentPayments >= currentLink.maxPayments) {
+          const completed = await tx.paymentLink.updateMany({
+            where: {
+              id: payment.paymentLinkId!,
+              status: { not: 'COMPLETED' },
+            },
+            data: { status: 'COMPLETED' },
+          });
+
+          justCompleted = completed.count > 0;
+        }
+
+        return {
+          ...updatedLink,
+          status: expectedCurrentPayments >= currentLink.maxPayments ? 'COMPLETED' as const : updatedLink.status,
+          justCompleted,
+        };
       });
 
       if (result.status === 'COMPLETED') {
         console.log(`🏁 Payment link ${payment.paymentLinkId} completed (reached max payments: ${result.currentPayments}/${result.maxPayments})`);
       }
 
+      // ✅ ДОБАВЛЕНО: payment_link.completed webhook (только при переходе в COMPLETED)
+      if (result.justCompleted) {
+        const { justCompleted, ...completedLink } = result;
+        await webhookDeliveryService.sendPaymentLinkCompletedWebhook({ ...payment.paymentLink, ...completedLink }, paymentId);
+      }
+
     } catch (error) {
       console.error(`❌ Failed to update payment link counter for payment ${paymentId}:`, error);
       // Не пробрасываем ошибку, чтобы не нарушить основной процесс обработки платежа
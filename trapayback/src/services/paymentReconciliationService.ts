@@ -0,0 +1,291 @@
+import prisma from '../config/database';
+import { gatewayRegistry } from './gateways/gatewayRegistry';
+import { WebhookService } from './webhookService';
+import { paymentStatusService } from './paymentStatusService';
+import { loggerService } from './loggerService';
+import { leaseService } from './leaseService';
+import { PaymentGateway } from '../types/gateway';
+import { PaymentStatusTransitionResult, PaymentStatusValue } from '../types/payment';
+import { ServiceLeaseStatus } from '../types/job';
+
+// ✅ ДОБАВЛЕНО: Сверка статусов платежей со шлюзами.
+// Если webhook потерян, платеж остался бы PENDING навсегда - поэтому открытые платежи
+// периодически проверяются через verifyPayment шлюза, а результат применяется тем же путем,
+// что и webhook (WebhookService.applyGatewayStatus).
+// ✅ ОБНОВЛЕНО: Расписание длиннее срока жизни платежа (paymentTtlHours), поэтому проверяются и платежи,
+// уже истекшие по сроку: поздняя оплата переводит их EXPIRED -> PAID.
+
+// Статусы, в которых платеж еще может быть оплачен у шлюза
+const RECONCILED_STATUSES: PaymentStatusValue[] = ['PENDING', 'PROCESSING', 'EXPIRED'];
+
+// Шаг расписания: пока возраст платежа меньше untilAgeMs, проверяем раз в intervalMs
+export interface ReconciliationScheduleStep {
+  untilAgeMs: number;
+  intervalMs: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Расписания по провайдеру шлюза. После последнего шага платеж больше не проверяется.
+// CoinToPay (capabilities.statusPolling) опрашивается своим CoinToPayStatusService.
+export const RECONCILIATION_SCHEDULES: Record<string, ReconciliationScheduleStep[]> = {
+  // Крипто-инвойсы: оплата может прийти через несколько часов
+  plisio: [
+    { untilAgeMs: 1 * HOUR, intervalMs: 5 * MINUTE },
+    { untilAgeMs: 1 * DAY, intervalMs: 30 * MINUTE },
+    { untilAgeMs: 3 * DAY, intervalMs: 3 * HOUR },
+  ],
+  rapyd: [
+    { untilAgeMs: 1 * HOUR, intervalMs: 5 * MINUTE },
+    { untilAgeMs: 1 * DAY, intervalMs: 1 * HOUR },
+    { untilAgeMs: 2 * DAY, intervalMs: 6 * HOUR },
+  ],
+  // Open banking: статус банка обычно известен в течение часа
+  noda: [
+    { untilAgeMs: 1 * HOUR, intervalMs: 5 * MINUTE },
+    { untilAgeMs: 1 * DAY, intervalMs: 1 * HOUR },
+  ],
+  klyme: [
+    { untilAgeMs: 1 * HOUR, intervalMs: 5 * MINUTE },
+    { untilAgeMs: 1 * DAY, intervalMs: 1 * HOUR },
+  ],
+};
+
+export class PaymentReconciliationService {
+  private webhookService: WebhookService;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private lastRunAt: Date | null = null;
+  private readonly CHECK_INTERVAL_MS = 60 * 1000; // 1 минута
+  private readonly BATCH_SIZE = 50;
+  private readonly REQUEST_DELAY_MS = 1000; // Пауза между запросами к API шлюзов
+  private readonly LEASE_NAME = 'payment_reconciliation';
+  private readonly LEASE_TTL_MS = 5 * 60 * 1000; // Больше длительности одного прохода (BATCH_SIZE * REQUEST_DELAY_MS)
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  startReconciliation(): void {
+    if (this.checkInterval) {
+      console.log('🔎 Payment reconciliation is already running');
+      return;
+    }
+
+    console.log(`🔎 Starting payment reconciliation (every ${this.CHECK_INTERVAL_MS / 1000}s)`);
+
+    // ✅ ОБНОВЛЕНО: При нескольких инстансах сверку выполняет только владелец аренды
+    this.checkInterval = setInterval(() => {
+      leaseService.runExclusive(this.LEASE_NAME, this.LEASE_TTL_MS, async () => {
+        await this.reconcileDuePayments();
+      }).catch(error => {
+        console.error('❌ Payment reconciliation error:', error);
+      });
+    }, this.CHECK_INTERVAL_MS);
+  }
+
+  stopReconciliation(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      console.log('🔎 Payment reconciliation stopped');
+    }
+  }
+
+  async reconcileDuePayments(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+    this.lastRunAt = new Date();
+
+    try {
+      const dueConditions = this.buildDueConditions(new Date());
+      if (dueConditions.length === 0) {
+        return 0;
+      }
+
+      const duePayments = await prisma.payment.findMany({
+        where: {
+          status: { in: RECONCILED_STATUSES },
+          gatewayPaymentId: { not: null },
+          OR: dueConditions,
+        },
+        orderBy: { createdAt: 'asc' },
+        take: this.BATCH_SIZE,
+        select: { id: true },
+      });
+
+      if (duePayments.length === 0) {
+        return 0;
+      }
+
+      console.log(`🔎 Reconciling ${duePayments.length} open and recently expired payments with gateways`);
+
+      for (const [index, { id }] of duePayments.entries()) {
+        try {
+          await this.reconcilePayment(id);
+        } catch (error) {
+          console.error(`❌ Failed to reconcile payment ${id}:`, error);
+        }
+
+        if (index < duePayments.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, this.REQUEST_DELAY_MS));
+        }
+      }
+
+      return duePayments.length;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  // Запрашивает статус у шлюза и применяет его. Используется воркером и вручную из админки.
+  async reconcilePayment(paymentId: string): Promise<PaymentStatusTransitionResult | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        shop: {
+          select: {
+            id: true,
+            name: true,
+            settings: {
+              select: {
+                webhookUrl: true,
+                webhookEvents: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (!payment.gatewayPaymentId) {
+      throw new Error('Payment has no gateway payment ID');
+    }
+
+    const gateway = gatewayRegistry.getByName(payment.gateway);
+    if (!gateway) {
+      throw new Error(`Unsupported gateway: ${payment.gateway}`);
+    }
+
+    const source = `reconciliation:${gateway.provider}`;
+
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        lastReconciledAt: new Date(),
+        reconcileAttempts: { increment: 1 },
+      },
+    });
+
+    let verifyResult;
+    try {
+      verifyResult = await gateway.verifyPayment(payment.gatewayPaymentId);
+    } catch (error) {
+      console.error(`❌ ${gateway.displayName} status check failed for payment ${payment.id}:`, error);
+      loggerService.logWebhookError(source, error, { paymentId: payment.id, gatewayPaymentId: payment.gatewayPaymentId });
+      return null;
+    }
+
+    // ✅ ОБНОВЛЕНО: Статус без изменений или недопустимый переход (например, шлюз еще сообщает PENDING
+    // для PROCESSING платежа) не применяется - иначе каждая проверка писала бы отклоненную запись в историю
+    const localStatus = payment.status as PaymentStatusValue;
+    if (verifyResult.status === localStatus || !paymentStatusService.canTransition(localStatus, verifyResult.status)) {
+      return {
+        changed: false,
+        allowed: verifyResult.status === localStatus,
+        oldStatus: localStatus,
+        newStatus: verifyResult.status,
+      };
+    }
+
+    console.log(`🔎 ${gateway.displayName} reports ${verifyResult.status} for payment ${payment.id} (local: ${payment.status})`);
+
+    const transition = await this.webhookService.applyGatewayStatus(payment, verifyResult.status, {
+      source,
+      reason: verifyResult,
+    });
+
+    if (transition.changed) {
+      // Запись в webhook логах, как при обработке webhook
+      await prisma.webhookLog.create({
+        data: {
+          paymentId: payment.id,
+          shopId: payment.shopId,
+          event: `${gateway.provider}_reconciliation_${verifyResult.status.toLowerCase()}`,
+          statusCode: 200,
+          responseBody: JSON.stringify(verifyResult),
+        },
+      });
+    }
+
+    return transition;
+  }
+
+  async getServiceStats(): Promise<{
+    isRunning: boolean;
+    isProcessing: boolean;
+    lastRunAt: Date | null;
+    checkIntervalMs: number;
+    schedules: Record<string, ReconciliationScheduleStep[]>;
+    lock: ServiceLeaseStatus;
+  }> {
+    const lock = await leaseService.getLeaseStatus(this.LEASE_NAME);
+
+    return {
+      isRunning: this.checkInterval !== null,
+      isProcessing: this.isProcessing,
+      lastRunAt: this.lastRunAt,
+      checkIntervalMs: this.CHECK_INTERVAL_MS,
+      schedules: RECONCILIATION_SCHEDULES,
+      lock,
+    };
+  }
+
+  // Условия "пора проверить" для каждого шага расписания каждого шлюза
+  private buildDueConditions(now: Date): any[] {
+    const conditions: any[] = [];
+
+    for (const [provider, steps] of Object.entries(RECONCILIATION_SCHEDULES)) {
+      const gatewayNames = this.getReconciledGateways(provider).map(gateway => gateway.name);
+      if (gatewayNames.length === 0) continue;
+
+      let fromAgeMs = 0;
+      for (const step of steps) {
+        const checkedBefore = new Date(now.getTime() - step.intervalMs);
+
+        conditions.push({
+          gateway: { in: gatewayNames },
+          createdAt: {
+            gt: new Date(now.getTime() - step.untilAgeMs),
+            lte: new Date(now.getTime() - fromAgeMs),
+          },
+          OR: [
+            { lastReconciledAt: null, createdAt: { lte: checkedBefore } },
+            { lastReconciledAt: { lte: checkedBefore } },
+          ],
+        });
+
+        fromAgeMs = step.untilAgeMs;
+      }
+    }
+
+    return conditions;
+  }
+
+  private getReconciledGateways(provider: string): PaymentGateway[] {
+    return gatewayRegistry
+      .getAll()
+      .filter(gateway => gateway.provider === provider && !gateway.capabilities.statusPolling);
+  }
+}
+
+export const paymentReconciliationService = new PaymentReconciliationService();
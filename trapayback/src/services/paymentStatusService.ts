@@ -0,0 +1,177 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { ledgerService } from './ledgerService';
+import { rollingReserveService } from './rollingReserveService';
+import {
+  PaymentStatusValue,
+  PaymentStatusTransitionOptions,
+  PaymentStatusTransitionResult,
+  PaymentStatusHistoryResponse,
+} from '../types/payment';
+
+// ✅ ДОБАВЛЕНО: Допустимые переходы статуса платежа.
+// Все изменения статуса (webhook, проверка CoinToPay, магазин, админ) проходят через PaymentStatusService.transition,
+// поэтому поздний callback "pending" не может вернуть PAID платеж обратно.
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatusValue, PaymentStatusValue[]> = {
+  PENDING: ['PROCESSING', 'PAID', 'EXPIRED', 'FAILED', 'UNDERPAID'],
+  PROCESSING: ['PAID', 'EXPIRED', 'FAILED', 'UNDERPAID'],
+  PAID: ['REFUND', 'CHARGEBACK'],
+  EXPIRED: ['PROCESSING', 'PAID', 'UNDERPAID'], // Поздняя оплата после истечения (крипто-инвойсы)
+  FAILED: [],
+  REFUND: [],
+  CHARGEBACK: [],
+  UNDERPAID: ['PAID', 'REFUND'], // ✅ ДОБАВЛЕНО: Доплата клиентом или решение админа
+};
+
+export class PaymentStatusService {
+  private readonly MAX_REASON_LENGTH = 60000; // MySQL TEXT - 64KB
+
+  canTransition(oldStatus: PaymentStatusValue, newStatus: PaymentStatusValue): boolean {
+    return PAYMENT_STATUS_TRANSITIONS[oldStatus]?.includes(newStatus) ?? false;
+  }
+
+  // Меняет статус платежа, если переход допустим (или force), и пишет запись в историю.
+  // Недопустимый переход без force не применяется, но сохраняется в истории с accepted = false.
+  async transition(
+    paymentId: string,
+    newStatus: PaymentStatusValue,
+    options: PaymentStatusTransitionOptions
+  ): Promise<PaymentStatusTransitionResult> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { status: true, paidAt: true },
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    const oldStatus = payment.status as PaymentStatusValue;
+
+    if (oldStatus === newStatus) {
+      return { changed: false, allowed: true, oldStatus, newStatus };
+    }
+
+    const allowed = this.canTransition(oldStatus, newStatus);
+    const reason = this.formatReason(options.reason);
+
+    if (!allowed && !options.force) {
+      console.warn(`🚫 Illegal payment status transition ${oldStatus} -> ${newStatus} for payment ${paymentId} (source: ${options.source})`);
+
+      await prisma.paymentStatusHistory.create({
+        data: {
+          paymentId,
+          oldStatus,
+          newStatus,
+          source: options.source,
+          actor: options.actor,
+          reason,
+          accepted: false,
+        },
+      });
+
+      return { changed: false, allowed: false, oldStatus, newStatus };
+    }
+
+    if (!allowed) {
+      console.warn(`⚠️ Forced payment status transition ${oldStatus} -> ${newStatus} for payment ${paymentId} (source: ${options.source})`);
+    }
+
+    const now = new Date();
+    const updateData: Prisma.PaymentUpdateManyMutationInput = {
+      ...options.data,
+      status: newStatus,
+      statusChangedBy: options.source,
+      statusChangedAt: now,
+      updatedAt: now,
+    };
+
+    if (newStatus === 'PAID' && !payment.paidAt && updateData.paidAt === undefined) {
+      updateData.paidAt = now;
+    }
+
+    // Условное обновление: если статус успели изменить параллельно, переход не применяется
+    const changed = await prisma.$transaction(async (tx) => {
+      const result = await tx.payment.updateMany({
+        where: {
+          id: paymentId,
+          status: oldStatus,
+        },
+        data: updateData,
+      });
+
+      if (result.count === 0) {
+        return false;
+      }
+
+      await tx.paymentStatusHistory.create({
+        data: {
+          paymentId,
+          oldStatus,
+          newStatus,
+          source: options.source,
+          actor: options.actor,
+          reason,
+          accepted: true,
+          forced: !allowed,
+        },
+      });
+
+      // ✅ ОБНОВЛЕНО: Rolling reserve и проводка баланса фиксируются атомарно со статусом.
+      // Резерв пишется здесь же (до проводки оплаты), проводка - задачей с повторами (нужен курс валюты)
+      if (newStatus === 'PAID') {
+        await rollingReserveService.applyReserve(tx, paymentId);
+      }
+
+      await ledgerService.schedulePaymentStatusChange(tx, paymentId, oldStatus, newStatus);
+
+      return true;
+    });
+
+    if (!changed) {
+      console.warn(`⚠️ Payment ${paymentId} status changed concurrently, transition ${oldStatus} -> ${newStatus} skipped`);
+      return { changed: false, allowed: true, oldStatus, newStatus };
+    }
+
+    console.log(`🔀 Payment ${paymentId} status: ${oldStatus} -> ${newStatus} (source: ${options.source})`);
+
+    return { changed: true, allowed: true, oldStatus, newStatus };
+  }
+
+  // merchantView: для магазина - только примененные переходы, без actor и исходных данных
+  async getStatusHistory(paymentId: string, merchantView: boolean = false): Promise<PaymentStatusHistoryResponse[]> {
+    const history = await prisma.paymentStatusHistory.findMany({
+      where: {
+        paymentId,
+        ...(merchantView && { accepted: true }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return history.map(entry => ({
+      id: entry.id,
+      oldStatus: entry.oldStatus,
+      newStatus: entry.newStatus,
+      source: entry.source,
+      actor: merchantView ? null : entry.actor,
+      reason: merchantView ? null : entry.reason,
+      accepted: entry.accepted,
+      forced: entry.forced,
+      createdAt: entry.createdAt,
+    }));
+  }
+
+  private formatReason(reason: any): string | undefined {
+    if (reason === undefined || reason === null) {
+      return undefined;
+    }
+
+    const formatted = typeof reason === 'string' ? reason : JSON.stringify(reason);
+
+    return formatted.length > this.MAX_REASON_LENGTH
+      ? formatted.substring(0, this.MAX_REASON_LENGTH)
+      : formatted;
+  }
+}
+
+export const paymentStatusService = new PaymentStatusService();
@@ -0,0 +1,230 @@
+import { Prisma } from '@prisma/client';
+import { getShopGatewaySettings, roundAmount } from './gateways/gatewaySettingsHelpers';
+import { createError } from '../middleware/errorHandler';
+import { PayoutItemResponse } from '../types/payout';
+import { rollingReserveService } from './rollingReserveService';
+import { ledgerService } from './ledgerService';
+
+type TransactionClient = Prisma.TransactionClient;
+
+// Позиции выплаты для детальных ответов (платеж - для сверки с заказом магазина)
+export const PAYOUT_ITEMS_INCLUDE = {
+  include: {
+    payment: {
+      select: {
+        orderId: true,
+        amount: true,
+        currency: true,
+      },
+    },
+  },
+  orderBy: { createdAt: 'asc' },
+} satisfies Prisma.Payout$itemsArgs;
+
+export const formatPayoutItem = (item: any): PayoutItemResponse => ({
+  paymentId: item.paymentId,
+  type: item.type,
+  orderId: item.payment?.orderId,
+  amount: item.payment?.amount,
+  currency: item.payment?.currency,
+  grossAmount: item.grossAmount,
+  commission: item.commission,
+  netAmount: item.netAmount,
+});
+
+export interface SettlementItem {
+  paymentId: string;
+  type: 'PAYMENT' | 'RESERVE'; // ✅ ДОБАВЛЕНО: Сумма за вычетом rolling reserve или освобожденный резерв
+  grossAmount: number;
+  commission: number;
+  netAmount: number;
+}
+
+// ✅ ДОБАВЛЕНО: Связь выплат с платежами, которые они покрывают.
+// Платежи попадают в выплату целиком (от старых к новым), сумма к выплате считается так же,
+// как в статистике магазина: зачтенная сумма за вычетом возвратов, минус комиссия шлюза.
+// ✅ ИСПРАВЛЕНО: Сумма и комиссия берутся из проводок ledger (курс и комиссия на момент оплаты), а не пересчитываются
+// по текущему курсу - иначе выплата расходится с балансом. Платеж без проводки PAYMENT ждет ее (ledger.payment_status).
+// Выполненная выплата помечает платежи merchantPaid, отклонение или удаление выплаты их освобождает.
+// ✅ ОБНОВЛЕНО: При rolling reserve платеж выплачивается двумя позициями - PAYMENT (без резерва, после задержки
+// выплаты) и RESERVE (после освобождения резерва, помечает reservePaid).
+// Все методы работают внутри транзакции вызывающего сервиса.
+export class PayoutSettlementService {
+  // Части платежей магазина, еще не покрытые ни одной выплатой
+  async collectPayments(
+    tx: TransactionClient,
+    shopId: string,
+    options: { paymentIds?: string[]; maxAmount?: number; respectPayoutDelay: boolean }
+  ): Promise<SettlementItem[]> {
+    const shop = await tx.shop.findUnique({
+      where: { id: shopId },
+      select: { gatewaySettings: true },
+    });
+
+    if (!shop) {
+      throw createError('Shop not found', 404);
+    }
+
+    const payments = await tx.payment.findMany({
+      where: {
+        shopId,
+        status: 'PAID',
+        paidAt: { not: null },
+        OR: [
+          { merchantPaid: false, payoutItems: { none: { type: 'PAYMENT' } } },
+          {
+            reservePercent: { gt: 0 },
+            reserveReleasedAt: { not: null },
+            reservePaid: false,
+            payoutItems: { none: { type: 'RESERVE' } },
+          },
+        ],
+        ...(options.paymentIds && { id: { in: options.paymentIds } }),
+      },
+      select: {
+        id: true,
+        gateway: true,
+        status: true,
+        paidAt: true,
+        merchantPaid: true,
+        reservePercent: true,
+        reserveReleaseAt: true,
+        reserveReleasedAt: true,
+        reservePaid: true,
+        payoutItems: { select: { type: true } },
+      },
+      orderBy: { paidAt: 'asc' },
+    });
+
+    if (options.paymentIds && payments.length !== new Set(options.paymentIds).size) {
+      const found = new Set(payments.map(payment => payment.id));
+      const unavailable = options.paymentIds.filter(id => !found.has(id));
+      throw createError(`Payments are not paid, belong to another shop or are already covered by a payout: ${unavailable.join(', ')}`, 400);
+    }
+
+    const recordedAmounts = await ledgerService.getRecordedPaymentAmounts(tx, payments.map(payment => payment.id));
+
+    // Части платежей в порядке, в котором они стали доступны к выплате
+    const candidates: Array<{ item: SettlementItem; availableAt: Date }> = [];
+
+    for (const payment of payments) {
+      const recorded = recordedAmounts.get(payment.id);
+      if (!recorded || recorded.grossAmount <= 0) {
+        continue;
+      }
+
+      const { commission, grossAmount: paymentAmountUSDT } = recorded;
+      const { payoutDelay } = getShopGatewaySettings(shop.gatewaySettings, payment.gateway);
+      const shares = rollingReserveService.getUnpaidShares(payment);
+      const coveredTypes = new Set(payment.payoutItems.map(item => item.type));
+
+      const availableAt = new Date(payment.paidAt!.getTime() + payoutDelay * 24 * 60 * 60 * 1000);
+
+      const addCandidate = (type: SettlementItem['type'], share: number, candidateAvailableAt: Date) => {
+        const grossAmount = roundAmount(paymentAmountUSDT * share);
+        const netAmount = roundAmount(grossAmount * (1 - commission / 100));
+
+        if (netAmount > 0) {
+          candidates.push({ item: { paymentId: payment.id, type, grossAmount, commission, netAmount }, availableAt: candidateAvailableAt });
+        }
+      };
+
+      if (shares.main > 0 && !coveredTypes.has('PAYMENT') && (!options.respectPayoutDelay || Date.now() > availableAt.getTime())) {
+        addCandidate('PAYMENT', shares.main, availableAt);
+      }
+
+      if (shares.reserve > 0 && !shares.reserveHeld && !coveredTypes.has('RESERVE')) {
+        addCandidate('RESERVE', shares.reserve, payment.reserveReleasedAt!);
+      }
+    }
+
+    candidates.sort((a, b) => a.availableAt.getTime() - b.availableAt.getTime());
+
+    const items: SettlementItem[] = [];
+    let total = 0;
+
+    for (const { item } of candidates) {
+      // Без явного списка платежей берем самые старые, пока они помещаются в сумму выплаты
+      if (options.maxAmount !== undefined && total + item.netAmount > options.maxAmount + 0.01) {
+        if (options.paymentIds) {
+          throw createError(`Selected payments exceed the payout amount (${options.maxAmount} USDT)`, 400);
+        }
+        break;
+      }
+
+      items.push(item);
+      total += item.netAmount;
+    }
+
+    return items;
+  }
+
+  // Связывает платежи с выплатой; для выполненной выплаты сразу помечает их выплаченными
+  async attach(tx: TransactionClient, payoutId: string, items: SettlementItem[], markPaid: boolean): Promise<void> {
+    if (items.length === 0) {
+      return;
+    }
+
+    try {
+      await tx.payoutItem.createMany({
+        data: items.map(item => ({ payoutId, ...item })),
+      });
+    } catch (error) {
+      // Уникальный payment_id: параллельная выплата уже забрала платеж
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createError('Some payments were just covered by another payout, please retry', 409);
+      }
+      throw error;
+    }
+
+    if (markPaid) {
+      await this.markPaid(tx, payoutId);
+    }
+  }
+
+  async markPaid(tx: TransactionClient, payoutId: string): Promise<number> {
+    const result = await tx.payment.updateMany({
+      where: { payoutItems: { some: { payoutId, type: 'PAYMENT' } } },
+      data: { merchantPaid: true },
+    });
+
+    // ✅ ДОБАВЛЕНО: Освобожденный rolling reserve
+    const reserves = await tx.payment.updateMany({
+      where: { payoutItems: { some: { payoutId, type: 'RESERVE' } } },
+      data: { reservePaid: true },
+    });
+
+    console.log(`🔗 Payout ${payoutId}: ${result.count} payments and ${reserves.count} reserves marked as paid to merchant`);
+
+    return result.count + reserves.count;
+  }
+
+  // Отклоненная или удаленная выплата возвращает платежи в ожидание выплаты
+  async release(tx: TransactionClient, payoutId: string): Promise<number> {
+    await tx.payment.updateMany({
+      where: { payoutItems: { some: { payoutId, type: 'PAYMENT' } } },
+      data: { merchantPaid: false },
+    });
+
+    await tx.payment.updateMany({
+      where: { payoutItems: { some: { payoutId, type: 'RESERVE' } } },
+      data: { reservePaid: false },
+    });
+
+    const result = await tx.payoutItem.deleteMany({
+      where: { payoutId },
+    });
+
+    if (result.count > 0) {
+      console.log(`🔓 Payout ${payoutId}: ${result.count} payments released`);
+    }
+
+    return result.count;
+  }
+
+  sumNetAmount(items: SettlementItem[]): number {
+    return roundAmount(items.reduce((sum, item) => sum + item.netAmount, 0));
+  }
+}
+
+export const payoutSettlementService = new PayoutSettlementService();
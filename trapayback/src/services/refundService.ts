@@ -0,0 +1,371 @@
+import prisma from '../config/database';
+import { roundAmount } from './gateways/gatewaySettingsHelpers';
+import { WebhookService } from './webhookService';
+import { webhookDeliveryService } from './webhookDeliveryService';
+import { ledgerService } from './ledgerService';
+import { createError } from '../middleware/errorHandler';
+import {
+  CreateRefundRequest,
+  CompleteRefundRequest,
+  RefundResponse,
+  RefundFilters,
+  ACTIVE_REFUND_STATUSES,
+} from '../types/refund';
+
+// ✅ ДОБАВЛЕНО: Возвраты платежей (полные и частичные).
+// ✅ ОБНОВЛЕНО: Ни один шлюз не поддерживает возвраты через API, поэтому каждый возврат остается PENDING
+// в очереди ручной обработки: админ делает перевод сам и подтверждает или отклоняет возврат.
+// Когда сумма завершенных возвратов достигает суммы платежа, платеж переходит в REFUND.
+export class RefundService {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  async createRefund(shopId: string, paymentId: string, data: CreateRefundRequest): Promise<RefundResponse> {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, shopId },
+      select: {
+        id: true,
+        shopId: true,
+        amount: true,
+        creditedAmount: true,
+        currency: true,
+        status: true,
+      },
+    });
+
+    if (!payment) {
+      throw createError('Payment not found', 404);
+    }
+
+    if (payment.status !== 'PAID') {
+      throw createError(`Only paid payments can be refunded (current status: ${payment.status})`, 409);
+    }
+
+    // Блокировка строки платежа: параллельные запросы не могут вернуть больше суммы платежа
+    const refund = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM payments WHERE id = ${payment.id} FOR UPDATE`;
+
+      const refunded = await tx.refund.aggregate({
+        where: {
+          paymentId: payment.id,
+          status: { in: ACTIVE_REFUND_STATUSES },
+        },
+        _sum: { amount: true },
+      });
+
+      // Вернуть можно только то, что зачтено магазину (creditedAmount при недоплате/частичном зачете)
+      const refundableAmount = roundAmount(this.getRefundLimit(payment) - (refunded._sum.amount || 0));
+      const amount = roundAmount(data.amount ?? refundableAmount);
+
+      if (refundableAmount <= 0) {
+        throw createError('Payment has already been fully refunded', 409);
+      }
+
+      if (amount <= 0 || amount > refundableAmount) {
+        throw createError(`Refund amount must be between 0 and ${refundableAmount} ${payment.currency}`, 400);
+      }
+
+      return tx.refund.create({
+        data: {
+          paymentId: payment.id,
+          shopId,
+          amount,
+          currency: payment.currency,
+          reason: data.reason,
+        },
+      });
+    });
+
+    console.log(`↩️ Refund ${refund.id} created for payment ${payment.id}: ${refund.amount} ${refund.currency} (queued for manual processing)`);
+
+    // ✅ ДОБАВЛЕНО: Сумма возврата списывается с баланса магазина сразу при создании
+    await this.postToLedger(refund.id, () => ledgerService.recordRefund(refund.id));
+
+    return (await this.getRefundById(refund.id))!;
+  }
+
+  // Подтверждение возврата админом после ручного перевода
+  async completeRefund(
+    refundId: string,
+    options: CompleteRefundRequest & { source: string; actor?: string }
+  ): Promise<RefundResponse> {
+    const refund = await prisma.refund.findUnique({ where: { id: refundId } });
+
+    if (!refund) {
+      throw createError('Refund not found', 404);
+    }
+
+    const completed = await prisma.$transaction(async (tx) => {
+      const result = await tx.refund.updateMany({
+        where: {
+          id: refundId,
+          status: { in: ['PENDING', 'PROCESSING'] },
+        },
+        data: {
+          status: 'COMPLETED',
+          ...(options.gatewayRefundId && { gatewayRefundId: options.gatewayRefundId }),
+          ...(options.notes && { adminNotes: options.notes }),
+          processedBy: options.actor || options.source,
+          processedAt: new Date(),
+        },
+      });
+
+      if (result.count === 0) {
+        return false;
+      }
+
+      await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: { refundedAmount: { increment: refund.amount } },
+      });
+
+      return true;
+    });
+
+    if (!completed) {
+      throw createError(`Refund cannot be completed (current status: ${refund.status})`, 409);
+    }
+
+    console.log(`✅ Refund ${refundId} completed: ${refund.amount} ${refund.currency} (${options.actor || options.source})`);
+
+    const payment = await this.getPaymentWithSettings(refund.paymentId);
+
+    // Полный возврат - статус REFUND тем же путем, что и от шлюза (история, payment.refunded, Telegram)
+    if (payment.status === 'PAID' && roundAmount(payment.refundedAmount) >= roundAmount(this.getRefundLimit(payment))) {
+      await this.webhookService.applyGatewayStatus(payment, 'REFUND', {
+        source: options.source,
+        reason: {
+          refundId,
+          refundedAmount: payment.refundedAmount,
+          ...(options.notes && { notes: options.notes }),
+        },
+      });
+    }
+
+    const updated = await prisma.refund.findUnique({ where: { id: refundId } });
+    await this.sendRefundWebhook(updated, payment, 'refund.completed');
+
+    return (await this.getRefundById(refundId))!;
+  }
+
+  async rejectRefund(refundId: string, reason: string, actor: string): Promise<RefundResponse> {
+    return this.failRefund(refundId, 'REJECTED', reason, actor);
+  }
+
+  async getPaymentRefunds(shopId: string, paymentId: string): Promise<RefundResponse[]> {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, shopId },
+      select: { id: true },
+    });
+
+    if (!payment) {
+      throw createError('Payment not found', 404);
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { paymentId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return refunds.map(refund => this.formatRefund(refund));
+  }
+
+  async getRefunds(filters: RefundFilters): Promise<{
+    refunds: RefundResponse[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    const { page, limit, status, shopId, paymentId } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (status) {
+      where.status = status.toUpperCase();
+    }
+
+    if (shopId) {
+      where.shopId = shopId;
+    }
+
+    if (paymentId) {
+      where.paymentId = paymentId;
+    }
+
+    const [refunds, total] = await Promise.all([
+      prisma.refund.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+        include: {
+          payment: {
+            select: {
+              id: true,
+              gateway: true,
+              amount: true,
+              currency: true,
+              status: true,
+              refundedAmount: true,
+              orderId: true,
+            },
+          },
+          shop: {
+            select: {
+              name: true,
+              username: true,
+            },
+          },
+        },
+      }),
+      prisma.refund.count({ where }),
+    ]);
+
+    return {
+      refunds: refunds.map(refund => this.formatRefund(refund)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getRefundById(refundId: string): Promise<RefundResponse | null> {
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      include: {
+        payment: {
+          select: {
+            id: true,
+            gateway: true,
+            amount: true,
+            currency: true,
+            status: true,
+            refundedAmount: true,
+            orderId: true,
+          },
+        },
+        shop: {
+          select: {
+            name: true,
+            username: true,
+          },
+        },
+      },
+    });
+
+    return refund ? this.formatRefund(refund) : null;
+  }
+
+  private async failRefund(
+    refundId: string,
+    status: 'FAILED' | 'REJECTED',
+    reason: string,
+    actor: string
+  ): Promise<RefundResponse> {
+    const result = await prisma.refund.updateMany({
+      where: {
+        id: refundId,
+        status: { in: ['PENDING', 'PROCESSING'] },
+      },
+      data: {
+        status,
+        failureReason: reason,
+        processedBy: actor,
+        processedAt: new Date(),
+      },
+    });
+
+    const refund = await prisma.refund.findUnique({ where: { id: refundId } });
+
+    if (!refund) {
+      throw createError('Refund not found', 404);
+    }
+
+    if (result.count === 0) {
+      throw createError(`Refund cannot be ${status.toLowerCase()} (current status: ${refund.status})`, 409);
+    }
+
+    console.log(`🚫 Refund ${refundId} ${status.toLowerCase()} by ${actor}: ${reason}`);
+
+    await this.postToLedger(refundId, () => ledgerService.recordRefundReversal(refundId));
+
+    const payment = await this.getPaymentWithSettings(refund.paymentId);
+    await this.sendRefundWebhook(refund, payment, 'refund.failed');
+
+    return (await this.getRefundById(refundId))!;
+  }
+
+  private async sendRefundWebhook(refund: any, payment: any, event: 'refund.completed' | 'refund.failed'): Promise<void> {
+    try {
+      await webhookDeliveryService.sendRefundWebhook(refund, payment, event);
+    } catch (error) {
+      console.error(`Failed to queue ${event} webhook for refund ${refund.id}:`, error);
+    }
+  }
+
+  private getRefundLimit(payment: { amount: number; creditedAmount: number | null }): number {
+    return payment.creditedAmount ?? payment.amount;
+  }
+
+  private async getPaymentWithSettings(paymentId: string) {
+    return prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: {
+        shop: {
+          select: {
+            id: true,
+            name: true,
+            settings: {
+              select: {
+                webhookUrl: true,
+                webhookEvents: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  private formatRefund(refund: any): RefundResponse {
+    return {
+      id: refund.id,
+      paymentId: refund.paymentId,
+      shopId: refund.shopId,
+      amount: refund.amount,
+      currency: refund.currency,
+      reason: refund.reason,
+      status: refund.status,
+      gatewayRefundId: refund.gatewayRefundId,
+      failureReason: refund.failureReason,
+      adminNotes: refund.adminNotes,
+      processedBy: refund.processedBy,
+      processedAt: refund.processedAt,
+      createdAt: refund.createdAt,
+      updatedAt: refund.updatedAt,
+      ...(refund.payment && { payment: refund.payment }),
+      ...(refund.shop && { shop: refund.shop }),
+    };
+  }
+
+  // Ошибка проводки не ломает возврат - пропущенное допишет ledger.backfill
+  private async postToLedger(refundId: string, post: () => Promise<void>): Promise<void> {
+    try {
+      await post();
+    } catch (error) {
+      console.error(`❌ [LEDGER] Failed to post refund ${refundId}:`, error);
+    }
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,117 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { jobService } from './jobService';
+import { ledgerService } from './ledgerService';
+import { getShopGatewaySettings } from './gateways/gatewaySettingsHelpers';
+
+export interface PaymentReserveState {
+  status: string;
+  merchantPaid: boolean;
+  reservePercent: number | null;
+  reserveReleasedAt: Date | null;
+  reservePaid: boolean;
+}
+
+// ✅ ДОБАВЛЕНО: Rolling reserve по шлюзу (reservePercent / reserveDays в gatewaySettings магазина).
+// При оплате настройки шлюза фиксируются в платеже: часть суммы к выплате удерживается до reserveReleaseAt,
+// остальное выплачивается по обычной задержке выплаты. Освобожденный резерв выплачивается отдельной позицией выплаты.
+// Платеж, ушедший из PAID (возврат, chargeback), резерв больше не удерживает.
+export class RollingReserveService {
+  private readonly RELEASE_INTERVAL_MS = 10 * 60 * 1000; // 10 минут
+  private readonly BATCH_SIZE = 200;
+
+  constructor() {
+    jobService.registerRecurring('payout.release_reserves', this.RELEASE_INTERVAL_MS, async () => {
+      await this.releaseDueReserves();
+    });
+  }
+
+  // Вызывается PaymentStatusService в транзакции перехода в PAID (один раз: повторная оплата настройки не меняет)
+  async applyReserve(tx: Prisma.TransactionClient, paymentId: string): Promise<void> {
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      select: {
+        gateway: true,
+        paidAt: true,
+        reservePercent: true,
+        shop: {
+          select: { gatewaySettings: true },
+        },
+      },
+    });
+
+    if (!payment || payment.reservePercent !== null) {
+      return;
+    }
+
+    const { reservePercent, reserveDays } = getShopGatewaySettings(payment.shop.gatewaySettings, payment.gateway);
+    if (reservePercent <= 0) {
+      return;
+    }
+
+    const paidAt = payment.paidAt || new Date();
+    const reserveReleaseAt = new Date(paidAt.getTime() + reserveDays * 24 * 60 * 60 * 1000);
+
+    await tx.payment.updateMany({
+      where: { id: paymentId, reservePercent: null },
+      data: { reservePercent, reserveReleaseAt },
+    });
+
+    console.log(`🔒 Rolling reserve ${reservePercent}% of payment ${paymentId} held until ${reserveReleaseAt.toISOString()}`);
+  }
+
+  // Доли суммы платежа к выплате, которые еще не выплачены мерчанту
+  getUnpaidShares(payment: PaymentReserveState): { main: number; reserve: number; reserveHeld: boolean } {
+    const reserveShare = (payment.reservePercent || 0) / 100;
+    const reserve = payment.reservePaid ? 0 : reserveShare;
+
+    return {
+      main: payment.merchantPaid ? 0 : 1 - reserveShare,
+      reserve,
+      reserveHeld: reserve > 0 && payment.status === 'PAID' && !payment.reserveReleasedAt,
+    };
+  }
+
+  // Резервы, у которых наступила дата освобождения: становятся доступны к выплате, в ledger - ROLLING_RESERVE -> AVAILABLE
+  async releaseDueReserves(): Promise<number> {
+    const due = await prisma.payment.findMany({
+      where: {
+        status: 'PAID',
+        reserveReleasedAt: null,
+        reserveReleaseAt: { lte: new Date() },
+      },
+      select: { id: true, shopId: true },
+      orderBy: { reserveReleaseAt: 'asc' },
+      take: this.BATCH_SIZE,
+    });
+
+    let releasedCount = 0;
+
+    for (const payment of due) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          const claimed = await tx.payment.updateMany({
+            where: { id: payment.id, status: 'PAID', reserveReleasedAt: null },
+            data: { reserveReleasedAt: new Date() },
+          });
+
+          if (claimed.count > 0) {
+            await ledgerService.recordReserveRelease(tx, payment);
+          }
+        });
+
+        releasedCount++;
+      } catch (error) {
+        console.error(`❌ Failed to release rolling reserve of payment ${payment.id}:`, error);
+      }
+    }
+
+    if (releasedCount > 0) {
+      console.log(`🔓 Released rolling reserve of ${releasedCount} payments`);
+    }
+
+    return releasedCount;
+  }
+}
+
+export const rollingReserveService = new RollingReserveService();
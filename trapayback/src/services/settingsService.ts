@@ -7,8 +7,16 @@ import {
   UpdateNotificationsRequest, 
   UpdateTelegramSettingsRequest,
   UpdateWebhookSettingsRequest,
+  UpdatePaymentSettingsRequest,
+  WebhookSecretResponse,
   DeleteAccountRequest 
 } from '../types/settings';
+import {
+  webhookSignatureService,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+} from './webhookSignatureService';
 
 export class SettingsService {
   private maskApiKey(apiKey: string): string {
@@ -73,6 +81,8 @@ export class SettingsService {
       telegramChatId: settings.telegramChatId,
       webhookUrl: settings.webhookUrl, // Get from settings instead of shop
       webhookEvents: this.parseWebhookEvents(settings.webhookEvents), // ✅ ИСПРАВЛЕНО: Parse JSON for MySQL
+      orderIdPolicy: settings.orderIdPolicy,
+      amountTolerancePercent: settings.amountTolerancePercent, // ✅ ДОБАВЛЕНО
       notifications: {
         payment_success: settings.notificationPaymentSuccess,
         payment_failed: settings.notificationPaymentFailed,
@@ -194,6 +204,51 @@ export class SettingsService {
     });
   }
 
+  // ✅ ДОБАВЛЕНО: Настройки создания платежей (политика повторного order_id, допуск суммы оплаты)
+  async updatePaymentSettings(shopId: string, paymentSettings: UpdatePaymentSettingsRequest): Promise<void> {
+    // Ensure settings exist
+    await this.ensureSettingsExist(shopId);
+
+    const updateData: any = {};
+
+    if (paymentSettings.orderIdPolicy !== undefined) {
+      updateData.orderIdPolicy = paymentSettings.orderIdPolicy;
+    }
+
+    if (paymentSettings.amountTolerancePercent !== undefined) {
+      updateData.amountTolerancePercent = paymentSettings.amountTolerancePercent;
+    }
+
+    await prisma.shopSettings.update({
+      where: { shopId },
+      data: updateData,
+    });
+  }
+
+  // ✅ ОБНОВЛЕНО: Секрет для проверки подписи webhook - отдельный whsec_ магазина, а не секретный ключ API
+  async getWebhookSecret(shopId: string): Promise<WebhookSecretResponse> {
+    const secret = await webhookSignatureService.getShopWebhookSecret(shopId);
+
+    return this.formatWebhookSecret(secret);
+  }
+
+  // ✅ ДОБАВЛЕНО: Новый секрет webhook, старый перестает действовать сразу
+  async rotateWebhookSecret(shopId: string): Promise<WebhookSecretResponse> {
+    const secret = await webhookSignatureService.rotateShopWebhookSecret(shopId);
+
+    return this.formatWebhookSecret(secret);
+  }
+
+  private formatWebhookSecret(secret: string): WebhookSecretResponse {
+    return {
+      secret,
+      signatureHeader: WEBHOOK_SIGNATURE_HEADER,
+      timestampHeader: WEBHOOK_TIMESTAMP_HEADER,
+      algorithm: 'HMAC-SHA256',
+      toleranceSeconds: WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+    };
+  }
+
   async revokeAllApiKeys(shopId: string): Promise<void> {
     // Generate new API keys
     const publicKey = 'pk_' + crypto.randomBytes(32).toString('hex');
@@ -1,119 +1,24 @@
 import prisma from '../config/database';
 import { CreatePaymentRequest, UpdatePaymentRequest, PaymentResponse, PaymentFilters } from '../types/payment';
-import { WebhookLogResponse, WebhookLogFilters } from '../types/webhook';
+import { WebhookLogResponse, WebhookLogFilters, WebhookSendResult, ResendWebhooksRequest, ResendWebhooksResult } from '../types/webhook';
 import { ShopProfileResponse, UpdateShopProfileRequest, GatewaySettings, UpdateWalletsRequest } from '../types/shop';
-import { PayoutResponse, PayoutFilters, PayoutStatistics, PayoutStats, ShopPayoutStats, ShopPayoutResponse } from '../types/payout';
-import { PlisioService } from './gateways/plisioService';
-import { RapydService } from './gateways/rapydService';
-import { NodaService } from './gateways/nodaService';
-import { CoinToPayService } from './gateways/coinToPayService';
-import { KlymeService } from './gateways/klymeService'; // ✅ ДОБАВЛЕНО
+import { PayoutResponse, PayoutFilters, PayoutStatistics, PayoutStats, ShopPayoutStats, ShopPayoutResponse, RequestPayoutRequest, PAYOUT_WALLETS } from '../types/payout';
+import { gatewayRegistry } from './gateways/gatewayRegistry';
+import { generateGatewayOrderId, generateGatewayUrls, initiateGatewayPayment } from './gateways/gatewayHelpers';
+import { getShopGatewaySettings, roundAmount } from './gateways/gatewaySettingsHelpers'; // ✅ ДОБАВЛЕНО
 import { currencyService } from './currencyService';
-import { getGatewayNameById, isValidGatewayId, getKlymeRegionFromGatewayName } from '../types/gateway';
+import { webhookSignatureService } from './webhookSignatureService';
+import { webhookDeliveryService } from './webhookDeliveryService';
+import { paymentStatusService } from './paymentStatusService';
+import { ACTIVE_REFUND_STATUSES } from '../types/refund'; // ✅ ДОБАВЛЕНО
+import { telegramBotService } from './telegramBotService'; // ✅ ДОБАВЛЕНО
+import { payoutSettlementService, PAYOUT_ITEMS_INCLUDE, formatPayoutItem } from './payoutSettlementService'; // ✅ ДОБАВЛЕНО
+import { ledgerService } from './ledgerService'; // ✅ ДОБАВЛЕНО
+import { rollingReserveService } from './rollingReserveService'; // ✅ ДОБАВЛЕНО
+import { getGatewayNameById, isValidGatewayId } from '../types/gateway';
+import { createError } from '../middleware/errorHandler';
 
 export class ShopService {
-  private plisioService: PlisioService;
-  private rapydService: RapydService;
-  private nodaService: NodaService;
-  private coinToPayService: CoinToPayService;
-  private klymeService: KlymeService; // ✅ ДОБАВЛЕНО
-
-  constructor() {
-    this.plisioService = new PlisioService();
-    this.rapydService = new RapydService();
-    this.nodaService = new NodaService();
-    this.coinToPayService = new CoinToPayService();
-    this.klymeService = new KlymeService(); // ✅ ДОБАВЛЕНО
-  }
-
-  // Helper method to generate gateway order ID in format xxxxxxxx-xxxxxxxx (8digits-8digits) for ALL gateways with uniqueness check
-  private async generateGatewayOrderId(): Promise<string> {
-    let gatewayOrderId: string;
-    let attempts = 0;
-    const maxAttempts = 10;
-
-    do {
-      const generateSegment = () => {
-        return Math.floor(Math.random() * 100000000).toString().padStart(8, '0');
-      };
-      
-      gatewayOrderId = `${generateSegment()}-${generateSegment()}`;
-      
-      // Check if this order ID already exists
-      const existingPayment = await prisma.payment.findFirst({
-        where: { gatewayOrderId },
-      });
-
-      if (!existingPayment) {
-        break; // Unique ID found
-      }
-
-      attempts++;
-      console.log(`⚠️ Gateway order ID ${gatewayOrderId} already exists, generating new one (attempt ${attempts})`);
-      
-    } while (attempts < maxAttempts);
-
-    if (attempts >= maxAttempts) {
-      throw new Error('Failed to generate unique gateway order ID after maximum attempts');
-    }
-
-    return gatewayOrderId;
-  }
-
-  // ✅ НОВЫЙ: Helper method to generate gateway-specific URLs
-  private generateGatewayUrls(gatewayName: string, orderId: string, baseUrl: string, successUrl?: string, failUrl?: string): {
-    finalSuccessUrl: string;
-    finalFailUrl: string;
-  } {
-    // If merchant provided custom URLs, use them
-    if (successUrl && failUrl) {
-      return {
-        finalSuccessUrl: successUrl,
-        finalFailUrl: failUrl,
-      };
-    }
-
-    // Generate default URLs based on gateway
-    let finalSuccessUrl: string;
-    let finalFailUrl: string;
-
-    if (gatewayName === 'noda' || gatewayName.startsWith('klyme_') || gatewayName === 'cointopay') {
-      // ✅ Для Noda и KLYME: /payment/pending после успешной оплаты
-      finalSuccessUrl = successUrl || `${baseUrl}/payment/pending?id=${orderId}`;
-    } else {
-      // ✅ Для остальных шлюзов: /payment/success после успешной оплаты
-      finalSuccessUrl = successUrl || `${baseUrl}/payment/success?id=${orderId}`;
-    }
-
-    // ✅ Для всех шлюзов: /payment/fail при неудаче
-    finalFailUrl = failUrl || `${baseUrl}/payment/failed?id=${orderId}`;
-
-    console.log(`🔗 Generated URLs for ${gatewayName}:`);
-    console.log(`   ✅ Success: ${finalSuccessUrl}`);
-    console.log(`   ❌ Fail: ${finalFailUrl}`);
-
-    return { finalSuccessUrl, finalFailUrl };
-  }
-
-  // Helper method to get gateway-specific settings
-  private getGatewaySettings(shop: any, gateway: string): { commission: number; payoutDelay: number } {
-    const gatewaySettings = shop.gatewaySettings ? JSON.parse(shop.gatewaySettings) : null;
-    const gatewayName = gateway.charAt(0).toUpperCase() + gateway.slice(1).toLowerCase(); // Capitalize first letter
-    
-    if (gatewaySettings && gatewaySettings[gatewayName]) {
-      return {
-        commission: gatewaySettings[gatewayName].commission,
-        payoutDelay: gatewaySettings[gatewayName].payoutDelay,
-      };
-    }
-    
-    // Fallback to default settings
-    return {
-      commission: 0, // Default commission if no gateway-specific settings
-      payoutDelay: 0, // Default payout delay if no gateway-specific settings
-    };
-  }
-
   // Helper method to check if payment is eligible for payout
   private isEligibleForPayout(payment: any, gatewaySettings: { commission: number; payoutDelay: number }): boolean {
     if (payment.status !== 'PAID' || payment.merchantPaid || !payment.paidAt) {
@@ -328,7 +233,7 @@ export class ShopService {
     }
 
     // Create test webhook payload
-    const testGatewayOrderId = await this.generateGatewayOrderId();
+    const testGatewayOrderId = await generateGatewayOrderId();
     const testPayload = {
       event: 'payment.success',
       payment: {
@@ -361,14 +266,19 @@ export class ShopService {
       console.log(`🧪 Sending test webhook to: ${webhookUrl}`);
       console.log('Test payload:', JSON.stringify(testPayload, null, 2));
 
+      // ✅ ДОБАВЛЕНО: Тестовый webhook подписывается так же, как боевой
+      const webhookSecret = await webhookSignatureService.getShopWebhookSecret(shop.id);
+      const signedRequest = webhookSignatureService.signPayload(webhookSecret, testPayload);
+
       const response = await fetch(webhookUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'User-Agent': 'TesSoft Payment System/1.0 (Test Webhook)',
           'X-Webhook-Test': 'true',
+          ...signedRequest.headers,
         },
-        body: JSON.stringify(testPayload),
+        body: signedRequest.body,
       });
 
       statusCode = response.status;
@@ -420,25 +330,14 @@ export class ShopService {
 
   // Payment management
   async createPayment(paymentData: CreatePaymentRequest): Promise<PaymentResponse> {
-    // Validate and convert gateway ID to name if needed
-    let gatewayName: string;
-    
-    if (isValidGatewayId(paymentData.gateway)) {
-      // It's a gateway ID, convert to name
-      const convertedName = getGatewayNameById(paymentData.gateway);
-      if (!convertedName) {
-        throw new Error(`Gateway not found for ID: ${paymentData.gateway}`);
-      }
-      gatewayName = convertedName;
-    } else {
-      // It's already a gateway name
-      gatewayName = paymentData.gateway.toLowerCase();
-    }
+    // Gateway can be passed as ID or as name
+    const gateway = gatewayRegistry.resolve(paymentData.gateway);
+    const gatewayName = gateway.name;
 
     console.log(`🔄 Creating shop payment for gateway: ${gatewayName}`);
 
     // ALWAYS generate gateway order ID in format xxxxxxxx-xxxxxxxx for ALL gateways with uniqueness check
-    const gatewayOrderId = await this.generateGatewayOrderId();
+    const gatewayOrderId = await generateGatewayOrderId();
     console.log(`🎯 Generated unique gateway order_id: ${gatewayOrderId} (8digits-8digits format for ${gatewayName})`);
 
     // Get shop information including gateway settings
@@ -457,19 +356,9 @@ export class ShopService {
     }
 
     // Get gateway-specific settings
-    const gatewayConfig = this.getGatewaySettings(shop, gatewayName);
-
-    // ✅ ИСПРАВЛЕНО: Generate gateway-specific URLs
-    const baseUrl = process.env.BASE_URL || 'https://tesoft.uk';
-    const { finalSuccessUrl, finalFailUrl } = this.generateGatewayUrls(
-      gatewayName, 
-      gatewayOrderId, 
-      baseUrl, 
-      paymentData.redirectUrl, // Use redirectUrl as successUrl
-      undefined // No custom failUrl for shop payments
-    );
+    const gatewayConfig = getShopGatewaySettings(shop.gatewaySettings, gatewayName);
 
-    // Create payment in database first
+    // Create payment in database first, URLs are generated from the payment ID below
     const payment = await prisma.payment.create({
       data: {
         shopId: paymentData.shopId,
@@ -479,8 +368,8 @@ export class ShopService {
         sourceCurrency: paymentData.sourceCurrency || null,
         usage: paymentData.usage || 'ONCE',
         expiresAt: paymentData.expiresAt,
-        successUrl: finalSuccessUrl,
-        failUrl: finalFailUrl,
+        successUrl: 'temp',
+        failUrl: 'temp',
         status: 'PENDING',
         orderId: null, // No merchant order ID for shop-created payments
         gatewayOrderId: gatewayOrderId, // Store gateway order ID
@@ -505,198 +394,64 @@ export class ShopService {
 
     console.log(`💾 Shop payment created with gateway order_id: ${gatewayOrderId} (8digits-8digits format)`);
 
-    let externalPaymentUrl: string | undefined; // Original gateway URL
-
-    // Process payment through gateway if needed
-    try {
-      if (gatewayName === 'plisio') {
-        // Apply Plisio-specific logic for currency handling
-        let plisioCurrency: string;
-        let plisioSourceCurrency: string;
-        let isSourceCurrency: boolean;
-
-        if (paymentData.sourceCurrency) {
-          // Shop specified both currency and sourceCurrency - use Plisio mapping
-          plisioCurrency = paymentData.sourceCurrency; // What user pays with (crypto)
-          plisioSourceCurrency = paymentData.currency || 'USD'; // What shop receives (fiat)
-          isSourceCurrency = false; // User is specifying target currency
-        } else {
-          // Shop only specified currency - treat as source currency (what they want to receive)
-          plisioCurrency = 'USD'; // Default target currency
-          plisioSourceCurrency = paymentData.currency || 'USD'; // What shop receives
-          isSourceCurrency = true; // Shop is specifying source currency
-        }
-
-        const plisioResult = await this.plisioService.createPayment({
-          paymentId: payment.id,
-          orderId: gatewayOrderId, // Send gateway order ID to Plisio
-          amount: paymentData.amount,
-          currency: plisioCurrency,
-          productName: `Order ID: ${gatewayOrderId}`, // Use gateway order ID
-          description: `Order ID: ${gatewayOrderId}`, // Use gateway order ID
-          successUrl: finalSuccessUrl,
-          failUrl: finalFailUrl,
-          customerEmail: paymentData.customerEmail,
-          customerName: paymentData.customerName,
-          isSourceCurrency: isSourceCurrency,
-        });
-
-        externalPaymentUrl = plisioResult.payment_url; // Store original Plisio URL
-
-        // Update payment with gateway information
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl, // Store original Plisio URL
-            gatewayPaymentId: plisioResult.gateway_payment_id,
-            invoiceTotalSum: Number(plisioResult.invoice_total_sum),
-            qrCode: plisioResult.qr_code,
-            qrUrl: plisioResult.qr_url,
-          },
-        });
-
-        // Update the payment object for response
-        payment.externalPaymentUrl = externalPaymentUrl;
-        payment.gatewayPaymentId = plisioResult.gateway_payment_id;
-      } else if (gatewayName === 'rapyd') {
-        // ✅ ИСПРАВЛЕНО: Всегда используем GB для Rapyd
-        const rapydCountry = 'GB'; // Всегда Британия
-        console.log(`🇬🇧 Using GB (Britain) as country for Rapyd shop payment`);
-
-        const rapydResult = await this.rapydService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId, // Send gateway order ID to Rapyd
-          orderName: `Order ID: ${gatewayOrderId}`, // Use gateway order ID
-          amount: paymentData.amount,
-          currency: paymentData.currency || 'USD',
-          country: rapydCountry, // ✅ Всегда GB
-          usage: paymentData.usage || 'ONCE',
-          maxPayments: paymentData.maxPayments,
-          successUrl: finalSuccessUrl,
-          failUrl: finalFailUrl,
-        });
-
-        externalPaymentUrl = rapydResult.payment_url; // Store original Rapyd URL
-
-        // Update payment with gateway information
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl, // Store original Rapyd URL
-            gatewayPaymentId: rapydResult.gateway_payment_id,
-            country: rapydCountry, // Store GB in database
-          },
-        });
-
-        // Update the payment object for response
-        payment.externalPaymentUrl = externalPaymentUrl;
-        payment.gatewayPaymentId = rapydResult.gateway_payment_id;
-      } else if (gatewayName === 'noda') {
-        console.log(`🔄 Creating Noda shop payment with gateway order_id: ${gatewayOrderId} (8digits-8digits format)`);
-
-        const nodaResult = await this.nodaService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId, // Send gateway order ID to Noda
-          name: `Order ID: ${gatewayOrderId}`, // Use gateway order ID
-          paymentDescription: `Order ID: ${gatewayOrderId}`, // Use gateway order ID
-          amount: paymentData.amount,
-          currency: paymentData.currency || 'USD',
-          webhookUrl: `https://tesoft.uk/gateways/noda/webhook`,
-          returnUrl: finalSuccessUrl,
-          expiryDate: paymentData.expiresAt?.toISOString(),
-        });
-
-        externalPaymentUrl = nodaResult.payment_url; // Store original Noda URL
-
-        // Update payment with gateway information
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl, // Store original Noda URL
-            gatewayPaymentId: nodaResult.gateway_payment_id,
-            qrUrl: nodaResult.qr_code_url,
-          },
-        });
-
-        // Update the payment object for response
-        payment.externalPaymentUrl = externalPaymentUrl;
-        payment.gatewayPaymentId = nodaResult.gateway_payment_id;
-
-        console.log(`✅ Noda shop payment created successfully with gateway order_id: ${gatewayOrderId}`);
-      } else if (gatewayName === 'cointopay') {
-        console.log(`🪙 Creating CoinToPay shop payment with gateway order_id: ${gatewayOrderId} (8digits-8digits format)`);
-        console.log(`💰 Amount: ${paymentData.amount} EUR (always EUR for CoinToPay)`);
-
-        const coinToPayResult = await this.coinToPayService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId, // Send gateway order ID to CoinToPay
-          amount: paymentData.amount, // Only amount needed, always in EUR
-        });
-
-        externalPaymentUrl = coinToPayResult.payment_url; // Store original CoinToPay URL
-
-        // Update payment with gateway information
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl, // Store original CoinToPay URL
-            gatewayPaymentId: coinToPayResult.gateway_payment_id,
-            currency: 'EUR', // ✅ Force EUR for CoinToPay
-          },
-        });
+    // ✅ ИСПРАВЛЕНО: Generate gateway-specific URLs
+    const baseUrl = process.env.BASE_URL || 'https://tesoft.uk';
+    const { finalSuccessUrl, finalFailUrl, dbSuccessUrl, dbFailUrl } = generateGatewayUrls(
+      gateway,
+      payment.id,
+      baseUrl,
+      paymentData.redirectUrl, // Use redirectUrl as successUrl
+      undefined // No custom failUrl for shop payments
+    );
 
-        // Update the payment object for response
-        payment.externalPaymentUrl = externalPaymentUrl;
-        payment.gatewayPaymentId = coinToPayResult.gateway_payment_id;
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        successUrl: dbSuccessUrl,
+        failUrl: dbFailUrl,
+      },
+    });
 
-        console.log(`✅ CoinToPay shop payment created successfully with gateway order_id: ${gatewayOrderId}`);
-      } else if (gatewayName.startsWith('klyme_')) {
-        // ✅ ДОБАВЛЕНО: KLYME integration for shop payments
-        const region = getKlymeRegionFromGatewayName(gatewayName);
-        
-        if (!region) {
-          throw new Error(`Invalid KLYME gateway: ${gatewayName}`);
-        }
+    let externalPaymentUrl: string | undefined; // Original gateway URL
 
-        if (region !== 'EU' && region !== 'GB') {
-          throw new Error(`KLYME payment creation is only supported for EU and GB regions, got: ${region}`);
-        }
+    // Process payment through gateway
+    try {
+      const gatewayResult = await initiateGatewayPayment(gateway, {
+        paymentId: payment.id,
+        gatewayOrderId, // Send gateway order ID to the gateway
+        amount: paymentData.amount,
+        currency: paymentData.currency || 'USD',
+        sourceCurrency: paymentData.sourceCurrency,
+        description: `Order ID: ${gatewayOrderId}`, // Use gateway order ID
+        successUrl: finalSuccessUrl,
+        failUrl: finalFailUrl,
+        customerEmail: paymentData.customerEmail,
+        customerName: paymentData.customerName,
+        country: paymentData.country,
+        language: paymentData.language,
+        amountIsEditable: paymentData.amountIsEditable,
+        usage: paymentData.usage,
+        maxPayments: paymentData.maxPayments,
+        customer: paymentData.customer,
+        expiresAt: paymentData.expiresAt?.toISOString(),
+      });
 
-        console.log(`💳 Creating KLYME ${region} shop payment with gateway order_id: ${gatewayOrderId} (8digits-8digits format)`);
-        console.log(`💰 Amount: ${paymentData.amount} ${paymentData.currency || 'USD'}`);
-
-        const klymeResult = await this.klymeService.createPaymentLink({
-          paymentId: payment.id,
-          orderId: gatewayOrderId, // Send gateway order ID to KLYME (will be used as reference)
-          amount: paymentData.amount,
-          currency: paymentData.currency || 'USD',
-          region,
-          redirectUrl: finalSuccessUrl, // KLYME will use this for redirect
-        });
-
-        externalPaymentUrl = klymeResult.payment_url; // Store original KLYME URL
-
-        // Update payment with gateway information
-        await prisma.payment.update({
-          where: { id: payment.id },
-          data: {
-            externalPaymentUrl: externalPaymentUrl, // Store original KLYME URL
-            gatewayPaymentId: klymeResult.gateway_payment_id,
-          },
-        });
+      externalPaymentUrl = gatewayResult.externalPaymentUrl;
 
-        // Update the payment object for response
-        payment.externalPaymentUrl = externalPaymentUrl;
-        payment.gatewayPaymentId = klymeResult.gateway_payment_id;
+      // Update the payment object for response
+      payment.externalPaymentUrl = externalPaymentUrl;
+      payment.gatewayPaymentId = gatewayResult.gatewayPaymentId;
+      payment.currency = gatewayResult.paymentUpdates?.currency || payment.currency;
+      payment.country = gatewayResult.paymentUpdates?.country || payment.country;
 
-        console.log(`✅ KLYME ${region} shop payment created successfully with gateway order_id: ${gatewayOrderId}`);
-      }
+      console.log(`✅ ${gateway.displayName} shop payment created successfully with gateway order_id: ${gatewayOrderId}`);
     } catch (gatewayError) {
       // If gateway fails, update payment status to failed
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: { status: 'FAILED' },
+      await paymentStatusService.transition(payment.id, 'FAILED', {
+        source: 'system',
+        reason: `Gateway error: ${gatewayError instanceof Error ? gatewayError.message : 'Unknown error'}`,
       });
+      payment.status = 'FAILED';
       
       console.error('Gateway error during shop payment creation:', gatewayError);
       // Continue with payment creation even if gateway fails
@@ -820,6 +575,22 @@ export class ShopService {
     };
   }
 
+  // ✅ ДОБАВЛЕНО: Поиск по order_id магазина (последний созданный платеж, если их несколько)
+  async getPaymentByOrderId(shopId: string, orderId: string): Promise<PaymentResponse | null> {
+    const payment = await prisma.payment.findFirst({
+      where: {
+        shopId,
+        orderId,
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (!payment) return null;
+
+    return this.getPaymentById(shopId, payment.id);
+  }
+
   async getPaymentById(shopId: string, paymentId: string): Promise<PaymentResponse | null> {
     const payment = await prisma.payment.findFirst({
       where: {
@@ -856,6 +627,7 @@ export class ShopService {
       expiresAt: payment.expiresAt,
       redirectUrl: paymentUrl, // ✅ Return tesoft.uk/gateway/payment.php?id= URL
       status: payment.status,
+      orderId: payment.orderId, // ✅ ДОБАВЛЕНО: Merchant's order ID
       externalPaymentUrl: payment.externalPaymentUrl, // Original gateway URL (for internal use)
       customerEmail: payment.customerEmail,
       customerName: payment.customerName,
@@ -865,10 +637,18 @@ export class ShopService {
       amountIsEditable: payment.amountIsEditable,
       maxPayments: payment.maxPayments,
       customer: payment.rapydCustomer,
+      refundedAmount: payment.refundedAmount, // ✅ ДОБАВЛЕНО
+      // ✅ ДОБАВЛЕНО: Полученная сумма и расхождение с суммой счета
+      receivedAmount: payment.receivedAmount,
+      receivedCurrency: payment.receivedCurrency,
+      amountMismatch: payment.amountMismatch,
+      mismatchResolution: payment.mismatchResolution,
+      creditedAmount: payment.creditedAmount,
       createdAt: payment.createdAt,
       updatedAt: payment.updatedAt,
       shop: payment.shop,
       webhookLogs: payment.webhookLogs,
+      statusHistory: await paymentStatusService.getStatusHistory(payment.id, true), // ✅ ДОБАВЛЕНО
     };
   }
 
@@ -889,6 +669,32 @@ export class ShopService {
       }
     }
 
+    // ✅ ДОБАВЛЕНО: Статус меняется только через машину состояний (недопустимый переход - ошибка)
+    if (updatePayload.status) {
+      const existingPayment = await prisma.payment.findFirst({
+        where: {
+          id: paymentId,
+          shopId,
+        },
+        select: { id: true },
+      });
+
+      if (!existingPayment) {
+        throw new Error('Payment not found');
+      }
+
+      const transition = await paymentStatusService.transition(paymentId, updatePayload.status, {
+        source: 'shop',
+        actor: shopId,
+      });
+
+      if (!transition.allowed) {
+        throw new Error(`Invalid payment status transition: ${transition.oldStatus} -> ${transition.newStatus}`);
+      }
+
+      delete updatePayload.status;
+    }
+
     const payment = await prisma.payment.update({
       where: {
         id: paymentId,
@@ -994,8 +800,11 @@ export class ShopService {
         status: payout.status,
         txid: payout.txid,
         notes: payout.notes,
+        wallet: payout.wallet, // ✅ ДОБАВЛЕНО
+        walletAddress: payout.walletAddress, // ✅ ДОБАВЛЕНО
+        rejectionReason: payout.rejectionReason, // ✅ ДОБАВЛЕНО
         createdAt: payout.createdAt,
-        paidAt: payout.paidAt!,
+        paidAt: payout.paidAt,
       })),
       pagination: {
         page,
@@ -1019,6 +828,7 @@ export class ShopService {
             username: true,
           },
         },
+        items: PAYOUT_ITEMS_INCLUDE, // ✅ ДОБАВЛЕНО
       },
     });
 
@@ -1031,12 +841,108 @@ export class ShopService {
       method: payout.network, // Map network to method for compatibility
       status: payout.status,
       txid: payout.txid,
+      wallet: payout.wallet, // ✅ ДОБАВЛЕНО
+      walletAddress: payout.walletAddress, // ✅ ДОБАВЛЕНО
+      rejectionReason: payout.rejectionReason, // ✅ ДОБАВЛЕНО
+      items: payout.items.map(formatPayoutItem), // ✅ ДОБАВЛЕНО
       createdAt: payout.createdAt,
       paidAt: payout.paidAt,
       shop: payout.shop,
     };
   }
 
+  // ✅ ДОБАВЛЕНО: Запрос выплаты мерчантом на один из настроенных кошельков.
+  // Сумма (USDT, после комиссии) удерживается из баланса, пока админ не подтвердит или не отклонит запрос.
+  async requestPayout(shopId: string, data: RequestPayoutRequest): Promise<ShopPayoutResponse> {
+    const wallet = PAYOUT_WALLETS[data.wallet];
+
+    const shop = await prisma.shop.findUnique({
+      where: { id: shopId },
+      select: {
+        id: true,
+        usdtPolygonWallet: true,
+        usdtTrcWallet: true,
+        usdtErcWallet: true,
+        usdcPolygonWallet: true,
+      },
+    });
+
+    if (!shop) {
+      throw createError('Shop not found', 404);
+    }
+
+    const walletAddress = shop[wallet.field];
+
+    if (!walletAddress) {
+      throw createError(`Wallet ${data.wallet} is not configured. Add it in the shop wallets first`, 400);
+    }
+
+    // Блокировка строки магазина: параллельные запросы не могут вывести больше доступного баланса
+    const payout = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM shops WHERE id = ${shopId} FOR UPDATE`;
+
+      // ✅ ОБНОВЛЕНО: Лимит - счет AVAILABLE в ledger (комиссия на момент оплаты), прочитанный под блокировкой магазина,
+      // поэтому запрос не может увести AVAILABLE в минус
+      const balance = await ledgerService.getBalance(shopId, tx);
+      const amount = roundAmount(data.amount);
+
+      if (amount > balance.available) {
+        throw createError(`Requested amount exceeds the balance available for payout (${Math.max(balance.available, 0)} USDT)`, 400);
+      }
+
+      // ✅ ДОБАВЛЕНО: Выплата покрывает платежи целиком - сумма округляется вниз до самых старых платежей, которые в нее помещаются
+      const items = await payoutSettlementService.collectPayments(tx, shopId, {
+        maxAmount: amount,
+        respectPayoutDelay: true,
+      });
+
+      if (items.length === 0) {
+        throw createError('Requested amount is less than the oldest unpaid payment, increase the amount', 400);
+      }
+
+      const created = await tx.payout.create({
+        data: {
+          shopId,
+          amount: payoutSettlementService.sumNetAmount(items),
+          network: wallet.network,
+          status: 'PENDING',
+          notes: data.notes,
+          wallet: data.wallet,
+          walletAddress,
+          requestedBy: shopId,
+        },
+      });
+
+      await payoutSettlementService.attach(tx, created.id, items, false);
+      // ✅ ДОБАВЛЕНО: Сумма запроса удерживается на счете RESERVED до решения админа
+      await ledgerService.recordPayoutRequested(tx, created);
+
+      return created;
+    }, { timeout: 15000 });
+
+    console.log(`📤 Payout ${payout.id} requested by shop ${shopId}: ${payout.amount} USDT to ${data.wallet} (${walletAddress})`);
+
+    try {
+      await telegramBotService.sendPayoutNotification(shopId, payout, 'created');
+    } catch (error) {
+      console.error(`Failed to send payout notification for payout ${payout.id}:`, error);
+    }
+
+    return {
+      id: payout.id,
+      amount: payout.amount,
+      network: payout.network,
+      status: payout.status,
+      txid: payout.txid,
+      notes: payout.notes,
+      wallet: payout.wallet,
+      walletAddress: payout.walletAddress,
+      rejectionReason: payout.rejectionReason,
+      createdAt: payout.createdAt,
+      paidAt: payout.paidAt,
+    };
+  }
+
   async getPayoutStatistics(shopId: string, period: string): Promise<PayoutStatistics> {
     const periodDays = this.getPeriodDays(period);
     const startDate = new Date();
@@ -1150,23 +1056,49 @@ export class ShopService {
       throw new Error('Shop not found');
     }
 
-    // Get all paid payments for this shop
+    // ✅ ОБНОВЛЕНО: Полностью возвращенные платежи тоже учитываются (возврат после выплаты мерчанту)
     const allPaidPayments = await prisma.payment.findMany({
       where: {
         shopId,
-        status: 'PAID',
+        status: { in: ['PAID', 'REFUND'] },
       },
       select: {
         id: true,
         amount: true,
         currency: true,
         gateway: true,
+        status: true,
         paidAt: true,
         merchantPaid: true,
+        creditedAmount: true,
+        reservePercent: true,    // ✅ ДОБАВЛЕНО: Rolling reserve
+        reserveReleasedAt: true,
+        reservePaid: true,
         createdAt: true,
       },
     });
 
+    // ✅ ДОБАВЛЕНО: Возвраты (включая ожидающие обработки) уменьшают баланс магазина
+    const refundsByPayment = await prisma.refund.groupBy({
+      by: ['paymentId'],
+      where: {
+        shopId,
+        status: { in: ACTIVE_REFUND_STATUSES },
+      },
+      _sum: { amount: true },
+    });
+    const refundedAmounts = new Map(refundsByPayment.map(refund => [refund.paymentId, refund._sum.amount || 0]));
+
+    // ✅ ДОБАВЛЕНО: Запрошенные выплаты удерживаются из баланса до решения админа (сумма в USDT)
+    const pendingPayouts = await prisma.payout.aggregate({
+      where: {
+        shopId,
+        status: 'PENDING',
+      },
+      _sum: { amount: true },
+    });
+    const pendingPayoutsUSDT = pendingPayouts._sum.amount || 0;
+
     console.log(`💰 Found ${allPaidPayments.length} paid payments for analysis`);
 
     // Calculate current month boundaries
@@ -1177,38 +1109,80 @@ export class ShopService {
     let awaitingPayoutUSDT = 0;
     let thisMonthUSDT = 0;
     let availableBalanceUSDT = 0;
+    let refundedUSDT = 0;
+    let reserveHeldUSDT = 0;
 
     // Process each payment
     for (const payment of allPaidPayments) {
       // Convert amount to USDT
-      const amountUSDT = await currencyService.convertToUSDT(payment.amount, payment.currency);
+      // ✅ ОБНОВЛЕНО: При частичном зачете недоплаты / переплаты учитывается зачтенная сумма
+      const amountUSDT = await currencyService.convertToUSDT(payment.creditedAmount ?? payment.amount, payment.currency);
+      const refundedAmount = refundedAmounts.get(payment.id) || 0;
+      const paymentRefundedUSDT = refundedAmount > 0
+        ? await currencyService.convertToUSDT(refundedAmount, payment.currency)
+        : 0;
+
+      refundedUSDT += paymentRefundedUSDT;
       
       // Get gateway-specific settings
-      const gatewayConfig = this.getGatewaySettings(shop, payment.gateway);
+      const gatewayConfig = getShopGatewaySettings(shop.gatewaySettings, payment.gateway);
       const amountAfterCommission = this.calculateAmountAfterCommission(amountUSDT, gatewayConfig.commission);
+      // ✅ ДОБАВЛЕНО: Rolling reserve выплачивается отдельно от остальной суммы платежа
+      const reserveShare = (payment.reservePercent || 0) / 100;
+      const shares = rollingReserveService.getUnpaidShares(payment);
+      const paidOutShare = (payment.merchantPaid ? 1 - reserveShare : 0) + (payment.reservePaid ? reserveShare : 0);
 
       // Total Paid Out: все выплаченные мерчанту транзакции (merchant_paid = true)
-      if (payment.merchantPaid) {
-        totalPaidOutUSDT += amountAfterCommission;
+      if (paidOutShare > 0) {
+        totalPaidOutUSDT += amountAfterCommission * paidOutShare;
 
         // This Month: выплаты в текущем месяце
         if (payment.paidAt && payment.paidAt >= startOfMonth) {
-          thisMonthUSDT += amountAfterCommission;
+          thisMonthUSDT += amountAfterCommission * paidOutShare;
         }
       }
 
+      if (payment.merchantPaid) {
+        // ✅ ДОБАВЛЕНО: Возврат после выплаты удерживается из следующей выплаты
+        awaitingPayoutUSDT -= this.calculateAmountAfterCommission(paymentRefundedUSDT, gatewayConfig.commission);
+        availableBalanceUSDT -= paymentRefundedUSDT;
+      }
+
       // Awaiting Payout: eligible for payout (не выплачено + прошла задержка)
+      // ✅ ОБНОВЛЕНО: Комиссия считается от суммы за вычетом возвратов
       if (this.isEligibleForPayout(payment, gatewayConfig)) {
-        awaitingPayoutUSDT += amountAfterCommission;
-        availableBalanceUSDT += amountUSDT; // Без вычета комиссии для Available Balance
+        const netAmountUSDT = amountUSDT - paymentRefundedUSDT;
+
+        awaitingPayoutUSDT += this.calculateAmountAfterCommission(netAmountUSDT, gatewayConfig.commission) * shares.main;
+        availableBalanceUSDT += netAmountUSDT * shares.main; // Без вычета комиссии для Available Balance
+      }
+
+      // ✅ ДОБАВЛЕНО: Резерв до даты освобождения удерживается, после - доступен к выплате
+      // (возвраты по уже выплаченному платежу вычтены выше целиком)
+      if (shares.reserve > 0) {
+        const reserveBaseUSDT = payment.merchantPaid ? amountUSDT : amountUSDT - paymentRefundedUSDT;
+        const reserveUSDT = reserveBaseUSDT * shares.reserve;
+
+        if (shares.reserveHeld) {
+          reserveHeldUSDT += this.calculateAmountAfterCommission(reserveUSDT, gatewayConfig.commission);
+        } else if (payment.status === 'PAID' || payment.merchantPaid) {
+          awaitingPayoutUSDT += this.calculateAmountAfterCommission(reserveUSDT, gatewayConfig.commission);
+          availableBalanceUSDT += reserveUSDT;
+        }
       }
     }
 
+    availableBalanceUSDT -= pendingPayoutsUSDT;
+    awaitingPayoutUSDT -= pendingPayoutsUSDT;
+
     const stats: ShopPayoutStats = {
       availableBalance: Math.round(availableBalanceUSDT * 100) / 100,
       totalPaidOut: Math.round(totalPaidOutUSDT * 100) / 100,
       awaitingPayout: Math.round(awaitingPayoutUSDT * 100) / 100,
       thisMonth: Math.round(thisMonthUSDT * 100) / 100,
+      refunded: Math.round(refundedUSDT * 100) / 100, // ✅ ДОБАВЛЕНО
+      pendingPayouts: Math.round(pendingPayoutsUSDT * 100) / 100, // ✅ ДОБАВЛЕНО
+      reserveHeld: Math.round(reserveHeldUSDT * 100) / 100, // ✅ ДОБАВЛЕНО
     };
 
     console.log('✅ Shop payout statistics calculated:');
@@ -1216,6 +1190,9 @@ export class ShopService {
     console.log(`💸 Total Paid Out: ${stats.totalPaidOut} USDT`);
     console.log(`⏳ Awaiting Payout: ${stats.awaitingPayout} USDT`);
     console.log(`📅 This Month: ${stats.thisMonth} USDT`);
+    console.log(`↩️ Refunded: ${stats.refunded} USDT`);
+    console.log(`🔒 Pending payout requests: ${stats.pendingPayouts} USDT`);
+    console.log(`🛡️ Rolling reserve held: ${stats.reserveHeld} USDT`);
 
     return stats;
   }
@@ -1232,6 +1209,79 @@ export class ShopService {
     };
   }
 
+  // ✅ ДОБАВЛЕНО: Повторная отправка webhook по текущему состоянию платежа
+  async resendPaymentWebhook(shopId: string, paymentId: string): Promise<WebhookSendResult> {
+    const payment = await prisma.payment.findFirst({
+      where: {
+        id: paymentId,
+        shopId,
+      },
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    console.log(`🔁 Manual webhook resend requested by shop ${shopId} for payment ${paymentId}`);
+
+    const result = await webhookDeliveryService.sendPaymentWebhook(payment, payment.status, { manual: true });
+
+    if (!result.queued) {
+      throw new Error(`Webhook was not sent: ${result.reason}`);
+    }
+
+    return result;
+  }
+
+  // ✅ ДОБАВЛЕНО: Массовая повторная отправка за период (доставку выполняет фоновая очередь)
+  async resendPaymentWebhooks(shopId: string, resendData: ResendWebhooksRequest): Promise<ResendWebhooksResult> {
+    const { dateFrom, dateTo, status } = resendData;
+    const MAX_BULK_RESEND = 500;
+
+    const where: any = {
+      shopId,
+      createdAt: {
+        gte: new Date(dateFrom),
+        lte: new Date(dateTo),
+      },
+    };
+
+    if (status) {
+      where.status = status.toUpperCase();
+    }
+
+    const total = await prisma.payment.count({ where });
+
+    if (total > MAX_BULK_RESEND) {
+      throw new Error(`Too many payments in range (${total}). Maximum ${MAX_BULK_RESEND} per request, please narrow the date range.`);
+    }
+
+    const payments = await prisma.payment.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    console.log(`🔁 Bulk webhook resend requested by shop ${shopId}: ${payments.length} payments (${dateFrom} - ${dateTo})`);
+
+    const results: WebhookSendResult[] = [];
+
+    for (const payment of payments) {
+      results.push(await webhookDeliveryService.sendPaymentWebhook(payment, payment.status, {
+        manual: true,
+        immediate: false,
+      }));
+    }
+
+    const queued = results.filter(result => result.queued).length;
+
+    return {
+      total: payments.length,
+      queued,
+      skipped: payments.length - queued,
+      results,
+    };
+  }
+
   // Webhook logs
   async getWebhookLogs(shopId: string, filters: WebhookLogFilters): Promise<{
     logs: WebhookLogResponse[];
@@ -1280,7 +1330,7 @@ export class ShopService {
         retryCount: log.retryCount,
         responseBody: log.responseBody,
         createdAt: log.createdAt,
-        payment: log.payment,
+        payment: log.payment || undefined,
       })),
       pagination: {
         page,
@@ -1417,7 +1467,7 @@ export class ShopService {
         const usdtAmount = await currencyService.convertToUSDT(payment.amount, payment.currency);
         
         // Get gateway-specific commission
-        const gatewayConfig = this.getGatewaySettings(shop, payment.gateway);
+        const gatewayConfig = getShopGatewaySettings(shop.gatewaySettings, payment.gateway);
         const amountAfterCommission = this.calculateAmountAfterCommission(usdtAmount, gatewayConfig.commission);
         
         return amountAfterCommission;
@@ -1455,7 +1505,7 @@ export class ShopService {
             const usdtAmount = await currencyService.convertToUSDT(payment.amount, payment.currency);
             
             // Apply gateway-specific commission
-            const gatewayConfig = this.getGatewaySettings(shop, payment.gateway);
+            const gatewayConfig = getShopGatewaySettings(shop.gatewaySettings, payment.gateway);
             const amountAfterCommission = this.calculateAmountAfterCommission(usdtAmount, gatewayConfig.commission);
             
             return amountAfterCommission;
@@ -1564,4 +1614,4 @@ export class ShopService {
     
     return dates;
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,6 @@
 import TelegramBot from 'node-telegram-bot-api';
 import prisma from '../config/database';
-import { getGatewayDisplayNameForTelegram } from '../types/gateway'; // ✅ ДОБАВЛЕНО: Импорт новой функции
+import { gatewayCatalogService } from './gatewayCatalogService'; // ✅ ОБНОВЛЕНО: Названия шлюзов из каталога
 
 export class TelegramBotService {
   private bot: TelegramBot | null = null;
@@ -710,7 +710,7 @@ export class TelegramBotService {
   }
 
   // ✅ ИСПРАВЛЕНО: Method to send payment notification with gateway display name
-  async sendPaymentNotification(shopId: string, payment: any, status: 'created' | 'paid' | 'failed' | 'expired' | 'refund' | 'chargeback' | 'processing'): Promise<void> {
+  async sendPaymentNotification(shopId: string, payment: any, status: 'created' | 'paid' | 'failed' | 'expired' | 'refund' | 'chargeback' | 'processing' | 'underpaid'): Promise<void> {
     const statusEmojis = {
       created: '🆕',
       paid: '✅',
@@ -719,6 +719,7 @@ export class TelegramBotService {
       refund: '🔄',
       chargeback: '⚠️',
       processing: '⚙️',
+      underpaid: '⚠️',
     };
 
     const statusTexts = {
@@ -729,13 +730,14 @@ export class TelegramBotService {
       refund: 'Payment refund',
       chargeback: 'Payment chargeback',
       processing: 'Payment is being processed',
+      underpaid: 'Payment underpaid',
     };
 
     const emoji = statusEmojis[status];
     const statusText = statusTexts[status];
 
     // ✅ ИСПРАВЛЕНО: Получаем displayName шлюза для Telegram
-    const gatewayDisplayName = getGatewayDisplayNameForTelegram(payment.gateway);
+    const gatewayDisplayName = gatewayCatalogService.getTelegramDisplayName(payment.gateway);
 
     console.log(`📱 Telegram notification: gateway "${payment.gateway}" -> display "${gatewayDisplayName}"`);
 
@@ -752,6 +754,11 @@ export class TelegramBotService {
       message += `💸 Penalty amount: *${payment.chargebackAmount} USDT*\n`;
     }
 
+    // ✅ ДОБАВЛЕНО: Полученная сумма при недоплате / переплате
+    if (payment.amountMismatch && payment.receivedAmount) {
+      message += `📥 Received: *${payment.receivedAmount} ${payment.receivedCurrency || ''}* of ${payment.invoiceTotalSum} expected\n`;
+    }
+
     // Additional information for processing status
     if (status === 'processing') {
       message += `⏳ The payment is currently being processed by the gateway.\n`;
@@ -774,7 +781,7 @@ export class TelegramBotService {
     };
 
     const statusTexts = {
-      created: 'New payout created',
+      created: 'Payout requested',
       completed: 'Payout completed',
       rejected: 'Payout rejected',
     };
@@ -782,13 +789,55 @@ export class TelegramBotService {
     const emoji = statusEmojis[status];
     const statusText = statusTexts[status];
 
+    // ✅ ОБНОВЛЕНО: Выплаты хранят сеть в network, адрес кошелька и причину отклонения
     const message = 
       `${emoji} *${statusText}*\n\n` +
       `💸 Amount: *${payout.amount} USD*\n` +
-      `🏦 Method: \`${payout.method}\`\n` +
+      `🏦 Method: \`${payout.method || payout.network}\`\n` +
+      (payout.walletAddress ? `👛 Wallet: \`${payout.walletAddress}\`\n` : '') +
       `🆔 Payout ID: \`${payout.id}\`\n` +
       `📅 Date: ${new Date(payout.createdAt).toLocaleString('en-US')}\n` +
-      (payout.txid ? `🔗 TXID: \`${payout.txid}\`` : '');
+      (payout.txid ? `🔗 TXID: \`${payout.txid}\`\n` : '') +
+      (status === 'rejected' && payout.rejectionReason ? `📝 Reason: ${payout.rejectionReason}\n` : '') +
+      (status === 'created' ? `\n⏳ The amount is held from your balance until the payout is processed.` : '');
+
+    await this.sendShopNotification(shopId, message, { parse_mode: 'Markdown' });
+  }
+
+  // ✅ ДОБАВЛЕНО: Уведомление о споре (chargeback): открыт, скоро дедлайн ответа, решен
+  async sendDisputeNotification(shopId: string, dispute: any, event: 'opened' | 'deadline' | 'won' | 'lost'): Promise<void> {
+    const eventEmojis = {
+      opened: '⚠️',
+      deadline: '⏳',
+      won: '✅',
+      lost: '❌',
+    };
+
+    const eventTexts = {
+      opened: 'New dispute opened',
+      deadline: 'Dispute response deadline is approaching',
+      won: 'Dispute won',
+      lost: 'Dispute lost',
+    };
+
+    let message =
+      `${eventEmojis[event]} *${eventTexts[event]}*\n\n` +
+      `💰 Amount: *${dispute.amount} ${dispute.currency}*\n` +
+      `🏷 Reason code: \`${dispute.reasonCode}\`\n` +
+      `🆔 Payment ID: \`${dispute.paymentId}\`\n` +
+      `🧾 Dispute ID: \`${dispute.id}\`\n`;
+
+    if (event === 'opened' || event === 'deadline') {
+      message += `📅 Respond before: *${new Date(dispute.responseDeadline).toLocaleString('en-US')}*\n`;
+    }
+
+    if (dispute.penalty && (event === 'opened' || event === 'lost')) {
+      message += `💸 Penalty amount: *${dispute.penalty} USDT*\n`;
+    }
+
+    if (event === 'opened' || event === 'deadline') {
+      message += `\n💡 Submit your response and evidence in the dashboard before the deadline.`;
+    }
 
     await this.sendShopNotification(shopId, message, { parse_mode: 'Markdown' });
   }
@@ -889,6 +938,33 @@ export class TelegramBotService {
     }
   }
 
+  // ✅ ДОБАВЛЕНО: Method to send notification when webhook delivery permanently failed
+  async sendWebhookFailureNotification(shopId: string, failureDetails: {
+    paymentId?: string;
+    event: string;
+    endpointName?: string;
+    webhookUrl: string;
+    attempts: number;
+    lastError: string;
+  }): Promise<void> {
+    try {
+      const message =
+        `🚨 *Webhook Delivery Failed*\n\n` +
+        (failureDetails.paymentId ? `🆔 Payment ID: \`${failureDetails.paymentId}\`\n` : '') +
+        `📨 Event: \`${failureDetails.event}\`\n` +
+        (failureDetails.endpointName ? `🧩 Endpoint: ${failureDetails.endpointName}\n` : '') +
+        `🔗 URL: \`${failureDetails.webhookUrl}\`\n` +
+        `🔁 Attempts: ${failureDetails.attempts}\n` +
+        `❌ Last error: \`${failureDetails.lastError}\`\n\n` +
+        `💡 We stopped retrying this webhook. Check your endpoint and update the order manually.`;
+
+      await this.sendShopNotification(shopId, message, { parse_mode: 'Markdown' });
+      console.log(`✅ Webhook failure notification sent for shop ${shopId}: ${failureDetails.event}`);
+    } catch (error) {
+      console.error('Failed to send webhook failure notification:', error);
+    }
+  }
+
   // Method to send custom notification
   async sendCustomNotification(shopId: string, title: string, details: Record<string, any>): Promise<void> {
     let message = `🔔 *${title}*\n\n`;
@@ -0,0 +1,503 @@
+import prisma from '../config/database';
+import { telegramBotService } from './telegramBotService';
+import { loggerService } from './loggerService';
+import { webhookSignatureService } from './webhookSignatureService';
+import { jobService } from './jobService';
+import { getGatewayIdByName } from '../types/gateway';
+import { WebhookSendResult, WebhookDeliveryResult, WebhookEvent, PAYMENT_STATUS_WEBHOOK_EVENTS } from '../types/webhook';
+
+// ✅ ДОБАВЛЕНО: Очередь исходящих webhook магазинам (таблица webhook_deliveries).
+// Первая попытка отправляется сразу, неудачные (не 2xx, таймаут, сетевая ошибка) повторяются
+// с экспоненциальной задержкой: 1м, 2м, 4м, ... (не больше 4ч между попытками) в течение 24 часов.
+// После этого доставка помечается FAILED и магазин получает уведомление в Telegram.
+export class WebhookDeliveryService {
+  private isProcessing = false;
+  private readonly RETRY_CHECK_INTERVAL_MS = 30 * 1000; // 30 секунд
+  private readonly BASE_RETRY_DELAY_MS = 60 * 1000; // 1 минута
+  private readonly MAX_RETRY_DELAY_MS = 4 * 60 * 60 * 1000; // 4 часа
+  private readonly MAX_DELIVERY_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 часа
+  private readonly REQUEST_TIMEOUT_MS = 10 * 1000; // 10 секунд
+  private readonly CLAIM_LEASE_MS = 2 * 60 * 1000; // Защита от повторного захвата доставки
+  private readonly BATCH_SIZE = 50;
+
+  constructor() {
+    // ✅ ОБНОВЛЕНО: Повторы доставок - периодическая задача jobService вместо setInterval
+    jobService.registerRecurring('webhook_delivery.process_due', this.RETRY_CHECK_INTERVAL_MS, async () => {
+      await this.processDueDeliveries();
+    });
+  }
+
+  // Helper method to parse webhook events from JSON
+  private parseWebhookEvents(webhookEvents: any): string[] {
+    if (!webhookEvents) return [];
+
+    if (Array.isArray(webhookEvents)) {
+      return webhookEvents;
+    }
+
+    if (typeof webhookEvents === 'string') {
+      try {
+        const parsed = JSON.parse(webhookEvents);
+        return Array.isArray(parsed) ? parsed : [];
+      } catch {
+        return [];
+      }
+    }
+
+    return [];
+  }
+
+  // ✅ ОБНОВЛЕНО: Каждый статус платежа - отдельное событие (см. WEBHOOK_EVENTS)
+  getPaymentEventName(status: string): WebhookEvent {
+    return PAYMENT_STATUS_WEBHOOK_EVENTS[status.toUpperCase()] || 'payment.pending';
+  }
+
+  // Текущее состояние платежа в формате webhook магазину (gateway передается как ID)
+  buildPaymentPayload(payment: any, status: string, eventName: string): any {
+    const gatewayId = getGatewayIdByName(payment.gateway);
+
+    return {
+      event: eventName,
+      payment: {
+        id: payment.id,
+        order_id: payment.orderId,
+        gateway_order_id: payment.gatewayOrderId,
+        gateway: gatewayId || payment.gateway,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: status.toLowerCase(),
+        customer_email: payment.customerEmail,
+        customer_name: payment.customerName,
+        card_last4: payment.cardLast4,
+        payment_method: payment.paymentMethod,
+        bank_id: payment.bankId,
+        remitter_iban: payment.remitterIban,
+        remitter_name: payment.remitterName,
+        ...(status.toUpperCase() === 'CHARGEBACK' && { chargeback_amount: payment.chargebackAmount }),
+        // ✅ ДОБАВЛЕНО: Фактически полученная сумма и расхождение с суммой счета
+        ...(payment.receivedAmount != null && {
+          received_amount: payment.receivedAmount,
+          received_currency: payment.receivedCurrency,
+          expected_amount: payment.invoiceTotalSum,
+        }),
+        ...(payment.amountMismatch && { amount_mismatch: payment.amountMismatch.toLowerCase() }),
+        ...(payment.mismatchResolution && { mismatch_resolution: payment.mismatchResolution.toLowerCase() }),
+        ...(payment.creditedAmount != null && { credited_amount: payment.creditedAmount }),
+        created_at: payment.createdAt,
+        updated_at: payment.updatedAt,
+      },
+    };
+  }
+
+  // Общая точка отправки webhook магазину: рассылает событие на основной webhookUrl из настроек
+  // и на все активные webhook endpoints, подписанные на это событие
+  async sendShopEvent(
+    shopId: string,
+    event: WebhookEvent,
+    payload: any,
+    options: { paymentId?: string; settings?: any; manual?: boolean; immediate?: boolean } = {}
+  ): Promise<WebhookSendResult> {
+    const { paymentId, manual, immediate } = options;
+    const [settings, endpoints] = await Promise.all([
+      options.settings !== undefined
+        ? options.settings
+        : prisma.shopSettings.findUnique({
+            where: { shopId },
+            select: { webhookUrl: true, webhookEvents: true },
+          }),
+      prisma.webhookEndpoint.findMany({
+        where: { shopId, isActive: true },
+        select: { id: true, url: true, events: true },
+      }),
+    ]);
+
+    const targets: { endpointId?: string; url: string }[] = [];
+
+    if (settings?.webhookUrl && this.parseWebhookEvents(settings.webhookEvents).includes(event)) {
+      targets.push({ url: settings.webhookUrl });
+    }
+
+    for (const endpoint of endpoints) {
+      if (this.parseWebhookEvents(endpoint.events).includes(event)) {
+        targets.push({ endpointId: endpoint.id, url: endpoint.url });
+      }
+    }
+
+    if (targets.length === 0) {
+      const reason = !settings?.webhookUrl && endpoints.length === 0
+        ? 'No webhook URL configured'
+        : `Webhook event ${event} is not enabled`;
+
+      console.log(`${reason} for shop ${shopId}`);
+      return { paymentId, queued: false, event, reason };
+    }
+
+    const deliveries = [];
+    for (const target of targets) {
+      deliveries.push(await this.enqueue(
+        { shopId, paymentId, endpointId: target.endpointId },
+        event,
+        target.url,
+        payload,
+        { manual, immediate }
+      ));
+    }
+
+    return {
+      paymentId,
+      queued: true,
+      event,
+      deliveries,
+    };
+  }
+
+  async sendPaymentWebhook(
+    payment: any,
+    status: string,
+    options: { manual?: boolean; immediate?: boolean } = {}
+  ): Promise<WebhookSendResult> {
+    const eventName = this.getPaymentEventName(status);
+
+    return this.sendShopEvent(payment.shopId, eventName, this.buildPaymentPayload(payment, status, eventName), {
+      ...options,
+      paymentId: payment.id,
+      settings: payment.shop?.settings,
+    });
+  }
+
+  // ✅ ДОБАВЛЕНО: payment.overpaid (платеж оплачен, получено больше суммы счета)
+  async sendOverpaidWebhook(payment: any): Promise<WebhookSendResult> {
+    return this.sendShopEvent(payment.shopId, 'payment.overpaid', this.buildPaymentPayload(payment, payment.status, 'payment.overpaid'), {
+      paymentId: payment.id,
+      settings: payment.shop?.settings,
+    });
+  }
+
+  // ✅ ДОБАВЛЕНО: payout.completed
+  async sendPayoutWebhook(payout: any): Promise<WebhookSendResult> {
+    return this.sendShopEvent(payout.shopId, 'payout.completed', {
+      event: 'payout.completed',
+      payout: {
+        id: payout.id,
+        amount: payout.amount,
+        network: payout.network,
+        status: payout.status.toLowerCase(),
+        txid: payout.txid,
+        created_at: payout.createdAt,
+        paid_at: payout.paidAt,
+      },
+    });
+  }
+
+  // ✅ ДОБАВЛЕНО: refund.completed / refund.failed (payment.refunded отправляется при полном возврате)
+  async sendRefundWebhook(refund: any, payment: any, event: 'refund.completed' | 'refund.failed'): Promise<WebhookSendResult> {
+    return this.sendShopEvent(refund.shopId, event, {
+      event,
+      refund: {
+        id: refund.id,
+        payment_id: payment.id,
+        order_id: payment.orderId,
+        amount: refund.amount,
+        currency: refund.currency,
+        reason: refund.reason,
+        status: refund.status.toLowerCase(),
+        gateway_refund_id: refund.gatewayRefundId,
+        failure_reason: refund.failureReason,
+        payment_refunded_amount: payment.refundedAmount,
+        created_at: refund.createdAt,
+        processed_at: refund.processedAt,
+      },
+    }, { paymentId: payment.id, settings: payment.shop?.settings });
+  }
+
+  // ✅ ДОБАВЛЕНО: payment_link.completed (ссылка достигла maxPayments)
+  async sendPaymentLinkCompletedWebhook(paymentLink: any, paymentId: string): Promise<WebhookSendResult> {
+    return this.sendShopEvent(paymentLink.shopId, 'payment_link.completed', {
+      event: 'payment_link.completed',
+      payment_link: {
+        id: paymentLink.id,
+        amount: paymentLink.amount,
+        currency: paymentLink.currency,
+        gateway: getGatewayIdByName(paymentLink.gateway) || paymentLink.gateway,
+        max_payments: paymentLink.maxPayments,
+        current_payments: paymentLink.currentPayments,
+        status: paymentLink.status.toLowerCase(),
+        last_payment_id: paymentId,
+        created_at: paymentLink.createdAt,
+        updated_at: paymentLink.updatedAt,
+      },
+    }, { paymentId });
+  }
+
+  // Ставит webhook в очередь и (по умолчанию) сразу делает первую попытку
+  async enqueue(
+    target: { shopId: string; paymentId?: string; endpointId?: string },
+    event: string,
+    url: string,
+    payload: any,
+    options: { manual?: boolean; immediate?: boolean } = {}
+  ): Promise<WebhookDeliveryResult> {
+    const { manual = false, immediate = true } = options;
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        shopId: target.shopId,
+        paymentId: target.paymentId,
+        endpointId: target.endpointId,
+        event,
+        url,
+        payload: JSON.stringify(payload),
+        manual,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    console.log(`📬 Webhook delivery ${delivery.id} queued: ${event} for shop ${target.shopId}${target.paymentId ? `, payment ${target.paymentId}` : ''}${manual ? ' (manual)' : ''}`);
+
+    if (immediate) {
+      await this.processDelivery(delivery.id);
+    }
+
+    const processed = await prisma.webhookDelivery.findUnique({
+      where: { id: delivery.id },
+      select: { status: true },
+    });
+
+    return {
+      id: delivery.id,
+      endpointId: delivery.endpointId,
+      url: delivery.url,
+      status: processed?.status || delivery.status,
+    };
+  }
+
+  async processDueDeliveries(): Promise<number> {
+    if (this.isProcessing) {
+      return 0;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const dueDeliveries = await prisma.webhookDelivery.findMany({
+        where: {
+          status: 'PENDING',
+          nextAttemptAt: { lte: new Date() },
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: this.BATCH_SIZE,
+        select: { id: true },
+      });
+
+      if (dueDeliveries.length > 0) {
+        console.log(`📬 Processing ${dueDeliveries.length} due webhook deliveries`);
+      }
+
+      for (const delivery of dueDeliveries) {
+        await this.processDelivery(delivery.id);
+      }
+
+      return dueDeliveries.length;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private getRetryDelay(attempts: number): number {
+    return Math.min(this.BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), this.MAX_RETRY_DELAY_MS);
+  }
+
+  private async processDelivery(deliveryId: string): Promise<void> {
+    const now = new Date();
+
+    // Захватываем доставку атомарно, чтобы одну попытку не отправили дважды
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: 'PENDING',
+        nextAttemptAt: { lte: now },
+      },
+      data: {
+        nextAttemptAt: new Date(now.getTime() + this.CLAIM_LEASE_MS),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: {
+        shop: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        endpoint: {
+          select: {
+            id: true,
+            name: true,
+            secret: true,
+            isActive: true,
+          },
+        },
+      },
+    });
+
+    if (!delivery) {
+      return;
+    }
+
+    // Endpoint отключили, пока доставка ждала повтора
+    if (delivery.endpoint && !delivery.endpoint.isActive) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: 'FAILED',
+          lastError: 'Webhook endpoint is disabled',
+          nextAttemptAt: null,
+          failedAt: new Date(),
+        },
+      });
+
+      console.log(`⏹️ Webhook delivery ${deliveryId} cancelled: endpoint ${delivery.endpoint.id} is disabled`);
+      return;
+    }
+
+    const attempt = delivery.attempts + 1;
+    const payload = JSON.parse(delivery.payload);
+    const startTime = Date.now();
+
+    let statusCode = 0;
+    let responseBody: string;
+    let error: string | null = null;
+
+    try {
+      // Подписываем заново при каждой попытке, чтобы timestamp был актуальным.
+      // Endpoint подписывается своим секретом, основной webhookUrl - секретом webhook магазина (whsec_...)
+      const secret = delivery.endpoint?.secret || await webhookSignatureService.getShopWebhookSecret(delivery.shopId);
+      const signedRequest = webhookSignatureService.signPayload(secret, payload);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(delivery.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'TesSoft Payment System/1.0',
+            ...signedRequest.headers,
+          },
+          body: signedRequest.body,
+          signal: controller.signal,
+        });
+
+        statusCode = response.status;
+        responseBody = response.ok ? 'Success' : await response.text();
+
+        if (!response.ok) {
+          error = `HTTP ${response.status}`;
+        }
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      loggerService.logShopWebhookSent(
+        delivery.shopId,
+        delivery.url,
+        delivery.event,
+        statusCode,
+        Date.now() - startTime,
+        payload
+      );
+    } catch (fetchError) {
+      error = fetchError instanceof Error && fetchError.name === 'AbortError'
+        ? `Timeout after ${this.REQUEST_TIMEOUT_MS}ms`
+        : fetchError instanceof Error ? fetchError.message : 'Unknown error';
+      responseBody = JSON.stringify({ error, responseTime: Date.now() - startTime });
+
+      loggerService.logShopWebhookError(delivery.shopId, delivery.url, delivery.event, fetchError, { deliveryId, attempt });
+    }
+
+    // Каждая попытка пишется в webhook_logs, retryCount = номер повтора (0 для первой попытки)
+    try {
+      await prisma.webhookLog.create({
+        data: {
+          paymentId: delivery.paymentId,
+          shopId: delivery.shopId,
+          event: error && statusCode === 0
+            ? 'shop_webhook_error'
+            : `shop_webhook_${delivery.manual ? 'manual_' : ''}${delivery.event}`,
+          statusCode,
+          retryCount: attempt - 1,
+          responseBody,
+        },
+      });
+    } catch (logError) {
+      console.error('Failed to log shop webhook attempt:', logError);
+    }
+
+    if (!error) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: 'DELIVERED',
+          attempts: attempt,
+          lastStatusCode: statusCode,
+          lastError: null,
+          nextAttemptAt: null,
+          deliveredAt: new Date(),
+        },
+      });
+
+      console.log(`✅ Shop webhook ${delivery.event} delivered to ${delivery.url} (attempt ${attempt}, status ${statusCode})`);
+      return;
+    }
+
+    const nextAttemptAt = new Date(Date.now() + this.getRetryDelay(attempt));
+    const deadline = delivery.createdAt.getTime() + this.MAX_DELIVERY_WINDOW_MS;
+
+    if (nextAttemptAt.getTime() > deadline) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: 'FAILED',
+          attempts: attempt,
+          lastStatusCode: statusCode,
+          lastError: error,
+          nextAttemptAt: null,
+          failedAt: new Date(),
+        },
+      });
+
+      console.error(`❌ Shop webhook ${delivery.event} (${delivery.id}) permanently failed after ${attempt} attempts: ${error}`);
+
+      await telegramBotService.sendWebhookFailureNotification(delivery.shopId, {
+        paymentId: delivery.paymentId || undefined,
+        event: delivery.event,
+        endpointName: delivery.endpoint?.name,
+        webhookUrl: delivery.url,
+        attempts: attempt,
+        lastError: error,
+      });
+      return;
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attempts: attempt,
+        lastStatusCode: statusCode,
+        lastError: error,
+        nextAttemptAt,
+      },
+    });
+
+    console.log(`🔁 Shop webhook ${delivery.event} (${delivery.id}) failed (attempt ${attempt}: ${error}), next attempt at ${nextAttemptAt.toISOString()}`);
+  }
+}
+
+export const webhookDeliveryService = new WebhookDeliveryService();
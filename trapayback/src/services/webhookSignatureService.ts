@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { GatewayWebhookContext } from '../types/gateway';
+
+// ✅ ДОБАВЛЕНО: Подпись исходящих webhook магазинам.
+// Схема: заголовок X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+// где HMAC считается секретом webhook магазина (whsec_..., у endpoint - свой) от строки `${t}.${rawBody}`.
+// ✅ ОБНОВЛЕНО: Секретный ключ API (sk_...) для подписи не используется и через API не отдается.
+// Мерчант должен пересчитать подпись по сырому телу запроса и отклонить запрос,
+// если timestamp отличается от текущего времени больше чем на tolerance (защита от replay).
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_SIGNATURE_VERSION = 'v1';
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300; // 5 минут
+
+// ✅ ДОБАВЛЕНО: Входящие callback шлюзов через прокси tesoft.uk подписываются тем же способом
+// общим секретом GATEWAY_PROXY_WEBHOOK_SECRET (заголовок X-Proxy-Signature: t=...,v1=...)
+export const GATEWAY_PROXY_SIGNATURE_HEADER = 'X-Proxy-Signature';
+
+export interface SignedWebhookRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+export class WebhookSignatureService {
+  generateSecret(): string {
+    return 'whsec_' + crypto.randomBytes(32).toString('hex');
+  }
+
+  // Секрет подписи основного webhookUrl магазина. У магазинов без секрета он создается при первом обращении
+  async getShopWebhookSecret(shopId: string): Promise<string> {
+    const settings = await prisma.shopSettings.upsert({
+      where: { shopId },
+      create: { shopId, webhookSecret: this.generateSecret() },
+      update: {},
+      select: { webhookSecret: true },
+    });
+
+    if (settings.webhookSecret) {
+      return settings.webhookSecret;
+    }
+
+    // Условная запись: при параллельном обращении секрет создается один раз
+    await prisma.shopSettings.updateMany({
+      where: { shopId, webhookSecret: null },
+      data: { webhookSecret: this.generateSecret() },
+    });
+
+    const created = await prisma.shopSettings.findUniqueOrThrow({
+      where: { shopId },
+      select: { webhookSecret: true },
+    });
+
+    return created.webhookSecret as string;
+  }
+
+  async rotateShopWebhookSecret(shopId: string): Promise<string> {
+    const webhookSecret = this.generateSecret();
+
+    await prisma.shopSettings.upsert({
+      where: { shopId },
+      create: { shopId, webhookSecret },
+      update: { webhookSecret },
+    });
+
+    console.log(`🔑 Webhook secret rotated for shop ${shopId}`);
+
+    return webhookSecret;
+  }
+
+  computeSignature(secret: string, timestamp: number, body: string): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`, 'utf8')
+      .digest('hex');
+  }
+
+  // Возвращает тело и заголовки: тело нужно отправлять ровно в этом виде, иначе подпись не сойдется
+  signPayload(secret: string, payload: any, timestamp: number = Math.floor(Date.now() / 1000)): SignedWebhookRequest {
+    const body = JSON.stringify(payload);
+    const signature = this.computeSignature(secret, timestamp, body);
+
+    return {
+      body,
+      headers: {
+        [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},${WEBHOOK_SIGNATURE_VERSION}=${signature}`,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+      },
+    };
+  }
+
+  parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } | null {
+    let timestamp: number | null = null;
+    const signatures: string[] = [];
+
+    for (const part of header.split(',')) {
+      const [key, value] = part.trim().split('=');
+      if (!key || !value) continue;
+
+      if (key === 't') {
+        timestamp = parseInt(value, 10);
+      } else if (key === WEBHOOK_SIGNATURE_VERSION) {
+        signatures.push(value);
+      }
+    }
+
+    if (timestamp === null || isNaN(timestamp) || signatures.length === 0) {
+      return null;
+    }
+
+    return { timestamp, signatures };
+  }
+
+  // Эталонная проверка (то же самое должен делать мерчант на своей стороне)
+  verifySignature(
+    secret: string,
+    body: string,
+    signatureHeader: string,
+    toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
+  ): boolean {
+    const parsed = this.parseSignatureHeader(signatureHeader);
+    if (!parsed) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (Math.abs(now - parsed.timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.computeSignature(secret, parsed.timestamp, body), 'hex');
+
+    return parsed.signatures.some(signature => {
+      const received = Buffer.from(signature, 'hex');
+      return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+    });
+  }
+
+  // Проверка подписи callback, пересланного прокси (Rapyd, Noda, KLYME, CoinToPay)
+  verifyGatewayProxySignature(provider: string, context: GatewayWebhookContext): boolean {
+    const secret = process.env.GATEWAY_PROXY_WEBHOOK_SECRET || '';
+
+    if (!secret) {
+      console.error(`❌ Cannot verify ${provider} webhook: GATEWAY_PROXY_WEBHOOK_SECRET is not configured`);
+      return false;
+    }
+
+    const header = context.headers[GATEWAY_PROXY_SIGNATURE_HEADER.toLowerCase()];
+    const signatureHeader = Array.isArray(header) ? header[0] : header;
+
+    if (!signatureHeader) {
+      console.warn(`⚠️ ${provider} webhook has no ${GATEWAY_PROXY_SIGNATURE_HEADER} header`);
+      return false;
+    }
+
+    // Подпись считается от сырого тела; JSON.stringify - запасной вариант, если тело не сохранено
+    const body = context.rawBody ?? JSON.stringify(context.body);
+
+    return this.verifySignature(secret, body, signatureHeader);
+  }
+}
+
+export const webhookSignatureService = new WebhookSignatureService();
@@ -1,8 +1,11 @@
+import { PayoutItemResponse } from './payout';
+
 export interface PayoutStats {
   totalPayout: number;      // Сумма всех оплаченных мерчанту транзакций, с вычетом комиссии, в USDT
   awaitingPayout: number;   // Сумма всех ожидающих выплат (eligible for payout), с вычетом комиссии, в USDT
   thisMonth: number;        // Сумма всех выплат в текущем месяце, с учетом комиссии, в USDT
   availableBalance: number; // Сумма всех ожидающих выплат без вычета комиссии, в USDT
+  reserveHeld: number;      // ✅ ДОБАВЛЕНО: Rolling reserve, еще не освобожденный, с вычетом комиссии, в USDT
 }
 
 export interface PaymentForPayout {
@@ -36,6 +39,8 @@ export interface MerchantAwaitingPayout {
   // Payout amounts
   totalAmountUSDT: number;           // Общая сумма без комиссии в USDT
   totalAmountAfterCommissionUSDT: number; // Сумма с вычетом комиссии в USDT
+  pendingPayoutsUSDT: number;        // ✅ ДОБАВЛЕНО: Запрошенные мерчантом выплаты, ожидающие подтверждения
+  reserveHeldUSDT: number;           // ✅ ДОБАВЛЕНО: Rolling reserve до освобождения (с вычетом комиссии, не входит в суммы выше)
   // Payment details
   paymentsCount: number;             // Количество платежей ожидающих выплату
   oldestPaymentDate: Date;           // Дата самого старого платежа
@@ -59,9 +64,10 @@ export interface MerchantsAwaitingPayoutFilters {
 // New interfaces for payout management
 export interface CreatePayoutRequest {
   shopId: string;
-  amount: number;
+  amount?: number;       // ✅ ОБНОВЛЕНО: По умолчанию - сумма к выплате по paymentIds
   network: string;
   notes?: string;
+  paymentIds?: string[]; // ✅ ДОБАВЛЕНО: Платежи, которые покрывает выплата
 }
 
 export interface PayoutResponse {
@@ -74,14 +80,32 @@ export interface PayoutResponse {
   status: string;
   txid?: string | null;
   notes?: string | null;
+  wallet?: string | null;           // ✅ ДОБАВЛЕНО
+  walletAddress?: string | null;    // ✅ ДОБАВЛЕНО
+  requestedBy?: string | null;      // ✅ ДОБАВЛЕНО
+  rejectionReason?: string | null;  // ✅ ДОБАВЛЕНО
+  processedBy?: string | null;      // ✅ ДОБАВЛЕНО
+  processedAt?: Date | null;        // ✅ ДОБАВЛЕНО
+  items?: PayoutItemResponse[];     // ✅ ДОБАВЛЕНО
   createdAt: Date;
-  paidAt: Date;
+  paidAt: Date | null;              // ✅ ОБНОВЛЕНО: null while the request is pending
+}
+
+// ✅ ДОБАВЛЕНО: Решение по запросу выплаты
+export interface ApprovePayoutRequest {
+  txid: string;
+  notes?: string;
+}
+
+export interface RejectPayoutRequest {
+  reason: string;
 }
 
 export interface PayoutFilters {
   page: number;
   limit: number;
   shopId?: string;
+  status?: string;   // ✅ ДОБАВЛЕНО
   network?: string;
   dateFrom?: string;
   dateTo?: string;
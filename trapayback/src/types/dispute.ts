@@ -0,0 +1,88 @@
+// ✅ ДОБАВЛЕНО: Споры (chargeback) по платежам (таблицы disputes, dispute_evidence)
+export type DisputeStatusValue = 'OPEN' | 'WON' | 'LOST';
+
+export interface CreateDisputeRequest {
+  paymentId: string;
+  reasonCode: string;
+  reason?: string;
+  amount?: number;          // Не указана - вся сумма платежа
+  penalty?: number;         // USDT
+  responseDeadline: string; // ISO date string
+}
+
+export interface UpdateDisputeRequest {
+  reasonCode?: string;
+  reason?: string;
+  amount?: number;
+  penalty?: number;
+  responseDeadline?: string;
+}
+
+export interface ResolveDisputeRequest {
+  outcome: 'WON' | 'LOST';
+  notes?: string;
+  penalty?: number; // Итоговый штраф при проигрыше (по умолчанию - penalty спора)
+}
+
+export interface RespondDisputeRequest {
+  response: string;
+}
+
+// Файл из multer (memoryStorage)
+export interface DisputeEvidenceFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface DisputeEvidenceResponse {
+  id: string;
+  uploadedBy: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  description: string | null;
+  createdAt: Date;
+}
+
+export interface DisputeResponse {
+  id: string;
+  paymentId: string;
+  shopId: string;
+  reasonCode: string;
+  reason: string | null;
+  amount: number;
+  currency: string;
+  penalty: number;
+  status: DisputeStatusValue;
+  responseDeadline: Date;
+  isOverdue: boolean;
+  merchantResponse: string | null;
+  respondedAt: Date | null;
+  resolutionNotes: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  evidence: DisputeEvidenceResponse[];
+  payment?: {
+    id: string;
+    gateway: string;
+    amount: number;
+    currency: string;
+    status: string;
+    orderId: string | null;
+  };
+  shop?: {
+    name: string;
+    username: string;
+  };
+}
+
+export interface DisputeFilters {
+  page: number;
+  limit: number;
+  status?: string;
+  shopId?: string;
+  paymentId?: string;
+}
@@ -24,6 +24,7 @@ export interface GatewayInfo {
   id: string;
   name: string;
   displayName: string;
+  telegramDisplayName?: string;
   region?: string;
   isActive: boolean;
   description?: string;
@@ -214,4 +215,120 @@ export function getGatewayDisplayNameForTelegram(gatewayName: string): string {
   
   // Fallback: возвращаем ID или имя шлюза
   return gatewayId || gatewayName.toUpperCase();
-}
\ No newline at end of file
+}
+
+// ✅ ДОБАВЛЕНО: Запросы админки для каталога шлюзов (таблица gateways)
+export interface CreateGatewayRequest {
+  id: string;
+  displayName: string;
+  telegramDisplayName?: string;
+  description?: string;
+  region?: string;
+  features?: string[];
+  color?: string;
+  fee?: string;
+  payout?: string;
+  isActive?: boolean;
+}
+
+export type UpdateGatewayRequest = Partial<Omit<CreateGatewayRequest, 'id'>>;
+
+// ✅ ДОБАВЛЕНО: Единый контракт платежного шлюза
+export type GatewayPaymentStatus = 'PENDING' | 'PROCESSING' | 'PAID' | 'EXPIRED' | 'FAILED' | 'UNDERPAID'; // UNDERPAID - шлюз сообщил о несовпадении суммы
+
+export interface GatewayCapabilities {
+  fixedCurrency?: string;          // Шлюз принимает только одну валюту (CoinToPay -> EUR)
+  supportedCurrencies?: string[];  // Ограничение валют (KLYME по регионам)
+  fixedCountry?: string;           // Шлюз всегда работает с одной страной (Rapyd -> GB)
+  requiresSourceCurrency: boolean; // Для payment links нужна криптовалюта оплаты (Plisio)
+  statusPolling: boolean;          // Статус нужно опрашивать, а не ждать webhook (CoinToPay)
+  pendingOnReturn: boolean;        // После возврата клиента платеж еще не подтвержден
+  hostedCheckout: boolean;         // Страница оплаты на app.trapay.uk вместо tesoft.uk
+  paymentTtlHours: number;         // ✅ ДОБАВЛЕНО: Срок жизни PENDING платежа без expires_at (после него - EXPIRED)
+}
+
+// Поля платежа, которые шлюз может заполнить при создании или из webhook
+export interface GatewayPaymentUpdates {
+  invoiceTotalSum?: number;
+  qrCode?: string;
+  qrUrl?: string;
+  country?: string;
+  currency?: string;
+  cardLast4?: string;
+  paymentMethod?: string;
+  bankId?: string;
+  remitterIban?: string;
+  remitterName?: string;
+  // ✅ ДОБАВЛЕНО: Фактически полученная сумма - сверяется с invoiceTotalSum (недоплата / переплата)
+  receivedAmount?: number;
+  receivedCurrency?: string;
+}
+
+export interface GatewayCreatePaymentParams {
+  paymentId: string;
+  gatewayOrderId: string;
+  amount: number;
+  currency: string;
+  sourceCurrency?: string;
+  priceInFiat?: boolean; // amount указан в currency и конвертируется шлюзом в sourceCurrency
+  description: string;
+  successUrl: string;
+  failUrl: string;
+  customerEmail?: string;
+  customerName?: string;
+  country?: string;
+  language?: string;
+  amountIsEditable?: boolean;
+  usage?: 'ONCE' | 'REUSABLE';
+  maxPayments?: number;
+  customer?: string;
+  expiresAt?: string; // ISO date string
+}
+
+export interface GatewayCreatePaymentResult {
+  gatewayPaymentId: string;
+  externalPaymentUrl: string;
+  paymentUpdates?: GatewayPaymentUpdates;
+}
+
+export interface GatewayVerifyResult {
+  status: GatewayPaymentStatus;
+  amount?: number;
+  currency?: string;
+}
+
+export interface GatewayWebhookResult {
+  gatewayPaymentId?: string; // ID платежа на стороне шлюза
+  reference?: string;        // Наш payment ID, gateway order ID или merchant order ID
+  status: GatewayPaymentStatus;
+  event: string;             // Исходный статус/событие шлюза для webhook логов
+  amount?: number;
+  currency?: string;
+  paymentUpdates?: GatewayPaymentUpdates;
+  details?: Record<string, any>; // Разобранные поля для отладки в webhook логах
+}
+
+// ✅ ДОБАВЛЕНО: Данные входящего webhook для проверки подписи шлюза
+export interface GatewayWebhookContext {
+  body: any;
+  rawBody?: string;
+  headers: Record<string, string | string[] | undefined>;
+  url: string; // originalUrl запроса
+  ip?: string; // ✅ ДОБАВЛЕНО: IP отправителя (для inbox)
+}
+
+export interface PaymentGateway {
+  readonly id: string;          // ID из GATEWAY_ID_MAP
+  readonly name: string;        // Имя шлюза в БД (plisio, klyme_eu, ...)
+  readonly provider: string;    // Провайдер для входящих webhook (plisio, klyme, ...)
+  readonly displayName: string; // Имя в shop.paymentGateways
+  readonly capabilities: GatewayCapabilities;
+
+  createPayment(params: GatewayCreatePaymentParams): Promise<GatewayCreatePaymentResult>;
+  verifyPayment(gatewayPaymentId: string): Promise<GatewayVerifyResult>;
+  parseWebhook(webhookData: any): GatewayWebhookResult;
+  // Проверка подписи входящего webhook (false - webhook отклоняется)
+  verifyWebhookSignature?(context: GatewayWebhookContext): boolean;
+  // Необязательный хук для шлюз-специфичного логирования статусов из webhook
+  onWebhookStatus?(paymentId: string, gatewayPaymentId: string, oldStatus: string, newStatus: string, webhookData: any): void;
+}
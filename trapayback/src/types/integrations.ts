@@ -3,9 +3,60 @@ export interface IntegrationsResponse {
     url?: string | null;
     events: string[];
   };
+  endpoints: WebhookEndpointResponse[]; // ✅ ДОБАВЛЕНО
 }
 
 export interface UpdateWebhookSettingsRequest {
   webhookUrl?: string;
   webhookEvents?: string[];
-}
\ No newline at end of file
+}
+// ✅ ДОБАВЛЕНО: Дополнительные webhook endpoints магазина
+export interface WebhookEndpointResponse {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  secret: string;
+  description?: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookEndpointRequest {
+  name: string;
+  url: string;
+  events: string[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateWebhookEndpointRequest {
+  name?: string;
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  paymentId?: string | null;
+  event: string;
+  url: string;
+  status: string;
+  manual: boolean;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastStatusCode?: number | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  failedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface WebhookDeliveryFilters {
+  page: number;
+  limit: number;
+  status?: string;
+}
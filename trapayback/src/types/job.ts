@@ -0,0 +1,63 @@
+// ✅ ДОБАВЛЕНО: Фоновые задачи (таблица scheduled_jobs)
+export type ScheduledJobStatusValue = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface ScheduleJobOptions {
+  uniqueKey?: string;   // Повторное планирование с тем же ключом обновляет существующую задачу
+  maxAttempts?: number;
+}
+
+// Результат обработчика: перепланировать ту же задачу (например, следующая проверка платежа)
+export interface JobHandlerResult {
+  rescheduleAt?: Date;
+  payload?: any;
+}
+
+export type JobHandler = (payload: any, job: { id: string; type: string; attempts: number }) => Promise<JobHandlerResult | void>;
+
+export interface ScheduledJobResponse {
+  id: string;
+  type: string;
+  uniqueKey: string | null;
+  payload: any;
+  status: ScheduledJobStatusValue;
+  runAt: Date;
+  intervalMs: number | null;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  lockedAt: Date | null;
+  lastError: string | null;
+  lastRunAt: Date | null;
+  completedAt: Date | null;
+  pendingRunAt: Date | null; // ✅ ДОБАВЛЕНО: Перепланирована во время выполнения
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ScheduledJobFilters {
+  page: number;
+  limit: number;
+  type?: string;
+  status?: string;
+  uniqueKey?: string;
+}
+
+export interface JobWorkerStats {
+  workerId: string;
+  isRunning: boolean;
+  runningJobs: number;
+  registeredTypes: string[];
+  countsByStatus: Record<string, number>;
+  countsByType: Array<{ type: string; status: string; count: number }>;
+  overdueJobs: number;
+}
+
+// ✅ ДОБАВЛЕНО: Аренда периодической задачи (таблица service_leases)
+export interface ServiceLeaseStatus {
+  name: string;
+  owner: string | null;
+  heldByThisInstance: boolean;
+  isExpired: boolean;
+  acquiredAt: Date | null;
+  expiresAt: Date | null;
+}
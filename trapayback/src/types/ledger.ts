@@ -0,0 +1,100 @@
+import { Prisma } from '@prisma/client';
+
+// ✅ ДОБАВЛЕНО: Баланс магазина по двойной записи (таблицы ledger_accounts, ledger_transactions, ledger_entries)
+export const LEDGER_ACCOUNT_TYPES = ['PENDING', 'AVAILABLE', 'RESERVED', 'PAID_OUT', 'FEES', 'PENALTIES', 'ROLLING_RESERVE', 'CLEARING'] as const;
+export type LedgerAccountTypeValue = typeof LEDGER_ACCOUNT_TYPES[number];
+
+export const LEDGER_TRANSACTION_TYPES = [
+  'PAYMENT',
+  'PAYMENT_RELEASE',
+  'RESERVE_RELEASE',
+  'PAYMENT_ADJUSTMENT',
+  'PAYMENT_REVERSAL',
+  'REFUND',
+  'REFUND_REVERSAL',
+  'CHARGEBACK_PENALTY',
+  'PAYOUT_REQUEST',
+  'PAYOUT',
+  'PAYOUT_REJECTION',
+  'PAYOUT_REVERSAL',
+  'ADJUSTMENT',
+] as const;
+export type LedgerTransactionTypeValue = typeof LEDGER_TRANSACTION_TYPES[number];
+
+// Счета, на которые админ может сделать ручную корректировку
+export const LEDGER_ADJUSTABLE_ACCOUNTS: LedgerAccountTypeValue[] = ['PENDING', 'AVAILABLE', 'RESERVED', 'PENALTIES'];
+
+export interface LedgerEntryInput {
+  account: LedgerAccountTypeValue;
+  amount: number; // USDT, > 0 увеличивает счет
+}
+
+export interface LedgerPostingInput {
+  shopId: string;
+  type: LedgerTransactionTypeValue;
+  idempotencyKey?: string;
+  description: string;
+  paymentId?: string;
+  payoutId?: string;
+  refundId?: string;
+  availableAt?: Date;
+  metadata?: Prisma.InputJsonValue;
+  createdBy?: string;
+  entries: LedgerEntryInput[];
+}
+
+// ✅ ДОБАВЛЕНО: metadata проводки PAYMENT - курс и комиссия на момент оплаты
+export interface LedgerPaymentMetadata {
+  amount: number;      // Зачтенная сумма в валюте платежа
+  currency: string;
+  gateway: string;
+  grossAmount: number; // USDT
+  commission: number;  // %
+}
+
+// Сумма платежа по ledger: оплата с корректировками за вычетом возвратов (USDT, до комиссии)
+export interface LedgerPaymentAmount {
+  grossAmount: number;
+  commission: number;
+}
+
+export interface ShopBalanceResponse {
+  currency: 'USDT';
+  pending: number;    // Ожидает окончания задержки выплаты
+  available: number;  // Доступно к выплате
+  reserved: number;   // Удержано под запрошенные выплаты
+  paidOut: number;    // Выплачено всего (совпадает с суммой выполненных выплат)
+  fees: number;       // Комиссия платформы
+  penalties: number;  // Штрафы по chargeback
+  rollingReserve: number; // ✅ ДОБАВЛЕНО: Rolling reserve, удержанный до даты освобождения
+  updatedAt: Date | null;
+}
+
+export interface LedgerStatementFilters {
+  page: number;
+  limit: number;
+  account?: string;
+  type?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface LedgerStatementEntry {
+  id: string;
+  transactionId: string;
+  type: LedgerTransactionTypeValue;
+  description: string;
+  account: LedgerAccountTypeValue;
+  amount: number;
+  balanceAfter: number;
+  paymentId: string | null;
+  payoutId: string | null;
+  refundId: string | null;
+  createdAt: Date;
+}
+
+export interface CreateLedgerAdjustmentRequest {
+  account?: LedgerAccountTypeValue; // По умолчанию AVAILABLE
+  amount: number;                   // USDT, < 0 - списание
+  description: string;
+}
@@ -1,3 +1,5 @@
+import { Prisma } from '@prisma/client';
+
 export interface CreatePaymentRequest {
   shopId: string;
   gateway: string;
@@ -69,6 +71,7 @@ export interface PaymentResponse {
   expiresAt?: Date | null;
   redirectUrl: string; // ✅ Always tesoft.uk URL for merchants
   status: string;
+  orderId?: string | null; // ✅ ДОБАВЛЕНО: Merchant's order ID
   externalPaymentUrl?: string | null; // Original gateway URL (for internal use)
   customerEmail?: string | null;
   customerName?: string | null;
@@ -84,6 +87,13 @@ export interface PaymentResponse {
   bankId?: string | null;
   remitterIban?: string | null;
   remitterName?: string | null;
+  refundedAmount?: number; // ✅ ДОБАВЛЕНО: Сумма завершенных возвратов
+  // ✅ ДОБАВЛЕНО: Фактически полученная сумма и расхождение с суммой счета
+  receivedAmount?: number | null;
+  receivedCurrency?: string | null;
+  amountMismatch?: 'UNDERPAID' | 'OVERPAID' | null;
+  mismatchResolution?: 'ACCEPTED' | 'PARTIAL_CREDIT' | 'REFUNDED' | null;
+  creditedAmount?: number | null;
   createdAt: Date;
   updatedAt: Date;
   shop?: {
@@ -91,6 +101,7 @@ export interface PaymentResponse {
     username: string;
   };
   webhookLogs?: any[];
+  statusHistory?: PaymentStatusHistoryResponse[]; // ✅ ДОБАВЛЕНО
 }
 
 export interface PaymentStatusResponse {
@@ -134,4 +145,43 @@ export interface PaymentFilters {
   limit: number;
   status?: string;
   gateway?: string;
-}
\ No newline at end of file
+}
+
+// ✅ ДОБАВЛЕНО: Машина состояний статуса платежа
+export type PaymentStatusValue = 'PENDING' | 'PROCESSING' | 'PAID' | 'EXPIRED' | 'FAILED' | 'REFUND' | 'CHARGEBACK' | 'UNDERPAID';
+
+export interface PaymentStatusTransitionOptions {
+  source: string;         // webhook:<gateway>, cointopay_check, admin, shop, system
+  actor?: string;         // ID админа / магазина
+  reason?: any;           // Исходные данные изменения (строка или объект, сохраняется как JSON)
+  force?: boolean;        // Применить недопустимый переход (только админ), помечается forced
+  data?: Prisma.PaymentUpdateManyMutationInput; // Дополнительные поля платежа, обновляемые вместе со статусом
+}
+
+export interface PaymentStatusTransitionResult {
+  changed: boolean;       // Статус изменен этим вызовом
+  allowed: boolean;       // false - переход недопустим и отклонен
+  oldStatus: PaymentStatusValue;
+  newStatus: PaymentStatusValue;
+}
+
+export interface PaymentStatusHistoryResponse {
+  id: string;
+  oldStatus: string;
+  newStatus: string;
+  source: string;
+  actor: string | null;
+  reason: string | null;
+  accepted: boolean;
+  forced: boolean;
+  createdAt: Date;
+}
+
+// ✅ ДОБАВЛЕНО: Решение админа по недоплате / переплате
+export type AmountMismatchAction = 'ACCEPT' | 'PARTIAL_CREDIT' | 'REFUND';
+
+export interface ResolveAmountMismatchRequest {
+  action: AmountMismatchAction;
+  creditAmount?: number; // PARTIAL_CREDIT: сумма в валюте платежа (по умолчанию - пропорционально полученной)
+  notes?: string;
+}
@@ -5,6 +5,10 @@ export interface PayoutResponse {
   method: string;
   status: 'PENDING' | 'COMPLETED' | 'REJECTED';
   txid?: string | null;
+  wallet?: string | null;           // ✅ ДОБАВЛЕНО
+  walletAddress?: string | null;    // ✅ ДОБАВЛЕНО
+  rejectionReason?: string | null;  // ✅ ДОБАВЛЕНО
+  items?: PayoutItemResponse[];     // ✅ ДОБАВЛЕНО
   createdAt: Date;
   paidAt?: Date | null;
   shop?: {
@@ -41,6 +45,9 @@ export interface ShopPayoutStats {
   totalPaidOut: number;       // Total paid out amount in USDT
   awaitingPayout: number;     // Awaiting payout amount in USDT
   thisMonth: number;          // This month payouts in USDT
+  refunded: number;           // ✅ ДОБАВЛЕНО: Refunds (pending and completed) in USDT
+  pendingPayouts: number;     // ✅ ДОБАВЛЕНО: Payout requests awaiting approval (held from balance) in USDT
+  reserveHeld: number;        // ✅ ДОБАВЛЕНО: Rolling reserve not yet released (after commission) in USDT
 }
 
 export interface PayoutStats {
@@ -58,6 +65,37 @@ export interface ShopPayoutResponse {
   status: string;
   txid?: string | null;
   notes?: string | null;
+  wallet?: string | null;           // ✅ ДОБАВЛЕНО
+  walletAddress?: string | null;    // ✅ ДОБАВЛЕНО
+  rejectionReason?: string | null;  // ✅ ДОБАВЛЕНО
   createdAt: Date;
-  paidAt: Date;
+  paidAt: Date | null;              // ✅ ОБНОВЛЕНО: null while the request is pending
+}
+
+// ✅ ДОБАВЛЕНО: Платеж, который покрывает выплата (суммы в USDT)
+export interface PayoutItemResponse {
+  paymentId: string;
+  type: 'PAYMENT' | 'RESERVE'; // ✅ ДОБАВЛЕНО: Сумма платежа за вычетом rolling reserve или освобожденный резерв
+  orderId?: string | null;
+  amount?: number;
+  currency?: string;
+  grossAmount: number;   // За вычетом возвратов, до комиссии
+  commission: number;    // Процент комиссии шлюза
+  netAmount: number;     // К выплате мерчанту
+}
+
+// ✅ ДОБАВЛЕНО: Кошельки магазина, на которые можно запросить выплату
+export const PAYOUT_WALLETS = {
+  usdt_polygon: { field: 'usdtPolygonWallet', network: 'polygon' },
+  usdt_trc20: { field: 'usdtTrcWallet', network: 'trc20' },
+  usdt_erc20: { field: 'usdtErcWallet', network: 'erc20' },
+  usdc_polygon: { field: 'usdcPolygonWallet', network: 'polygon' },
+} as const;
+export type PayoutWallet = keyof typeof PAYOUT_WALLETS;
+
+// ✅ ДОБАВЛЕНО: Запрос выплаты мерчантом (сумма в USDT)
+export interface RequestPayoutRequest {
+  amount: number;
+  wallet: PayoutWallet;
+  notes?: string;
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+// ✅ ДОБАВЛЕНО: Возвраты платежей (таблица refunds)
+export type RefundStatusValue = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'REJECTED';
+
+// Возвраты в этих статусах уменьшают доступную для возврата сумму платежа и баланс магазина
+export const ACTIVE_REFUND_STATUSES: RefundStatusValue[] = ['PENDING', 'PROCESSING', 'COMPLETED'];
+
+export interface CreateRefundRequest {
+  amount?: number; // Не указана - возврат всей оставшейся суммы
+  reason?: string;
+}
+
+export interface CompleteRefundRequest {
+  gatewayRefundId?: string; // Ссылка на перевод, выполненный вручную
+  notes?: string;
+}
+
+export interface RejectRefundRequest {
+  reason: string;
+}
+
+export interface RefundResponse {
+  id: string;
+  paymentId: string;
+  shopId: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: RefundStatusValue;
+  gatewayRefundId: string | null;
+  failureReason: string | null;
+  adminNotes: string | null;
+  processedBy: string | null;
+  processedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  payment?: {
+    id: string;
+    gateway: string;
+    amount: number;
+    currency: string;
+    status: string;
+    refundedAmount: number;
+    orderId: string | null;
+  };
+  shop?: {
+    name: string;
+    username: string;
+  };
+}
+
+export interface RefundFilters {
+  page: number;
+  limit: number;
+  status?: string;
+  shopId?: string;
+  paymentId?: string;
+}
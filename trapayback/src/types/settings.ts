@@ -7,6 +7,8 @@ export interface ShopSettingsResponse {
   telegramChatId?: string | null;
   webhookUrl?: string | null;
   webhookEvents?: string[]; // ✅ Остается string[] для API ответов
+  orderIdPolicy: OrderIdPolicy; // ✅ ДОБАВЛЕНО
+  amountTolerancePercent: number; // ✅ ДОБАВЛЕНО: Допуск недоплаты / переплаты, %
   notifications: {
     payment_success: boolean;
     payment_failed: boolean;
@@ -42,6 +44,24 @@ export interface UpdateWebhookSettingsRequest {
   webhookEvents?: string[];
 }
 
+// ✅ ДОБАВЛЕНО: Политика повторного order_id
+export const ORDER_ID_POLICIES = ['REJECT', 'RETURN_EXISTING'] as const;
+export type OrderIdPolicy = typeof ORDER_ID_POLICIES[number];
+
+export interface UpdatePaymentSettingsRequest {
+  orderIdPolicy?: OrderIdPolicy;
+  amountTolerancePercent?: number; // ✅ ДОБАВЛЕНО
+}
+
+// ✅ ДОБАВЛЕНО: Параметры проверки подписи исходящих webhook
+export interface WebhookSecretResponse {
+  secret: string;
+  signatureHeader: string;
+  timestampHeader: string;
+  algorithm: string;
+  toleranceSeconds: number;
+}
+
 export interface DeleteAccountRequest {
   passwordConfirmation: string;
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 export interface GatewaySettings {
   commission: number; // Percentage (0-100)
   payoutDelay: number; // Days
+  reservePercent?: number; // ✅ ДОБАВЛЕНО: Rolling reserve, % от суммы к выплате (0-100)
+  reserveDays?: number;    // ✅ ДОБАВЛЕНО: Через сколько дней после оплаты освобождается резерв
 }
 
 export interface WalletSettings {
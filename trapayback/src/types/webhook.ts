@@ -1,6 +1,37 @@
+// ✅ ДОБАВЛЕНО: Каталог событий webhook, на которые магазин может подписаться (ShopSettings.webhookEvents)
+export const WEBHOOK_EVENTS = [
+  'payment.success',
+  'payment.failed',
+  'payment.pending',
+  'payment.processing',
+  'payment.expired',
+  'payment.refunded',
+  'payment.chargeback',
+  'payment.underpaid', // ✅ ДОБАВЛЕНО: Получено меньше суммы счета
+  'payment.overpaid',  // ✅ ДОБАВЛЕНО: Получено больше суммы счета (платеж оплачен, дополнительно к payment.success)
+  'payout.completed',
+  'payment_link.completed',
+  'refund.completed', // ✅ ДОБАВЛЕНО: Возврат (полный или частичный) выполнен
+  'refund.failed',    // ✅ ДОБАВЛЕНО: Возврат отклонен шлюзом или админом
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Статус платежа -> событие webhook
+export const PAYMENT_STATUS_WEBHOOK_EVENTS: Record<string, WebhookEvent> = {
+  PENDING: 'payment.pending',
+  PROCESSING: 'payment.processing',
+  PAID: 'payment.success',
+  FAILED: 'payment.failed',
+  EXPIRED: 'payment.expired',
+  REFUND: 'payment.refunded',
+  CHARGEBACK: 'payment.chargeback',
+  UNDERPAID: 'payment.underpaid',
+};
+
 export interface WebhookLogResponse {
   id: string;
-  paymentId: string;
+  paymentId: string | null;
   shopId: string;
   event: string;
   statusCode: number;
@@ -18,4 +49,70 @@ export interface WebhookLogFilters {
   page: number;
   limit: number;
   paymentId?: string;
-}
\ No newline at end of file
+}
+// ✅ ДОБАВЛЕНО: Результат постановки webhook магазину в очередь
+export interface WebhookDeliveryResult {
+  id: string;
+  endpointId: string | null; // null - основной webhookUrl из настроек
+  url: string;
+  status: string;
+}
+
+export interface WebhookSendResult {
+  paymentId?: string;
+  queued: boolean;
+  event?: string;
+  deliveries?: WebhookDeliveryResult[];
+  reason?: string;
+}
+
+export interface ResendWebhooksRequest {
+  dateFrom: string;
+  dateTo: string;
+  status?: string;
+}
+
+export interface ResendWebhooksResult {
+  total: number;
+  queued: number;
+  skipped: number;
+  results: WebhookSendResult[];
+}
+
+// ✅ ДОБАВЛЕНО: Входящие webhook от шлюзов (inbox)
+export interface InboundWebhookResponse {
+  id: string;
+  provider: string;
+  source: string;
+  dedupeKey: string;
+  status: string;
+  paymentId: string | null;
+  duplicateOf: string | null;
+  size: number | null;
+  ip: string | null;
+  error: string | null;
+  attempts: number;
+  processedAt: Date | null;
+  replayedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  headers?: any;
+  payload?: any;
+  rawBody?: string | null;
+}
+
+export interface InboundWebhookFilters {
+  page: number;
+  limit: number;
+  provider?: string;
+  status?: string;
+  paymentId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface InboundWebhookResult {
+  inboundWebhookId: string;
+  duplicate: boolean;
+  paymentId?: string;
+}